@@ -4,24 +4,83 @@
 // =============================================================================
 
 import { useEffect, useState } from 'react';
-import { Menu, X } from 'lucide-react';
+import { Menu, X, History, AlertTriangle } from 'lucide-react';
 import { useAppStore } from './stores/appStore';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { ExtractView } from './components/ExtractView';
 import { LayoutView } from './components/LayoutView';
 import { ProgressOverlay } from './components/ProgressOverlay';
-import { cleanupOldData } from './utils/storageUtils';
+import {
+  cleanupOldData,
+  flushAutosave,
+  markSessionClosed,
+  AUTOSAVE_INTERVAL,
+} from './utils/storageUtils';
+import { checkOfflineAssets } from './utils/offlineAssets';
 
 function App() {
-  const { activeTab, isProcessing, progress, files } = useAppStore();
+  const {
+    activeTab,
+    isProcessing,
+    progress,
+    files,
+    projects,
+    recoverableSession,
+    restoreSession,
+    startNewSession,
+  } = useAppStore();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [missingAssets, setMissingAssets] = useState<string[]>([]); // 見つからなかったオフライン用ファイル
 
   // 起動時に古いデータをクリーンアップ
   useEffect(() => {
     cleanupOldData().catch(console.error);
   }, []);
 
+  // 起動時にオフライン用のファイル（PDF.js・OCR）がそろっているか確認
+  useEffect(() => {
+    checkOfflineAssets().then((missing) => {
+      if (missing.length === 0) return;
+      console.warn('オフライン用のファイルが見つかりません:', missing);
+      setMissingAssets(missing);
+    });
+  }, []);
+
+  // 自動保存：編集が続いていても一定間隔で保存し、タブを離れる時・閉じる時にも保存
+  useEffect(() => {
+    const timer = setInterval(() => {
+      flushAutosave();
+    }, AUTOSAVE_INTERVAL);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flushAutosave();
+      }
+    };
+    const handlePageHide = () => {
+      markSessionClosed();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
+
+  // 前回のセッションの復元
+  const handleRestoreSession = async (restore: boolean) => {
+    try {
+      await (restore ? restoreSession() : startNewSession());
+    } catch (error) {
+      console.error('セッション復元エラー:', error);
+      alert('セッションを開けませんでした');
+    }
+  };
+
   // ファイルが追加されたらサイドバーを閉じる（モバイル）
   useEffect(() => {
     if (files.length > 0 && window.innerWidth < 768) {
@@ -34,6 +93,24 @@ function App() {
       {/* ヘッダー */}
       <Header />
 
+      {/* オフライン用ファイルの不足 */}
+      {missingAssets.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 flex items-center gap-2 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">
+            次のファイルが見つかりません: {missingAssets.join('、')}
+            （PDFの表示・OCRが正しく動作しない場合があります）
+          </span>
+          <button
+            className="p-1 hover:bg-amber-100 rounded"
+            onClick={() => setMissingAssets([])}
+            aria-label="閉じる"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* メインコンテンツ */}
       <div className="flex-1 flex overflow-hidden relative">
         {/* モバイルメニューボタン */}
@@ -70,6 +147,41 @@ function App() {
         </main>
       </div>
 
+      {/* 前回のセッションの復元確認 */}
+      {recoverableSession && (
+        <div className="modal-overlay">
+          <div className="modal-content p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <History className="w-5 h-5 text-blue-500" />
+              <h3 className="font-medium">前回の作業が正常に終了しませんでした</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-1">
+              {recoverableSession.savedAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+              に自動保存された未保存のセッションを復元しますか？
+            </p>
+            <p className="text-xs text-gray-500 mb-4">
+              プロジェクト: {projects.find((p) => p.id === recoverableSession.projectId)?.name ?? '不明'}
+              （復元しない場合もプロジェクト一覧から開けます）
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                className="px-4 py-2 text-sm border rounded hover:bg-gray-100"
+                onClick={() => handleRestoreSession(false)}
+              >
+                新しく始める
+              </button>
+              <button
+                className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                onClick={() => handleRestoreSession(true)}
+              >
+                {recoverableSession.savedAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                のセッションを復元
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* プログレスオーバーレイ */}
       {isProcessing && progress && <ProgressOverlay progress={progress} />}
     </div>
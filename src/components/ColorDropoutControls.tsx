@@ -0,0 +1,53 @@
+// =============================================================================
+// 色消しの設定（赤ペン・蛍光ペン・黒以外の色を消す）
+// 補正設定・補正プリセット・ページごと・スニペットごとの設定で共通に使う
+// =============================================================================
+
+import type { ColorDropout, ColorDropoutFilter } from '../types';
+
+interface ColorDropoutControlsProps {
+  value: ColorDropout;
+  onChange: (value: ColorDropout) => void;
+}
+
+// フィルターの表示名
+const FILTERS: Array<{ key: keyof ColorDropout; label: string; title: string }> = [
+  { key: 'red', label: '赤ペンを消す', title: '赤ペンの添削・丸付けを白にする' },
+  { key: 'highlighter', label: '蛍光ペンを消す', title: '黄色・ピンクの蛍光ペンを白にする（文字は残る）' },
+  { key: 'nonBlack', label: '黒だけ残す', title: '黒に近い色以外をすべて白にする' },
+];
+
+export function ColorDropoutControls({ value, onChange }: ColorDropoutControlsProps) {
+  const update = (key: keyof ColorDropout, changes: Partial<ColorDropoutFilter>) => {
+    onChange({ ...value, [key]: { ...value[key], ...changes } });
+  };
+
+  return (
+    <div className="space-y-1">
+      {FILTERS.map(({ key, label, title }) => (
+        <div key={key} className="flex items-center gap-2 text-sm">
+          <label className="flex items-center gap-1 w-32" title={title}>
+            <input
+              type="checkbox"
+              checked={value[key].enabled}
+              onChange={(e) => update(key, { enabled: e.target.checked })}
+            />
+            {label}
+          </label>
+          <span className="text-xs text-gray-500">許容範囲</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={value[key].tolerance}
+            disabled={!value[key].enabled}
+            onChange={(e) => update(key, { tolerance: parseInt(e.target.value, 10) })}
+            className="w-24"
+          />
+          <span className="text-xs w-6">{value[key].tolerance}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,21 +2,38 @@
 // トリミングツールコンポーネント（改良版）
 // P3-001: トリミング機能
 // CROP-001〜006: 画面外ドラッグ、移動、リサイズ、テンプレート
+// 切り出し範囲の自動検出（候補ごとに採用・調整・破棄）
+// 余白を詰める（選択範囲を文字の範囲に縮める、設定で切り出し時に自動）
+// 多角形・複数矩形の切り出しとマスク（白く塗る範囲、スニペットに保存して再トリミングで編集できる）
 // =============================================================================
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { Crop, Check, X, AlertCircle, Move } from 'lucide-react';
+import { Crop, Check, X, AlertCircle, Move, Wand2, Shrink } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
-import type { CropArea } from '../types';
+import type { CropArea, CropShape, ImageEnhancement, Position } from '../types';
+import { loadImageElement, loadImageData, saveImage, saveCanvasImage } from '../utils/imageStore';
+import { processImage } from '../utils/imageProcessing';
+import { getColorDropoutEnhancement } from '../utils/imageFilters';
+import { useImageURL } from './StoredImage';
 import {
   saveTemplate,
   clampSelectionToImage,
+  applyTemplate,
   type TemplateScope,
   type CropTemplate,
 } from '../utils/cropTemplateUtils';
+import { detectRegions, findContentBounds, type RegionDetail, type RegionProposal } from '../utils/regionDetection';
+import {
+  hasCropShape,
+  getCropShapeBounds,
+  mapCropShape,
+  mapAreas,
+  offsetAndScale,
+  paintOutsideShape,
+} from '../utils/cropShapeUtils';
 
 interface CropToolProps {
-  imageData: string;
+  imageId: string;
   sourceFileId: string;
   sourcePageNumber: number;
   zoom: number;
@@ -28,14 +45,95 @@ interface CropToolProps {
   onCropComplete?: () => void;
   updateSnippetId?: string | null;  // 更新モード用：既存スニペットのID
   initialCropArea?: CropArea | null;  // 再トリミング用：初期選択範囲
+  initialCropShape?: CropShape | null;  // 再トリミング用：初期の形（ページ画像の座標）
+  initialMasks?: CropArea[] | null;  // 再トリミング用：初期のマスク（ページ画像の座標）
 }
 
 type DragMode = 'none' | 'select' | 'move' | 'resize-nw' | 'resize-n' | 'resize-ne' | 'resize-e' | 'resize-se' | 'resize-s' | 'resize-sw' | 'resize-w';
 
+// 矩形：通常の範囲選択、複数矩形：矩形を重ねた範囲、多角形：頂点をクリック、マスク：白く塗る範囲
+type ShapeTool = 'rect' | 'rects' | 'polygon' | 'mask';
+
 const HANDLE_SIZE = 10;
+// 多角形の始点をクリックしたとみなす距離（画面上のpx）
+const POLYGON_CLOSE_DISTANCE = 10;
+// 複数矩形・マスクとして追加する最小サイズ（px）
+const MIN_SHAPE_RECT_SIZE = 4;
+
+const SHAPE_TOOLS: Array<{ value: ShapeTool; label: string; hint: string }> = [
+  { value: 'rect', label: '矩形', hint: 'ドラッグで範囲選択' },
+  { value: 'rects', label: '複数矩形', hint: 'ドラッグで矩形を追加（重ねた範囲をまとめて切り出す）' },
+  { value: 'polygon', label: '多角形', hint: 'クリックで頂点を追加・始点をクリックで閉じる' },
+  { value: 'mask', label: 'マスク', hint: 'ドラッグで白く塗る範囲を追加' },
+];
+
+// 自動検出の細かさの表示名
+const REGION_DETAILS: Array<{ value: RegionDetail; label: string }> = [
+  { value: 'coarse', label: '粗く' },
+  { value: 'normal', label: '標準' },
+  { value: 'fine', label: '細かく' },
+];
+
+interface CroppedImage {
+  imageId: string;
+  cropArea: CropArea;
+  cropShape?: CropShape; // 切り出し範囲の左上からの座標
+  masks?: CropArea[]; // 切り出し範囲の左上からの座標
+}
+
+/**
+ * 切り出し範囲を整数のpxにする
+ */
+function roundCropArea(area: CropArea): CropArea {
+  return {
+    x: Math.round(area.x),
+    y: Math.round(area.y),
+    width: Math.round(area.width),
+    height: Math.round(area.height),
+  };
+}
+
+/**
+ * ページ画像の範囲を切り出して保存
+ * 形・マスク（ページ画像の座標）があれば、形の外とマスクを白く塗る
+ * @param enhancement 切り出した画像に適用する補正（再トリミングするスニペットの色消し）
+ */
+async function cropPageImage(
+  imageId: string,
+  area: CropArea,
+  shape?: CropShape | null,
+  masks: CropArea[] = [],
+  enhancement?: ImageEnhancement
+): Promise<CroppedImage> {
+  const img = await loadImageElement(imageId);
+  const cropArea = roundCropArea(area);
+  const canvas = document.createElement('canvas');
+  canvas.width = cropArea.width;
+  canvas.height = cropArea.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('キャンバスの作成に失敗しました');
+  ctx.drawImage(img, cropArea.x, cropArea.y, cropArea.width, cropArea.height, 0, 0, cropArea.width, cropArea.height);
+
+  // 形・マスクは切り出し範囲の左上からの座標で保存する
+  const toLocal = offsetAndScale(-cropArea.x, -cropArea.y);
+  const localShape = hasCropShape(shape) ? mapCropShape(shape, toLocal) : undefined;
+  const localMasks = masks.length > 0 ? mapAreas(masks, toLocal) : undefined;
+  paintOutsideShape(ctx, localShape, localMasks);
+  const croppedImageId = enhancement
+    ? await saveImage((await processImage(canvas, enhancement)).blob)
+    : await saveCanvasImage(canvas);
+  return { imageId: croppedImageId, cropArea, cropShape: localShape, masks: localMasks };
+}
+
+/**
+ * SVGのpoints属性の文字列
+ */
+function toSvgPoints(points: Position[]): string {
+  return points.map((p) => `${p.x},${p.y}`).join(' ');
+}
 
 export function CropTool({
-  imageData,
+  imageId,
   sourceFileId,
   sourcePageNumber,
   zoom,
@@ -47,8 +145,17 @@ export function CropTool({
   onCropComplete,
   updateSnippetId,
   initialCropArea,
+  initialCropShape,
+  initialMasks,
 }: CropToolProps) {
-  const { addSnippet, updateSnippet } = useAppStore();
+  const { addSnippet, updateSnippet, files, snippets, settings } = useAppStore();
+  const imageUrl = useImageURL(imageId);
+  const sourcePage = files
+    .find((f) => f.id === sourceFileId)
+    ?.pages.find((p) => p.pageNumber === sourcePageNumber);
+  const ocrBlocks = sourcePage?.ocrBlocks;
+  // テンプレートの位置・サイズの座標系（imageIdを描画した解像度スケール）
+  const renderScale = sourcePage?.renderScale;
 
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -57,35 +164,72 @@ export function CropTool({
   const [dragStart, setDragStart] = useState<{ x: number; y: number; selection: CropArea | null } | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [imageSize, setImageSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const [proposals, setProposals] = useState<RegionProposal[]>([]); // 自動検出した切り出し候補
+  const [regionDetail, setRegionDetail] = useState<RegionDetail>('normal');
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [shapeTool, setShapeTool] = useState<ShapeTool>('rect');
+  const [cropShape, setCropShape] = useState<CropShape | null>(null); // ページ画像の座標
+  const [masks, setMasks] = useState<CropArea[]>([]); // ページ画像の座標
+  const [polygonDraft, setPolygonDraft] = useState<Position[]>([]); // 閉じる前の多角形の頂点
+  const [shapeDraft, setShapeDraft] = useState<{ start: Position; area: CropArea } | null>(null); // ドラッグ中の矩形・マスク
+
+  // 形を変えたら選択範囲を形の外接矩形に合わせる
+  const updateShape = useCallback((shape: CropShape | null) => {
+    setCropShape(shape);
+    if (hasCropShape(shape)) setSelection(getCropShapeBounds(shape));
+  }, []);
+
+  // 形・マスクを消して通常の範囲選択に戻す（選択範囲はそのまま）
+  const resetShape = useCallback(() => {
+    setCropShape(null);
+    setMasks([]);
+    setPolygonDraft([]);
+    setShapeTool('rect');
+  }, []);
+
+  // 道具を切り替える（矩形に戻すと形を消し、外接矩形を選択範囲として残す）
+  const changeShapeTool = useCallback((tool: ShapeTool) => {
+    setPolygonDraft([]);
+    if (tool === 'rect') setCropShape(null);
+    if (tool === 'rects' && !cropShape?.rects) {
+      updateShape(selection && selection.width > 0 && selection.height > 0 ? { rects: [selection] } : null);
+    }
+    if (tool === 'polygon' && !cropShape?.polygon) setCropShape(null);
+    setShapeTool(tool);
+  }, [cropShape, selection, updateShape]);
+
+  const closePolygon = useCallback(() => {
+    if (!hasCropShape({ polygon: polygonDraft })) return;
+    updateShape({ polygon: polygonDraft });
+    setPolygonDraft([]);
+  }, [polygonDraft, updateShape]);
+
+  // ページが変わったら候補を消す
+  useEffect(() => {
+    setProposals([]);
+  }, [imageId]);
 
   // 画像サイズを取得
   useEffect(() => {
+    if (!imageUrl) return;
     const img = new Image();
     img.onload = () => {
       setImageSize({ width: img.width, height: img.height });
     };
-    img.src = imageData;
-  }, [imageData]);
+    img.src = imageUrl;
+  }, [imageUrl]);
 
   // テンプレート適用
   useEffect(() => {
     if (!templateToApply || imageSize.width === 0 || imageSize.height === 0) return;
 
-    // 画像中央に配置
-    const newSelection = clampSelectionToImage(
-      {
-        x: (imageSize.width - templateToApply.width) / 2,
-        y: (imageSize.height - templateToApply.height) / 2,
-        width: templateToApply.width,
-        height: templateToApply.height,
-      },
-      imageSize.width,
-      imageSize.height
-    );
+    // 位置付きテンプレートはその位置、サイズだけのテンプレートは画像中央に配置
+    const newSelection = applyTemplate(templateToApply, imageSize.width, imageSize.height, renderScale);
 
     setSelection(newSelection);
+    resetShape();
     onTemplateApplied?.();
-  }, [templateToApply, imageSize, onTemplateApplied]);
+  }, [templateToApply, imageSize, renderScale, onTemplateApplied, resetShape]);
 
   // 再トリミング用：初期選択範囲を設定
   useEffect(() => {
@@ -99,7 +243,12 @@ export function CropTool({
       imageSize.height
     );
     setSelection(newSelection);
-  }, [initialCropArea, imageSize, templateToApply]);
+    // 保存した形・マスクを編集できるよう読み込む
+    setCropShape(hasCropShape(initialCropShape) ? initialCropShape : null);
+    setMasks(initialMasks ?? []);
+    setPolygonDraft([]);
+    setShapeTool(initialCropShape?.polygon ? 'polygon' : initialCropShape?.rects ? 'rects' : 'rect');
+  }, [initialCropArea, initialCropShape, initialMasks, imageSize, templateToApply]);
 
   // 座標変換（クライアント座標 → 画像座標）
   const clientToImage = useCallback((clientX: number, clientY: number): { x: number; y: number } => {
@@ -111,6 +260,11 @@ export function CropTool({
     };
   }, [zoom]);
 
+  const clampToImage = useCallback((pos: Position): Position => ({
+    x: Math.min(Math.max(pos.x, 0), imageSize.width),
+    y: Math.min(Math.max(pos.y, 0), imageSize.height),
+  }), [imageSize]);
+
   // ドラッグモードからカーソルを取得
   const getCursor = (mode: DragMode): string => {
     switch (mode) {
@@ -130,6 +284,27 @@ export function CropTool({
 
     const pos = clientToImage(e.clientX, e.clientY);
 
+    // 多角形：頂点を追加（始点の近くをクリックすると閉じる）
+    if (shapeTool === 'polygon') {
+      const first = polygonDraft[0];
+      if (
+        hasCropShape({ polygon: polygonDraft }) &&
+        Math.hypot(pos.x - first.x, pos.y - first.y) < POLYGON_CLOSE_DISTANCE / zoom
+      ) {
+        closePolygon();
+      } else {
+        setPolygonDraft([...polygonDraft, clampToImage(pos)]);
+      }
+      return;
+    }
+
+    // 複数矩形・マスク：ドラッグで矩形を追加
+    if (shapeTool !== 'rect') {
+      const start = clampToImage(pos);
+      setShapeDraft({ start, area: { ...start, width: 0, height: 0 } });
+      return;
+    }
+
     // 既存の選択範囲内かチェック
     if (selection) {
       const handle = getHandleAtPosition(pos, selection);
@@ -144,7 +319,7 @@ export function CropTool({
     setDragMode('select');
     setDragStart({ x: pos.x, y: pos.y, selection: null });
     setSelection({ x: pos.x, y: pos.y, width: 0, height: 0 });
-  }, [selection, clientToImage]);
+  }, [selection, clientToImage, shapeTool, polygonDraft, zoom, closePolygon, clampToImage]);
 
   // ハンドル位置を判定
   const getHandleAtPosition = (pos: { x: number; y: number }, sel: CropArea): DragMode => {
@@ -312,6 +487,68 @@ export function CropTool({
     };
   }, [dragMode, dragStart, clientToImage, imageSize]);
 
+  // 複数矩形・マスクのドラッグ
+  useEffect(() => {
+    if (!shapeDraft) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const pos = clampToImage(clientToImage(e.clientX, e.clientY));
+      const { start } = shapeDraft;
+      setShapeDraft({
+        start,
+        area: {
+          x: Math.min(start.x, pos.x),
+          y: Math.min(start.y, pos.y),
+          width: Math.abs(pos.x - start.x),
+          height: Math.abs(pos.y - start.y),
+        },
+      });
+    };
+
+    const handleMouseUp = () => {
+      setShapeDraft(null);
+      const { area } = shapeDraft;
+      if (area.width < MIN_SHAPE_RECT_SIZE || area.height < MIN_SHAPE_RECT_SIZE) return;
+      if (shapeTool === 'mask') {
+        setMasks([...masks, area]);
+      } else {
+        updateShape({ rects: [...(cropShape?.rects ?? []), area] });
+      }
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [shapeDraft, shapeTool, masks, cropShape, clientToImage, clampToImage, updateShape]);
+
+  // 設定で有効なら、切り出す範囲の余白を詰める
+  const trimIfEnabled = useCallback(async (area: CropArea): Promise<CropArea> => {
+    if (!settings.autoTrim) return area;
+    return findContentBounds(await loadImageData(imageId), area, settings.autoTrimPadding);
+  }, [imageId, settings.autoTrim, settings.autoTrimPadding]);
+
+  // 切り出す範囲（形があればその外接矩形、マスクがあれば詰めずにそのまま）
+  const getCropArea = useCallback(async (area: CropArea): Promise<CropArea> => {
+    if (hasCropShape(cropShape)) return getCropShapeBounds(cropShape);
+    if (masks.length > 0) return area;
+    return trimIfEnabled(area);
+  }, [cropShape, masks, trimIfEnabled]);
+
+  // 選択範囲の余白を詰める
+  const handleTrimSelection = useCallback(async () => {
+    if (!selection) return;
+    setErrorMessage(null);
+    try {
+      setSelection(findContentBounds(await loadImageData(imageId), selection, settings.autoTrimPadding));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : '画像エラー');
+    }
+  }, [selection, imageId, settings.autoTrimPadding]);
+
   // 切り出し確定
   const handleConfirm = useCallback(async () => {
     setErrorMessage(null);
@@ -320,94 +557,70 @@ export function CropTool({
       return;
     }
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      setErrorMessage('キャンバスの作成に失敗しました');
-      return;
-    }
-
-    const img = new Image();
-    img.src = imageData;
-
+    // 再トリミングでは、スニペットの色消しを切り出し直した画像にも適用する
+    const colorDropout = updateSnippetId ? snippets.find((s) => s.id === updateSnippetId)?.colorDropout : undefined;
+    // 一括適用ではページごとに余白を詰めて切り出すため、ここでは範囲だけ決めて画像は保存しない
+    const isBatch = batchMode && !!onBatchCrop;
+    let cropped: CroppedImage | null = null;
     try {
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
-      });
+      if (!isBatch) {
+        cropped = await cropPageImage(
+          imageId,
+          await getCropArea(selection),
+          cropShape,
+          masks,
+          getColorDropoutEnhancement(colorDropout)
+        );
+      }
     } catch (error) {
-      setErrorMessage(error instanceof Error ? error.message : '画像エラー');
+      setErrorMessage(error instanceof Error ? error.message : '画像の保存に失敗しました');
       return;
     }
-
-    // 座標を整数に丸める（小数点による誤差を防ぐ）
-    const cropX = Math.round(selection.x);
-    const cropY = Math.round(selection.y);
-    const cropW = Math.round(selection.width);
-    const cropH = Math.round(selection.height);
-
-    canvas.width = cropW;
-    canvas.height = cropH;
-
-    ctx.drawImage(
-      img,
-      cropX,
-      cropY,
-      cropW,
-      cropH,
-      0,
-      0,
-      cropW,
-      cropH
-    );
-
-    const croppedImageData = canvas.toDataURL('image/png');
+    const cropArea = cropped ? cropped.cropArea : roundCropArea(selection);
 
     // テンプレートとして保存
     saveTemplate(
       templateScope,
-      { width: selection.width, height: selection.height, createdAt: Date.now() },
+      { ...cropArea, renderScale, createdAt: Date.now() },
       sourceFileId,
       sourcePageNumber
     );
 
-    // 整数に丸めたcropArea
-    const roundedCropArea = {
-      x: cropX,
-      y: cropY,
-      width: cropW,
-      height: cropH,
-    };
-
     // BATCH-002: 一括モードの場合はonBatchCropを呼び出し
-    if (batchMode && onBatchCrop) {
-      onBatchCrop(roundedCropArea);
+    if (!cropped) {
+      onBatchCrop?.(cropArea);
     } else if (updateSnippetId) {
-      // 更新モード：既存スニペットを更新
+      // 更新モード：既存スニペットを更新（形・マスクがなければ消す）
       updateSnippet(updateSnippetId, {
         sourceFileId,
         sourcePageNumber,
-        cropArea: roundedCropArea,
+        cropArea: cropped.cropArea,
         cropZoom: zoom,  // トリミング時のズーム値を保存
-        imageData: croppedImageData,
+        imageId: cropped.imageId,
+        cropShape: cropped.cropShape,
+        masks: cropped.masks,
+        colorDropout,
       });
     } else {
       addSnippet({
         sourceFileId,
         sourcePageNumber,
-        cropArea: roundedCropArea,
+        cropArea: cropped.cropArea,
         cropZoom: zoom,  // トリミング時のズーム値を保存
-        imageData: croppedImageData,
+        imageId: cropped.imageId,
+        cropShape: cropped.cropShape,
+        masks: cropped.masks,
       });
     }
 
     setSelection(null);
+    resetShape();
 
     // 再トリミング完了コールバック
     if (onCropComplete) {
       onCropComplete();
     }
-  }, [selection, imageData, sourceFileId, sourcePageNumber, templateScope, zoom, addSnippet, updateSnippet, updateSnippetId, batchMode, onBatchCrop, onCropComplete]);
+  }, [selection, imageId, sourceFileId, sourcePageNumber, templateScope, renderScale, zoom, addSnippet, updateSnippet, updateSnippetId, snippets, batchMode, onBatchCrop, onCropComplete, getCropArea, cropShape, masks, resetShape]);
 
   // 単体切り出し（batchModeでも現在のページのみ切り出す）
   const handleSingleCrop = useCallback(async () => {
@@ -417,61 +630,18 @@ export function CropTool({
       return;
     }
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      setErrorMessage('キャンバスの作成に失敗しました');
-      return;
-    }
-
-    const img = new Image();
-    img.src = imageData;
-
+    let cropped: CroppedImage;
     try {
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
-      });
+      cropped = await cropPageImage(imageId, await getCropArea(selection), cropShape, masks);
     } catch (error) {
-      setErrorMessage(error instanceof Error ? error.message : '画像エラー');
+      setErrorMessage(error instanceof Error ? error.message : '画像の保存に失敗しました');
       return;
     }
 
-    // 座標を整数に丸める（小数点による誤差を防ぐ）
-    const cropX = Math.round(selection.x);
-    const cropY = Math.round(selection.y);
-    const cropW = Math.round(selection.width);
-    const cropH = Math.round(selection.height);
-
-    canvas.width = cropW;
-    canvas.height = cropH;
-
-    ctx.drawImage(
-      img,
-      cropX,
-      cropY,
-      cropW,
-      cropH,
-      0,
-      0,
-      cropW,
-      cropH
-    );
-
-    const croppedImageData = canvas.toDataURL('image/png');
-
-    // 整数に丸めたcropArea
-    const roundedCropArea = {
-      x: cropX,
-      y: cropY,
-      width: cropW,
-      height: cropH,
-    };
-
     // テンプレートとして保存
     saveTemplate(
       templateScope,
-      { width: cropW, height: cropH, createdAt: Date.now() },
+      { ...cropped.cropArea, renderScale, createdAt: Date.now() },
       sourceFileId,
       sourcePageNumber
     );
@@ -480,25 +650,85 @@ export function CropTool({
     addSnippet({
       sourceFileId,
       sourcePageNumber,
-      cropArea: roundedCropArea,
+      cropArea: cropped.cropArea,
       cropZoom: zoom,
-      imageData: croppedImageData,
+      imageId: cropped.imageId,
+      cropShape: cropped.cropShape,
+      masks: cropped.masks,
     });
 
     setSelection(null);
+    resetShape();
 
     // 完了コールバック
     if (onCropComplete) {
       onCropComplete();
     }
-  }, [selection, imageData, sourceFileId, sourcePageNumber, templateScope, zoom, addSnippet, onCropComplete]);
+  }, [selection, imageId, sourceFileId, sourcePageNumber, templateScope, renderScale, zoom, addSnippet, onCropComplete, getCropArea, cropShape, masks, resetShape]);
+
+  // 切り出し範囲の自動検出
+  const handleDetectRegions = useCallback(async () => {
+    setErrorMessage(null);
+    setIsDetecting(true);
+    try {
+      const found = detectRegions(await loadImageData(imageId), regionDetail, ocrBlocks);
+      setProposals(found);
+      if (found.length === 0) setErrorMessage('切り出し候補が見つかりませんでした');
+    } catch (error) {
+      console.error('領域の検出に失敗しました:', error);
+      setErrorMessage(error instanceof Error ? error.message : '領域の検出に失敗しました');
+    } finally {
+      setIsDetecting(false);
+    }
+  }, [imageId, regionDetail, ocrBlocks]);
+
+  // 候補を採用してスニペットにする
+  const acceptProposals = useCallback(async (targets: RegionProposal[]) => {
+    setErrorMessage(null);
+    const accepted = new Set<string>();
+    try {
+      for (const proposal of targets) {
+        const cropped = await cropPageImage(imageId, await trimIfEnabled(proposal));
+        addSnippet({
+          sourceFileId,
+          sourcePageNumber,
+          cropArea: cropped.cropArea,
+          cropZoom: zoom,
+          imageId: cropped.imageId,
+        });
+        accepted.add(proposal.id);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : '画像の保存に失敗しました');
+    }
+    setProposals((current) => current.filter((p) => !accepted.has(p.id)));
+    if (accepted.size > 0) onCropComplete?.();
+  }, [imageId, sourceFileId, sourcePageNumber, zoom, addSnippet, onCropComplete, trimIfEnabled]);
+
+  // 候補を選択範囲にして調整する（確定は通常の切り出しと同じ）
+  const adjustProposal = useCallback((proposal: RegionProposal) => {
+    setSelection(
+      clampSelectionToImage(
+        { x: proposal.x, y: proposal.y, width: proposal.width, height: proposal.height },
+        imageSize.width,
+        imageSize.height
+      )
+    );
+    resetShape();
+    setProposals((current) => current.filter((p) => p.id !== proposal.id));
+  }, [imageSize, resetShape]);
+
+  const discardProposal = useCallback((proposalId: string) => {
+    setProposals((current) => current.filter((p) => p.id !== proposalId));
+  }, []);
 
   const handleCancel = useCallback(() => {
     setSelection(null);
     setDragMode('none');
     setDragStart(null);
     setErrorMessage(null);
-  }, []);
+    resetShape();
+  }, [resetShape]);
 
   // CROP-005: ボタン位置をクランプして常に見える位置に
   const getButtonPosition = useCallback(() => {
@@ -542,39 +772,101 @@ export function CropTool({
     if (!selection) return;
 
     const pos = clientToImage(e.clientX, e.clientY);
-    const handle = getHandleAtPosition(pos, selection);
+    // 矩形以外の道具では範囲を動かさない
+    const handle = shapeTool === 'rect' ? getHandleAtPosition(pos, selection) : 'none';
     const cursor = getCursor(handle);
 
     if (containerRef.current) {
       containerRef.current.style.cursor = cursor;
     }
-  }, [selection, dragMode, clientToImage]);
+  }, [selection, dragMode, clientToImage, shapeTool]);
 
   return (
     <div className="relative">
       {/* 操作説明 */}
       <div className="absolute top-2 left-2 z-10 bg-black bg-opacity-50 text-white text-sm px-2 py-1 rounded flex items-center gap-1">
         <Crop className="w-4 h-4" />
-        ドラッグで範囲選択
-        {selection && (
+        {SHAPE_TOOLS.find((t) => t.value === shapeTool)?.hint}
+        {selection && shapeTool === 'rect' && (
           <>
             <span className="mx-1">|</span>
             <Move className="w-4 h-4" />
             範囲内で移動・角でリサイズ
           </>
         )}
+        {/* 切り出し範囲の自動検出 */}
+        <span className="mx-1">|</span>
+        <select
+          className="text-black text-xs rounded px-1 py-0.5"
+          value={regionDetail}
+          onChange={(e) => setRegionDetail(e.target.value as RegionDetail)}
+          title="塊を分ける細かさ"
+        >
+          {REGION_DETAILS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          className="flex items-center gap-1 px-2 py-0.5 bg-emerald-500 rounded hover:bg-emerald-600 disabled:opacity-50"
+          onClick={handleDetectRegions}
+          disabled={isDetecting}
+          title={ocrBlocks?.length ? '余白とOCRのブロックから切り出し候補を探す' : '余白から切り出し候補を探す'}
+        >
+          <Wand2 className="w-4 h-4" />
+          {isDetecting ? '検出中...' : '領域を自動検出'}
+        </button>
+        {proposals.length > 0 && (
+          <>
+            {!updateSnippetId && (
+              <button
+                className="px-2 py-0.5 bg-green-500 rounded hover:bg-green-600"
+                onClick={() => acceptProposals(proposals)}
+              >
+                すべて採用（{proposals.length}）
+              </button>
+            )}
+            <button className="px-2 py-0.5 bg-gray-500 rounded hover:bg-gray-600" onClick={() => setProposals([])}>
+              すべて破棄
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* 切り出し範囲の形・マスク */}
+      <div className="absolute top-11 left-2 z-10 bg-black bg-opacity-50 text-white text-sm px-2 py-1 rounded flex items-center gap-1">
+        {SHAPE_TOOLS.map(({ value, label }) => (
+          <button
+            key={value}
+            className={`px-2 py-0.5 rounded ${shapeTool === value ? 'bg-blue-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+            onClick={() => changeShapeTool(value)}
+          >
+            {label}
+          </button>
+        ))}
+        {hasCropShape({ polygon: polygonDraft }) && (
+          <button className="px-2 py-0.5 bg-green-500 rounded hover:bg-green-600" onClick={closePolygon}>
+            多角形を閉じる
+          </button>
+        )}
+        {(cropShape || masks.length > 0 || polygonDraft.length > 0) && (
+          <button className="px-2 py-0.5 bg-gray-500 rounded hover:bg-gray-600" onClick={resetShape}>
+            形をリセット
+          </button>
+        )}
       </div>
 
       {/* エラーメッセージ */}
       {errorMessage && (
-        <div className="absolute top-12 left-2 z-10 bg-red-500 text-white text-sm px-2 py-1 rounded flex items-center gap-1">
+        <div className="absolute top-20 left-2 z-10 bg-red-500 text-white text-sm px-2 py-1 rounded flex items-center gap-1">
           <AlertCircle className="w-4 h-4" />
           {errorMessage}
         </div>
       )}
 
       {/* 選択確定ボタン（position: fixed でビューポート基準） */}
-      {isValidSelection && dragMode === 'none' && (
+      {isValidSelection && dragMode === 'none' && !shapeDraft && (
         <div
           className="fixed z-50 flex gap-1"
           style={{ top: buttonPos.top, right: buttonPos.right }}
@@ -596,8 +888,8 @@ export function CropTool({
             <Check className="w-4 h-4" />
             切り出し
           </button>
-          {/* 一括適用ボタン（複数ページ選択時のみ表示） */}
-          {batchMode && (
+          {/* 一括適用ボタン（複数ページ選択時のみ表示、形・マスクはページごとに違うため使わない） */}
+          {batchMode && !hasCropShape(cropShape) && masks.length === 0 && (
             <button
               className="flex items-center gap-1 px-3 py-2 bg-blue-500 text-white rounded shadow-lg hover:bg-blue-600"
               onClick={handleConfirm}
@@ -607,6 +899,18 @@ export function CropTool({
               一括適用
             </button>
           )}
+          {/* 余白を詰める（結果を確認してから切り出せる、形があるときは形と合わなくなるため使わない） */}
+          {!hasCropShape(cropShape) && (
+            <button
+              className="flex items-center gap-1 px-3 py-2 bg-white text-gray-700 rounded shadow-lg hover:bg-gray-100"
+              onClick={handleTrimSelection}
+              title={`選択範囲を文字のある範囲に縮める（余白${settings.autoTrimPadding}px）`}
+              aria-label="余白を詰める"
+            >
+              <Shrink className="w-4 h-4" />
+              余白を詰める
+            </button>
+          )}
           <button
             className="flex items-center gap-1 px-2 py-2 bg-gray-500 text-white rounded shadow-lg hover:bg-gray-600"
             onClick={handleCancel}
@@ -631,24 +935,78 @@ export function CropTool({
       >
         <img
           ref={imageRef}
-          src={imageData}
+          src={imageUrl ?? undefined}
           alt="PDF Page"
           className="max-w-none"
           draggable={false}
         />
 
+        {/* 自動検出した切り出し候補（クリックで選択範囲にして調整） */}
+        {proposals.map((proposal) => (
+          <div
+            key={proposal.id}
+            className={`absolute border-2 border-dashed cursor-pointer ${
+              proposal.source === 'ocr'
+                ? 'border-purple-500 bg-purple-200 hover:bg-purple-300'
+                : 'border-emerald-500 bg-emerald-200 hover:bg-emerald-300'
+            } bg-opacity-20 hover:bg-opacity-40`}
+            style={{
+              left: proposal.x,
+              top: proposal.y,
+              width: proposal.width,
+              height: proposal.height,
+              pointerEvents: dragMode === 'none' ? 'auto' : 'none',
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => adjustProposal(proposal)}
+            title={`クリックで範囲を調整（${proposal.source === 'ocr' ? 'OCRのブロック' : '余白で区切った塊'}）`}
+          >
+            {/* 拡大率によらず同じ大きさで表示 */}
+            <div
+              className="absolute top-0 left-0 flex gap-0.5 p-0.5"
+              style={{ transform: `scale(${1 / zoom})`, transformOrigin: 'top left' }}
+            >
+              {!updateSnippetId && (
+                <button
+                  className="w-6 h-6 bg-green-500 text-white rounded flex items-center justify-center hover:bg-green-600"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    acceptProposals([proposal]);
+                  }}
+                  title="この候補を切り出し"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                className="w-6 h-6 bg-gray-500 text-white rounded flex items-center justify-center hover:bg-gray-600"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  discardProposal(proposal.id);
+                }}
+                title="この候補を破棄"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
         {/* 選択範囲表示 */}
         {selection && (
           <>
             {/* 選択枠 */}
+            {/* 形があるときは外接矩形を破線で表示 */}
             <div
-              className="absolute border-2 border-blue-500 bg-blue-200 bg-opacity-30"
+              className={`absolute border-2 border-blue-500 ${
+                hasCropShape(cropShape) ? 'border-dashed' : 'bg-blue-200 bg-opacity-30'
+              }`}
               style={{
                 left: selection.x,
                 top: selection.y,
                 width: selection.width,
                 height: selection.height,
-                pointerEvents: dragMode === 'none' ? 'auto' : 'none',
+                pointerEvents: dragMode === 'none' && shapeTool === 'rect' ? 'auto' : 'none',
               }}
             >
               {/* サイズ表示 */}
@@ -658,7 +1016,7 @@ export function CropTool({
             </div>
 
             {/* リサイズハンドル（8つ） */}
-            {dragMode === 'none' && (
+            {dragMode === 'none' && shapeTool === 'rect' && (
               <>
                 {/* 4隅 */}
                 <div className="absolute w-3 h-3 bg-white border-2 border-blue-500 cursor-nwse-resize" style={{ left: selection.x - 6, top: selection.y - 6 }} />
@@ -674,6 +1032,113 @@ export function CropTool({
             )}
           </>
         )}
+
+        {/* 切り出し範囲の形（複数矩形・多角形）と描画中の頂点・矩形 */}
+        {(cropShape || polygonDraft.length > 0 || shapeDraft) && (
+          <svg className="absolute top-0 left-0 pointer-events-none" width={imageSize.width} height={imageSize.height}>
+            {cropShape?.polygon && (
+              <polygon
+                points={toSvgPoints(cropShape.polygon)}
+                fill="rgba(59, 130, 246, 0.3)"
+                stroke="#3b82f6"
+                strokeWidth={2}
+              />
+            )}
+            {cropShape?.rects?.map((r, index) => (
+              <rect
+                key={index}
+                x={r.x}
+                y={r.y}
+                width={r.width}
+                height={r.height}
+                fill="rgba(59, 130, 246, 0.3)"
+                stroke="#3b82f6"
+                strokeWidth={2}
+              />
+            ))}
+            {polygonDraft.length > 0 && (
+              <>
+                <polyline
+                  points={toSvgPoints(polygonDraft)}
+                  fill="none"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                />
+                {/* 始点は大きく表示（クリックで閉じる） */}
+                {polygonDraft.map((p, index) => (
+                  <circle
+                    key={index}
+                    cx={p.x}
+                    cy={p.y}
+                    r={(index === 0 ? 6 : 3) / zoom}
+                    fill={index === 0 ? '#ffffff' : '#3b82f6'}
+                    stroke="#3b82f6"
+                    strokeWidth={2 / zoom}
+                  />
+                ))}
+              </>
+            )}
+            {shapeDraft && (
+              <rect
+                x={shapeDraft.area.x}
+                y={shapeDraft.area.y}
+                width={shapeDraft.area.width}
+                height={shapeDraft.area.height}
+                fill="none"
+                stroke={shapeTool === 'mask' ? '#ef4444' : '#3b82f6'}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+              />
+            )}
+          </svg>
+        )}
+
+        {/* 複数矩形の削除ボタン */}
+        {shapeTool === 'rects' &&
+          dragMode === 'none' &&
+          !shapeDraft &&
+          cropShape?.rects?.map((r, index) => (
+            <div
+              key={index}
+              className="absolute pointer-events-none"
+              style={{ left: r.x, top: r.y, width: r.width, height: r.height }}
+            >
+              <button
+                className="absolute top-0 right-0 w-6 h-6 bg-gray-500 text-white rounded flex items-center justify-center hover:bg-gray-600 pointer-events-auto"
+                style={{ transform: `scale(${1 / zoom})`, transformOrigin: 'top right' }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => {
+                  const rects = cropShape.rects?.filter((_, i) => i !== index) ?? [];
+                  updateShape(rects.length > 0 ? { rects } : null);
+                }}
+                title="この矩形を削除"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+        {/* マスク（切り出すときに白く塗る） */}
+        {masks.map((mask, index) => (
+          <div
+            key={index}
+            className="absolute bg-white bg-opacity-70 border-2 border-dashed border-red-500 pointer-events-none"
+            style={{ left: mask.x, top: mask.y, width: mask.width, height: mask.height }}
+          >
+            {dragMode === 'none' && !shapeDraft && (
+              <button
+                className="absolute top-0 right-0 w-6 h-6 bg-red-500 text-white rounded flex items-center justify-center hover:bg-red-600 pointer-events-auto"
+                style={{ transform: `scale(${1 / zoom})`, transformOrigin: 'top right' }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => setMasks(masks.filter((_, i) => i !== index))}
+                title="このマスクを削除"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
       </div>
     </div>
   );
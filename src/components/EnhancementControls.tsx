@@ -0,0 +1,119 @@
+// =============================================================================
+// 画像補正の設定項目
+// 補正プリセット・スニペットごとの補正で共通に使う
+// =============================================================================
+
+import type { ImageEnhancement, BinarizationMethod } from '../types';
+import { ColorDropoutControls } from './ColorDropoutControls';
+import { MIN_BINARIZATION_WINDOW, MAX_BINARIZATION_WINDOW, MAX_DESPECKLE_SIZE } from '../utils/imageFilters';
+
+interface EnhancementControlsProps {
+  value: ImageEnhancement;
+  onChange: (changes: Partial<ImageEnhancement>) => void;
+}
+
+// スライダーで調整する項目
+const SLIDERS: Array<{ key: 'contrast' | 'brightness' | 'textDarkness'; label: string; min: number; max: number; step: number }> = [
+  { key: 'contrast', label: 'コントラスト', min: 0.5, max: 2.0, step: 0.05 },
+  { key: 'brightness', label: '明るさ', min: 0.5, max: 1.5, step: 0.05 },
+  { key: 'textDarkness', label: '文字濃さ', min: 0.3, max: 1.5, step: 0.1 },
+];
+
+// オン・オフを切り替える項目
+const TOGGLES: Array<{
+  key: 'autoLevels' | 'unsharpMask' | 'grayscale' | 'deskew' | 'sharpness' | 'despeckle' | 'removeEdgeShadow';
+  label: string;
+}> = [
+  { key: 'autoLevels', label: '自動レベル' },
+  { key: 'unsharpMask', label: '鮮明化' },
+  { key: 'grayscale', label: 'グレースケール' },
+  { key: 'deskew', label: '傾き補正' },
+  { key: 'sharpness', label: 'シャープ化' },
+  { key: 'despeckle', label: 'ノイズ除去' },
+  { key: 'removeEdgeShadow', label: '端の影を除去' },
+];
+
+export function EnhancementControls({ value, onChange }: EnhancementControlsProps) {
+  return (
+    <div className="space-y-3">
+      {/* スライダー */}
+      {SLIDERS.map(({ key, label, min, max, step }) => (
+        <div key={key} className="flex items-center gap-2">
+          <span className="text-sm w-24">{label}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value[key]}
+            onChange={(e) => onChange({ [key]: parseFloat(e.target.value) })}
+            className="flex-1"
+          />
+          <span className={`text-sm w-10 ${value[key] !== 1.0 ? 'font-bold text-purple-600' : ''}`}>
+            {value[key].toFixed(2)}
+          </span>
+        </div>
+      ))}
+
+      {/* トグルボタン */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {TOGGLES.map(({ key, label }) => (
+          <button
+            key={key}
+            className={`px-3 py-1 text-sm rounded ${value[key] ? 'bg-yellow-500 text-white' : 'bg-gray-200'}`}
+            onClick={() => onChange({ [key]: !value[key] })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* 適応的二値化 */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm w-24">白黒化</span>
+        <select
+          className="border rounded px-1 py-0.5 text-sm"
+          value={value.binarization}
+          onChange={(e) => onChange({ binarization: e.target.value as BinarizationMethod })}
+        >
+          <option value="none">なし</option>
+          <option value="sauvola">Sauvola（推奨）</option>
+          <option value="niblack">Niblack</option>
+        </select>
+        <input
+          type="range"
+          min={MIN_BINARIZATION_WINDOW}
+          max={MAX_BINARIZATION_WINDOW}
+          step={2}
+          value={value.binarizationWindow}
+          disabled={value.binarization === 'none'}
+          onChange={(e) => onChange({ binarizationWindow: parseInt(e.target.value, 10) })}
+          className="flex-1"
+        />
+        <span className="text-sm w-12">{value.binarizationWindow}px</span>
+      </div>
+
+      {/* ノイズとみなす点の大きさ */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm w-24">ノイズの大きさ</span>
+        <input
+          type="range"
+          min={1}
+          max={MAX_DESPECKLE_SIZE}
+          step={1}
+          value={value.despeckleSize}
+          disabled={!value.despeckle}
+          onChange={(e) => onChange({ despeckleSize: parseInt(e.target.value, 10) })}
+          className="flex-1"
+        />
+        <span className="text-sm w-12">{value.despeckleSize}px</span>
+      </div>
+
+      {/* 色消し */}
+      <ColorDropoutControls
+        value={value.colorDropout}
+        onChange={(colorDropout) => onChange({ colorDropout })}
+      />
+    </div>
+  );
+}
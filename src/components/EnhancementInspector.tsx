@@ -0,0 +1,227 @@
+// =============================================================================
+// 補正の確認（輝度ヒストグラム・補正前後の分割表示・等倍ルーペ）
+// 文字濃さ・鮮明化で「、」やルビなどの細い線が潰れていないかを確かめる
+// =============================================================================
+
+import { useState, useEffect, useRef } from 'react';
+import { createImageFromDataURL } from '../utils/helpers';
+import { computeLuminanceHistogram, findBlackWhitePoints } from '../utils/imageFilters';
+
+interface EnhancementInspectorProps {
+  original: string; // 補正前の画像URL
+  enhanced: string; // 補正後の画像URL
+}
+
+interface ImageStats {
+  width: number;
+  height: number;
+  histogram: Uint32Array;
+  points: { black: number; white: number };
+}
+
+// ルーペの表示サイズ（CSSピクセル）
+const LOUPE_SIZE = 192;
+// ルーペの倍率
+const LOUPE_ZOOMS = [1, 2, 4];
+// ヒストグラムの描画サイズ
+const HISTOGRAM_HEIGHT = 80;
+const BEFORE_COLOR = 'rgba(107, 114, 128, 0.6)';
+const AFTER_COLOR = 'rgba(249, 115, 22, 0.6)';
+
+/**
+ * 画像の大きさと輝度ヒストグラムを求める
+ */
+async function readImageStats(url: string): Promise<ImageStats> {
+  const img = await createImageFromDataURL(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context の取得に失敗しました');
+  ctx.drawImage(img, 0, 0);
+  const histogram = computeLuminanceHistogram(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  return { width: canvas.width, height: canvas.height, histogram, points: findBlackWhitePoints(histogram) };
+}
+
+/**
+ * ヒストグラムを描画（件数の差が大きいため平方根で縮める）
+ */
+function drawHistogram(canvas: HTMLCanvasElement, before: ImageStats, after: ImageStats): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+
+  const max = Math.sqrt(Math.max(...before.histogram, ...after.histogram, 1));
+  const drawBars = (histogram: Uint32Array, color: string) => {
+    ctx.fillStyle = color;
+    histogram.forEach((count, level) => {
+      const barHeight = (Math.sqrt(count) / max) * height;
+      ctx.fillRect(level, height - barHeight, 1, barHeight);
+    });
+  };
+  drawBars(before.histogram, BEFORE_COLOR);
+  drawBars(after.histogram, AFTER_COLOR);
+
+  // 黒点・白点（破線が補正前、実線が補正後）
+  const drawPoint = (level: number, color: string, dashed: boolean) => {
+    ctx.strokeStyle = color;
+    ctx.setLineDash(dashed ? [3, 3] : []);
+    ctx.beginPath();
+    ctx.moveTo(level + 0.5, 0);
+    ctx.lineTo(level + 0.5, height);
+    ctx.stroke();
+  };
+  drawPoint(before.points.black, '#4b5563', true);
+  drawPoint(before.points.white, '#4b5563', true);
+  drawPoint(after.points.black, '#ea580c', false);
+  drawPoint(after.points.white, '#ea580c', false);
+}
+
+export function EnhancementInspector({ original, enhanced }: EnhancementInspectorProps) {
+  const histogramRef = useRef<HTMLCanvasElement>(null);
+  const [stats, setStats] = useState<{ before: ImageStats; after: ImageStats } | null>(null);
+  const [split, setSplit] = useState(50); // 補正後を表示する境目（左端からの%）
+  const [loupe, setLoupe] = useState<{ x: number; y: number } | null>(null); // ルーペの中心（画像のピクセル座標）
+  const [zoom, setZoom] = useState(1);
+
+  // 画像が変わったらヒストグラムを求め直す
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([readImageStats(original), readImageStats(enhanced)])
+      .then(([before, after]) => {
+        if (!cancelled) setStats({ before, after });
+      })
+      .catch((error) => console.error('ヒストグラムの計算に失敗しました:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [original, enhanced]);
+
+  useEffect(() => {
+    if (stats && histogramRef.current) drawHistogram(histogramRef.current, stats.before, stats.after);
+  }, [stats]);
+
+  // マウス位置を画像のピクセル座標に変換
+  const toImagePoint = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { fx: (e.clientX - rect.left) / rect.width, fy: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!stats) return;
+    const { fx, fy } = toImagePoint(e);
+    setLoupe({ x: fx * stats.before.width, y: fy * stats.before.height });
+  };
+
+  // 画面のピクセル1つに画像のピクセル1つを表示する（高解像度ディスプレイでも等倍になるよう補正）
+  const scale = zoom / (window.devicePixelRatio || 1);
+  const loupeStyle = (url: string): React.CSSProperties =>
+    stats && loupe
+      ? {
+          width: LOUPE_SIZE,
+          height: LOUPE_SIZE,
+          backgroundImage: `url("${url}")`,
+          backgroundRepeat: 'no-repeat',
+          backgroundSize: `${stats.before.width * scale}px ${stats.before.height * scale}px`,
+          backgroundPosition: `${LOUPE_SIZE / 2 - loupe.x * scale}px ${LOUPE_SIZE / 2 - loupe.y * scale}px`,
+          imageRendering: 'pixelated',
+        }
+      : { width: LOUPE_SIZE, height: LOUPE_SIZE };
+
+  return (
+    <div className="space-y-3">
+      {/* 輝度ヒストグラム */}
+      <div>
+        <div className="flex items-center gap-3 text-xs text-gray-600 mb-1">
+          <span>輝度ヒストグラム</span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3" style={{ backgroundColor: BEFORE_COLOR }} />
+            補正前
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3" style={{ backgroundColor: AFTER_COLOR }} />
+            補正後
+          </span>
+          {stats && (
+            <span className="ml-auto">
+              黒点 {stats.before.points.black} → <b>{stats.after.points.black}</b> ／ 白点 {stats.before.points.white} →{' '}
+              <b>{stats.after.points.white}</b>
+            </span>
+          )}
+        </div>
+        <canvas
+          ref={histogramRef}
+          width={256}
+          height={HISTOGRAM_HEIGHT}
+          className="w-full border rounded bg-white"
+          style={{ height: HISTOGRAM_HEIGHT }}
+        />
+      </div>
+
+      <div className="flex gap-4">
+        {/* 補正前後の分割表示（左が補正前、右が補正後） */}
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>◀ 補正前</span>
+            <span>補正後 ▶</span>
+          </div>
+          <div className="border rounded p-1 bg-gray-50">
+            <div
+              className="relative w-fit mx-auto cursor-crosshair select-none"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setLoupe(null)}
+              onClick={(e) => setSplit(Math.round(toImagePoint(e).fx * 100))}
+            >
+              <img src={original} alt="補正前" className="block max-w-full max-h-[50vh]" draggable={false} />
+              <img
+                src={enhanced}
+                alt="補正後"
+                className="absolute inset-0 w-full h-full"
+                style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+                draggable={false}
+              />
+              <div className="absolute top-0 bottom-0 w-0.5 bg-orange-500" style={{ left: `${split}%` }} />
+            </div>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(e) => setSplit(parseInt(e.target.value, 10))}
+            className="w-full mt-1"
+            title="補正前と補正後の境目"
+          />
+        </div>
+
+        {/* 等倍ルーペ */}
+        <div className="flex-shrink-0 space-y-2">
+          <div className="flex items-center gap-1 text-sm">
+            <span className="text-gray-600">ルーペ</span>
+            {LOUPE_ZOOMS.map((z) => (
+              <button
+                key={z}
+                className={`px-2 py-0.5 text-xs rounded ${zoom === z ? 'bg-orange-500 text-white' : 'bg-gray-200'}`}
+                onClick={() => setZoom(z)}
+              >
+                {z === 1 ? '等倍' : `${z}倍`}
+              </button>
+            ))}
+          </div>
+          {[
+            { url: original, label: '補正前', border: 'border' },
+            { url: enhanced, label: '補正後', border: 'border-2 border-orange-400' },
+          ].map(({ url, label, border }) => (
+            <div key={label}>
+              <div className="text-xs text-gray-600">{label}</div>
+              <div className={`${border} rounded bg-white flex items-center justify-center`} style={loupeStyle(url)}>
+                {!loupe && <span className="text-xs text-gray-400 px-2 text-center">画像の上にマウスを置くと拡大します</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
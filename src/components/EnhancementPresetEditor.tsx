@@ -0,0 +1,108 @@
+// =============================================================================
+// 補正プリセットの編集
+// 取り込み時にページ画像へ適用する補正を名前を付けて保存する（薄いコピー・デジタルPDFなど）
+// =============================================================================
+
+import { useState } from 'react';
+import { Plus, Copy, Trash2 } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import type { ImageEnhancement } from '../types';
+import { generateId } from '../utils/helpers';
+import { EnhancementControls } from './EnhancementControls';
+import { NO_ENHANCEMENT } from '../utils/imageFilters';
+
+interface EnhancementPresetEditorProps {
+  onClose: () => void;
+}
+
+export function EnhancementPresetEditor({ onClose }: EnhancementPresetEditorProps) {
+  const { settings, saveEnhancementPreset, removeEnhancementPreset } = useAppStore();
+  const presets = settings.enhancementPresets;
+  const [selectedId, setSelectedId] = useState(settings.importPresetId);
+  const preset = presets.find((p) => p.id === selectedId) ?? presets[0];
+
+  const updateEnhancement = (changes: Partial<ImageEnhancement>) => {
+    saveEnhancementPreset({ ...preset, enhancement: { ...preset.enhancement, ...changes } });
+  };
+
+  const handleAdd = (enhancement: ImageEnhancement, name: string) => {
+    const id = generateId();
+    saveEnhancementPreset({ id, name, enhancement: { ...enhancement } });
+    setSelectedId(id);
+  };
+
+  const handleRemove = () => {
+    if (presets.length <= 1) return;
+    if (!confirm(`プリセット「${preset.name}」を削除しますか？`)) return;
+    removeEnhancementPreset(preset.id);
+    setSelectedId(presets.find((p) => p.id !== preset.id)?.id ?? '');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-2xl w-[32rem] max-h-[90vh] overflow-auto p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-lg font-bold">補正プリセット</h2>
+          <button className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+
+        {/* プリセットの選択・追加・複製・削除 */}
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            className="flex-1 border rounded px-2 py-1 text-sm"
+            value={preset.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+          >
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className="p-1 hover:bg-gray-100 rounded"
+            onClick={() => handleAdd(NO_ENHANCEMENT, '新しいプリセット')}
+            title="追加"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            className="p-1 hover:bg-gray-100 rounded"
+            onClick={() => handleAdd(preset.enhancement, `${preset.name}のコピー`)}
+            title="複製"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          <button
+            className="p-1 hover:bg-red-100 rounded disabled:opacity-30"
+            onClick={handleRemove}
+            disabled={presets.length <= 1}
+            title="削除"
+          >
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </button>
+        </div>
+
+        <div className="p-3 bg-gray-50 rounded border space-y-3">
+          <label className="flex items-center gap-2">
+            <span className="text-sm w-24">名前</span>
+            <input
+              type="text"
+              className="flex-1 border rounded px-2 py-1 text-sm"
+              value={preset.name}
+              onChange={(e) => saveEnhancementPreset({ ...preset, name: e.target.value })}
+            />
+          </label>
+
+          <EnhancementControls value={preset.enhancement} onChange={updateEnhancement} />
+        </div>
+
+        <p className="text-xs text-gray-500 mt-3">
+          変更は次に取り込むファイルから適用されます。取り込み済みのファイルは、ファイル一覧の「再適用」で描画し直せます。
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -19,8 +19,10 @@ import {
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
 import { PageThumbnails } from './PageThumbnails';
+import { StoredImage, useRenderedPage } from './StoredImage';
 import { createVerticalLayout, layoutToHTML } from '../utils/ocrUtils';
-import type { ExportFormat } from '../types';
+import { MIN_BINARIZATION_WINDOW, MAX_BINARIZATION_WINDOW } from '../utils/imageFilters';
+import type { ExportFormat, BinarizationMethod } from '../types';
 
 export function ExtractView() {
   const {
@@ -46,6 +48,7 @@ export function ExtractView() {
 
   const activeFile = files.find((f) => f.id === activeFileId);
   const activePage = activeFile?.pages.find((p) => p.pageNumber === activePageNumber);
+  useRenderedPage(activeFile?.id, activePageNumber);
 
   // OCRブロックからレイアウトHTMLを生成
   const layoutHTML = useMemo(() => {
@@ -153,6 +156,38 @@ export function ExtractView() {
             : 'OCR実行（全ページ）'}
         </button>
 
+        {/* OCR前の白黒化（照明ムラのあるスキャン向け、ページ画像は変えない） */}
+        <label className="flex items-center gap-1 text-sm" title="照明ムラのあるスキャンを白黒にしてから読み取る">
+          前処理:
+          <select
+            className="border rounded px-1 py-0.5 text-sm"
+            value={settings.ocrBinarization}
+            onChange={(e) => updateSettings({ ocrBinarization: e.target.value as BinarizationMethod })}
+          >
+            <option value="none">なし</option>
+            <option value="sauvola">白黒化（Sauvola）</option>
+            <option value="niblack">白黒化（Niblack）</option>
+          </select>
+        </label>
+        {settings.ocrBinarization !== 'none' && (
+          <label className="flex items-center gap-1 text-sm">
+            範囲
+            <input
+              type="number"
+              className="w-16 border rounded px-1 py-0.5 text-sm"
+              min={MIN_BINARIZATION_WINDOW}
+              max={MAX_BINARIZATION_WINDOW}
+              step={2}
+              value={settings.ocrBinarizationWindow}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (Number.isFinite(value)) updateSettings({ ocrBinarizationWindow: value });
+              }}
+            />
+            px
+          </label>
+        )}
+
         <div className="w-px h-6 bg-gray-200" />
 
         {/* P2-001: ルビ括弧表記オプション */}
@@ -256,15 +291,12 @@ export function ExtractView() {
               </div>
             </div>
             <div className="editor-panel-content bg-gray-100 flex items-center justify-center">
-              {activePage?.imageData ? (
-                <img
-                  src={activePage.imageData}
-                  alt={`Page ${activePageNumber}`}
-                  className="max-w-full max-h-full object-contain"
-                />
-              ) : (
-                <p className="text-gray-400">画像を読み込み中...</p>
-              )}
+              <StoredImage
+                imageId={activePage?.imageId}
+                alt={`Page ${activePageNumber}`}
+                className="max-w-full max-h-full object-contain"
+                fallback={<p className="text-gray-400">画像を読み込み中...</p>}
+              />
             </div>
           </div>
 
@@ -2,11 +2,108 @@
 // ヘッダーコンポーネント
 // =============================================================================
 
-import { FileText, Layout, Settings } from 'lucide-react';
+import { useRef, useState } from 'react';
+import {
+  FileText,
+  Layout,
+  Settings,
+  Save,
+  FolderOpen,
+  ChevronDown,
+  Plus,
+  Pencil,
+  Copy,
+  Trash2,
+  Check,
+} from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { PROJECT_FILE_EXTENSION } from '../utils/projectUtils';
 
 export function Header() {
-  const { activeTab, setActiveTab } = useAppStore();
+  const {
+    activeTab,
+    setActiveTab,
+    exportProject,
+    importProject,
+    projects,
+    activeProjectId,
+    loadProjects,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    switchProject,
+  } = useAppStore();
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [showProjectMenu, setShowProjectMenu] = useState(false);
+
+  const activeProject = projects.find((p) => p.id === activeProjectId);
+
+  // プロジェクト一覧を開く（最終更新日時を最新にするため再取得）
+  const handleToggleProjectMenu = () => {
+    if (!showProjectMenu) loadProjects();
+    setShowProjectMenu(!showProjectMenu);
+  };
+
+  // プロジェクト操作の共通エラー処理
+  const runProjectAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('プロジェクト操作エラー:', error);
+      alert(error instanceof Error ? error.message : 'プロジェクトの操作に失敗しました');
+    }
+  };
+
+  const handleCreateProject = () => {
+    const name = prompt('新しいプロジェクト名', '新しいプロジェクト');
+    if (name === null) return;
+    setShowProjectMenu(false);
+    runProjectAction(() => createProject(name));
+  };
+
+  const handleSwitchProject = (projectId: string) => {
+    setShowProjectMenu(false);
+    runProjectAction(() => switchProject(projectId));
+  };
+
+  const handleRenameProject = (projectId: string, currentName: string) => {
+    const name = prompt('プロジェクト名', currentName);
+    if (name === null) return;
+    runProjectAction(() => renameProject(projectId, name));
+  };
+
+  const handleDeleteProject = (projectId: string, name: string) => {
+    if (!confirm(`プロジェクト「${name}」を削除しますか？この操作は元に戻せません。`)) return;
+    runProjectAction(() => deleteProject(projectId));
+  };
+
+  // プロジェクト保存
+  const handleSaveProject = async () => {
+    try {
+      await exportProject();
+    } catch (error) {
+      console.error('プロジェクト保存エラー:', error);
+      alert('プロジェクトの保存に失敗しました');
+    }
+  };
+
+  // プロジェクトを開く
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!confirm('現在の作業内容をプロジェクトの内容で置き換えますか？')) return;
+    try {
+      const skippedSnippetCount = await importProject(file);
+      if (skippedSnippetCount > 0) {
+        alert(`画像が見つからないスニペット${skippedSnippetCount}個は読み込めませんでした`);
+      }
+    } catch (error) {
+      console.error('プロジェクト読み込みエラー:', error);
+      alert(error instanceof Error ? error.message : 'プロジェクトを開けませんでした');
+    }
+  };
 
   return (
     <header className="bg-white border-b shadow-sm">
@@ -15,6 +112,73 @@ export function Header() {
         <div className="flex items-center gap-2">
           <FileText className="w-6 h-6 text-blue-600" />
           <h1 className="text-lg font-bold text-gray-800">国語PDF編集ツール</h1>
+
+          {/* プロジェクト切り替え */}
+          <div className="relative ml-4">
+            <button
+              className="flex items-center gap-1 px-2 py-1 text-sm border rounded hover:bg-gray-100 max-w-[240px]"
+              onClick={handleToggleProjectMenu}
+              title="プロジェクトを切り替え"
+            >
+              <span className="truncate">{activeProject?.name ?? 'プロジェクト'}</span>
+              <ChevronDown className="w-4 h-4 flex-shrink-0" />
+            </button>
+            {showProjectMenu && (
+              <div className="absolute top-full left-0 mt-1 bg-white border rounded shadow-lg z-30 min-w-[320px]">
+                <div className="max-h-80 overflow-y-auto">
+                  {projects.map((p) => (
+                    <div
+                      key={p.id}
+                      className={`flex items-center gap-1 px-3 py-2 border-b hover:bg-gray-50 ${
+                        p.id === activeProjectId ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <button
+                        className="flex-1 min-w-0 text-left"
+                        onClick={() => handleSwitchProject(p.id)}
+                      >
+                        <div className="flex items-center gap-1 text-sm">
+                          {p.id === activeProjectId && <Check className="w-3 h-3 text-blue-600 flex-shrink-0" />}
+                          <span className="truncate">{p.name}</span>
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          最終更新: {p.updatedAt.toLocaleString('ja-JP')}
+                        </div>
+                      </button>
+                      <button
+                        className="p-1 rounded hover:bg-gray-200"
+                        onClick={() => handleRenameProject(p.id, p.name)}
+                        title="名前を変更"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        className="p-1 rounded hover:bg-gray-200"
+                        onClick={() => runProjectAction(() => duplicateProject(p.id))}
+                        title="複製"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </button>
+                      <button
+                        className="p-1 rounded hover:bg-red-100 text-red-600"
+                        onClick={() => handleDeleteProject(p.id, p.name)}
+                        title="削除"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  className="w-full flex items-center gap-1 px-3 py-2 text-sm text-blue-600 hover:bg-gray-100"
+                  onClick={handleCreateProject}
+                >
+                  <Plus className="w-4 h-4" />
+                  新しいプロジェクト
+                </button>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* タブ */}
@@ -39,10 +203,31 @@ export function Header() {
           </button>
         </nav>
 
-        {/* 設定ボタン */}
-        <button className="toolbar-button" title="設定">
-          <Settings className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-1">
+          {/* プロジェクト保存・読み込み */}
+          <button className="toolbar-button" onClick={handleSaveProject} title="プロジェクトを保存">
+            <Save className="w-5 h-5" />
+          </button>
+          <button
+            className="toolbar-button"
+            onClick={() => projectInputRef.current?.click()}
+            title="プロジェクトを開く"
+          >
+            <FolderOpen className="w-5 h-5" />
+          </button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleOpenProject}
+          />
+
+          {/* 設定ボタン */}
+          <button className="toolbar-button" title="設定">
+            <Settings className="w-5 h-5" />
+          </button>
+        </div>
       </div>
     </header>
   );
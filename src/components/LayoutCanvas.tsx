@@ -2,11 +2,14 @@
 // レイアウトキャンバスコンポーネント
 // P3-002: 再配置エディタ
 // P3-005: グリッド/ガイド表示
+// 選択中のスニペットの個別補正（表示にも反映）
 // =============================================================================
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Crop } from 'lucide-react';
+import { Crop, SlidersHorizontal } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { StoredImage } from './StoredImage';
+import { SnippetEnhancementEditor } from './SnippetEnhancementEditor';
 import { mmToPx, pxToMm } from '../utils/helpers';
 import type { LayoutPage, Snippet, Position } from '../types';
 import { getPaperDimensions } from '../types';
@@ -61,6 +64,7 @@ export function LayoutCanvas({
     startPosition: Position;
   } | null>(null);
   const [justDropped, setJustDropped] = useState(false); // ドロップ直後フラグ
+  const [enhancingSnippetId, setEnhancingSnippetId] = useState<string | null>(null); // 補正を設定中のスニペット
 
   // テキスト要素用の状態
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
@@ -658,8 +662,10 @@ export function LayoutCanvas({
               setReCropSnippet(placed.snippetId);
             }}
           >
-            <img
-              src={snippet.imageData}
+            {/* スニペットごとの補正は表示にも反映する */}
+            <StoredImage
+              imageId={snippet.imageId}
+              enhancement={snippet.enhancement}
               alt="Snippet"
               className="w-full h-full object-contain"
               draggable={false}
@@ -690,6 +696,21 @@ export function LayoutCanvas({
                 >
                   <Crop className="w-3 h-3" />
                 </button>
+                {/* 補正ボタン */}
+                <button
+                  className={`absolute w-6 h-6 text-white rounded-full flex items-center justify-center ${
+                    snippet.enhancement ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-gray-500 hover:bg-gray-600'
+                  }`}
+                  style={{ right: -12, top: 16, zIndex: 30 }}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEnhancingSnippetId(placed.snippetId);
+                  }}
+                  title="このスニペットの補正"
+                >
+                  <SlidersHorizontal className="w-3 h-3" />
+                </button>
                 {/* 削除ボタン */}
                 <button
                   className="absolute w-6 h-6 bg-red-500 text-white rounded-full text-sm font-bold hover:bg-red-600 flex items-center justify-center"
@@ -1022,6 +1043,13 @@ export function LayoutCanvas({
           </div>
         </div>
       )}
+
+      {/* スニペットの補正（キャンバスの選択・ドラッグに反応しないよう操作を止める） */}
+      {enhancingSnippetId && (
+        <div onClick={(e) => e.stopPropagation()} onMouseDown={(e) => e.stopPropagation()}>
+          <SnippetEnhancementEditor snippetId={enhancingSnippetId} onClose={() => setEnhancingSnippetId(null)} />
+        </div>
+      )}
     </div>
   );
 }
@@ -5,9 +5,10 @@
 // P3-004: 用紙サイズ選択
 // P3-005: グリッド/ガイド表示
 // P3-006: 印刷用PDF出力
+// 位置付きテンプレート・複数範囲のテンプレートをページ範囲・選択ページに一括適用
 // =============================================================================
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   Plus,
   Download,
@@ -31,22 +32,43 @@ import {
   ChevronUp,
   ChevronDown,
   Printer,
+  Eraser,
+  LayoutTemplate,
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
 import { SnippetList } from './SnippetList';
 import { LayoutCanvas } from './LayoutCanvas';
 import { CropTool } from './CropTool';
 import { PageThumbnails } from './PageThumbnails';
-import { PAPER_SIZES, type PaperOrientation, type PaperSize, type CropArea, getPaperDimensions } from '../types';
-import { mmToPx } from '../utils/helpers';
+import { useRenderedPage } from './StoredImage';
+import { ColorDropoutControls } from './ColorDropoutControls';
+import { EnhancementInspector } from './EnhancementInspector';
+import { EnhancementControls } from './EnhancementControls';
+import { TemplateSetEditor } from './TemplateSetEditor';
+import {
+  PAPER_SIZES,
+  type PaperOrientation,
+  type PaperSize,
+  type CropArea,
+  type ColorDropout,
+  getPaperDimensions,
+} from '../types';
+import { mmToPx, blobToDataURL } from '../utils/helpers';
 import {
   type TemplateScope,
   type CropTemplate,
   getLatestTemplateAny,
   getTemplates,
+  applyTemplate,
+  type TemplateSet,
 } from '../utils/cropTemplateUtils';
 import { exportLayoutToPDF, printLayoutDirectly, type PdfQuality } from '../utils/exportUtils';
-import { applyImageEnhancement } from '../utils/pdfUtils';
+import { processImage } from '../utils/imageProcessing';
+import { DEFAULT_COLOR_DROPOUT, NO_ENHANCEMENT, hasColorDropout } from '../utils/imageFilters';
+import { loadImageElement, loadImageData, readImageBlob, saveCanvasImage } from '../utils/imageStore';
+import { findContentBounds } from '../utils/regionDetection';
+import { mapCropShape, mapAreas, offsetAndScale } from '../utils/cropShapeUtils';
+import { retainPage, releasePage } from '../utils/pageCache';
 
 const REPACK_GRIDS: Record<string, { cols: number; rows: number; label: string }> = {
   '4x2': { cols: 4, rows: 2, label: '4×2' },
@@ -78,6 +100,13 @@ function getGridFillOrder(cols: number, rows: number, isVertical: boolean): numb
   return grid;
 }
 
+// テンプレートの表示名（位置付きなら位置も表示）
+function formatTemplate(template: CropTemplate): string {
+  const size = `${Math.round(template.width)} × ${Math.round(template.height)}`;
+  if (template.x === undefined || template.y === undefined) return size;
+  return `${size} @ (${Math.round(template.x)}, ${Math.round(template.y)})`;
+}
+
 // 配置順をミニグリッドで表示するコンポーネント
 function GridOrderPreview({ cols, rows, isVertical }: { cols: number; rows: number; isVertical: boolean }) {
   const grid = getGridFillOrder(cols, rows, isVertical);
@@ -136,6 +165,10 @@ export function LayoutView() {
     repackAllSnippets,
     repackAcrossPages,
     unifyAllPagesSnippetSize,
+    renderPage,
+    setPageDeskewAngle,
+    setPageColorDropout,
+    runTask,
   } = useAppStore();
 
   const [layoutZoom, setLayoutZoom] = useState(1);
@@ -166,6 +199,16 @@ export function LayoutView() {
   );
   const [templateScope, setTemplateScope] = useState<TemplateScope>('global');
   const [showTemplateHistory, setShowTemplateHistory] = useState(false);
+  const [showTemplateBatch, setShowTemplateBatch] = useState(false); // テンプレートの一括適用
+  const [showTemplateSets, setShowTemplateSets] = useState(false); // 複数範囲のテンプレート
+  const [templateBatch, setTemplateBatch] = useState<{
+    index: number; // テンプレート履歴の何番目か
+    target: 'selected' | 'range';
+    from: number;
+    to: number;
+  }>({ index: 0, target: 'selected', from: 1, to: 1 });
+  const [showPageDropout, setShowPageDropout] = useState(false); // ページごとの色消し
+  const [pageDropoutDraft, setPageDropoutDraft] = useState<ColorDropout>(DEFAULT_COLOR_DROPOUT);
   const [pendingTemplate, setPendingTemplate] = useState<CropTemplate | null>(null);
   const [isBatchProcessing, setIsBatchProcessing] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
@@ -180,6 +223,33 @@ export function LayoutView() {
   // 再トリミング時は元のページ画像を取得
   const reCropSourceFile = reCropSnippet ? files.find((f) => f.id === reCropSnippet.sourceFileId) : null;
   const reCropSourcePage = reCropSourceFile?.pages.find((p) => p.pageNumber === reCropSnippet?.sourcePageNumber);
+  // トリミング中のページ（再トリミング時は元のページ）
+  const cropFile = reCropSnippet ? reCropSourceFile : activeFile;
+  const cropPage = reCropSnippet ? reCropSourcePage : activePage;
+  // スニペットを切り出したページは、範囲がずれないよう傾き補正を変えられない
+  const isDeskewLocked =
+    !!cropFile && !!cropPage && snippets.some((s) => s.sourceFileId === cropFile.id && s.sourcePageNumber === cropPage.pageNumber);
+  // 切り出し時と現在のページ画像で解像度スケールが違う場合は選択範囲を合わせる
+  // 形・マスクは切り出し範囲の左上からの座標で保存しているため、ページ画像の座標に直す
+  const reCropInitial = useMemo(() => {
+    if (!reCropSnippet) return null;
+    const ratio =
+      reCropSnippet.renderScale && reCropSourcePage?.renderScale
+        ? reCropSourcePage.renderScale / reCropSnippet.renderScale
+        : 1;
+    const { x, y, width, height } = reCropSnippet.cropArea;
+    const toPage = offsetAndScale(x, y, ratio);
+    return {
+      cropArea: ratio === 1 ? reCropSnippet.cropArea : { x: x * ratio, y: y * ratio, width: width * ratio, height: height * ratio },
+      cropShape: reCropSnippet.cropShape ? mapCropShape(reCropSnippet.cropShape, toPage) : null,
+      masks: reCropSnippet.masks ? mapAreas(reCropSnippet.masks, toPage) : null,
+    };
+  }, [reCropSnippet, reCropSourcePage?.renderScale]);
+
+  // トリミング中のページを描画
+  useRenderedPage(mode === 'crop' ? activeFile?.id : undefined, activePageNumber);
+  useRenderedPage(reCropSnippet?.sourceFileId, reCropSnippet?.sourcePageNumber);
+
   const selectedPlacedSnippet = activeLayout?.snippets.find(
     (snippet) => snippet.snippetId === selectedSnippetId
   );
@@ -231,18 +301,22 @@ export function LayoutView() {
   // トリミング画像の読み込みとサイズ取得
   useEffect(() => {
     // 再トリミング時は元のページ画像を使用
-    const imageData = reCropSourcePage?.imageData || activePage?.imageData;
-    if (!imageData) {
+    const imageId = reCropSourcePage?.imageId || activePage?.imageId;
+    if (!imageId) {
       setCropImageSize(null);
       return;
     }
 
-    const img = new Image();
-    img.onload = () => {
-      setCropImageSize({ width: img.width, height: img.height });
+    let cancelled = false;
+    loadImageElement(imageId)
+      .then((img) => {
+        if (!cancelled) setCropImageSize({ width: img.width, height: img.height });
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
     };
-    img.src = imageData;
-  }, [activePage?.imageData, reCropSourcePage?.imageData]);
+  }, [activePage?.imageId, reCropSourcePage?.imageId]);
 
   // トリミング画像サイズ変更時に自動フィット
   useEffect(() => {
@@ -324,57 +398,88 @@ export function LayoutView() {
   const templateHistory = getTemplateHistory();
 
   // BATCH-002: 一括トリミング
-  const handleBatchCrop = useCallback(async (cropArea: CropArea) => {
-    if (!activeFile || selectedPageNumbers.length === 0) return;
+  // テンプレートをページごとに置いて切り出す（位置付きならどのページも同じ位置、サイズだけなら中央）
+  // 複数のテンプレートは、ページごとにその順でスニペットを作る
+  const cropPagesWithTemplates = useCallback(async (templates: CropTemplate[], pageNumbers: number[]) => {
+    if (!activeFile || pageNumbers.length === 0) return;
 
     setIsBatchProcessing(true);
 
     try {
-      for (const pageNumber of selectedPageNumbers) {
-        const page = activeFile.pages.find((p) => p.pageNumber === pageNumber);
-        if (!page?.imageData) continue;
-
-        // 画像を切り出し
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) continue;
-
-        const img = new Image();
-        await new Promise<void>((resolve, reject) => {
-          img.onload = () => resolve();
-          img.onerror = () => reject();
-          img.src = page.imageData!;
-        });
-
-        canvas.width = cropArea.width;
-        canvas.height = cropArea.height;
-
-        ctx.drawImage(
-          img,
-          cropArea.x,
-          cropArea.y,
-          cropArea.width,
-          cropArea.height,
-          0,
-          0,
-          cropArea.width,
-          cropArea.height
-        );
-
-        const croppedImageData = canvas.toDataURL('image/png');
-
-        addSnippet({
-          sourceFileId: activeFile.id,
-          sourcePageNumber: pageNumber,
-          cropArea,
-          imageData: croppedImageData,
-          cropZoom, // 修正: cropZoomプロパティを追加
-        });
+      for (const pageNumber of pageNumbers) {
+        // 未描画のページはここで描画する
+        retainPage(activeFile.id, pageNumber);
+        let imageId: string | undefined;
+        try {
+          imageId = await renderPage(activeFile.id, pageNumber);
+        } finally {
+          releasePage(activeFile.id, pageNumber);
+        }
+        if (!imageId) continue;
+        const renderScale = useAppStore
+          .getState()
+          .files.find((f) => f.id === activeFile.id)
+          ?.pages.find((p) => p.pageNumber === pageNumber)?.renderScale;
+
+        const img = await loadImageElement(imageId);
+        // 設定で有効なら、ページごとに余白を詰める
+        const pageData = settings.autoTrim ? await loadImageData(imageId) : null;
+        for (const template of templates) {
+          const placed = applyTemplate(template, img.naturalWidth, img.naturalHeight, renderScale);
+          const cropArea = {
+            x: Math.round(placed.x),
+            y: Math.round(placed.y),
+            width: Math.round(placed.width),
+            height: Math.round(placed.height),
+          };
+
+          const area = pageData ? findContentBounds(pageData, cropArea, settings.autoTrimPadding) : cropArea;
+
+          // 画像を切り出し
+          const canvas = document.createElement('canvas');
+          const ctx = canvas.getContext('2d');
+          if (!ctx) continue;
+
+          canvas.width = area.width;
+          canvas.height = area.height;
+
+          ctx.drawImage(
+            img,
+            area.x,
+            area.y,
+            area.width,
+            area.height,
+            0,
+            0,
+            area.width,
+            area.height
+          );
+
+          const croppedImageId = await saveCanvasImage(canvas);
+
+          addSnippet({
+            sourceFileId: activeFile.id,
+            sourcePageNumber: pageNumber,
+            cropArea: area,
+            imageId: croppedImageId,
+            cropZoom, // 修正: cropZoomプロパティを追加
+          });
+        }
       }
     } finally {
       setIsBatchProcessing(false);
     }
-  }, [activeFile, selectedPageNumbers, addSnippet, cropZoom]); // 修正: 依存配列にcropZoomを追加
+  }, [activeFile, addSnippet, cropZoom, renderPage, settings.autoTrim, settings.autoTrimPadding]); // 修正: 依存配列にcropZoomを追加
+
+  // 選択範囲を選択中のページに一括適用
+  const handleBatchCrop = useCallback(
+    (cropArea: CropArea) =>
+      cropPagesWithTemplates(
+        [{ ...cropArea, renderScale: activePage?.renderScale, createdAt: Date.now() }],
+        selectedPageNumbers
+      ),
+    [cropPagesWithTemplates, selectedPageNumbers, activePage?.renderScale]
+  );
 
   // 自動全詰め処理（トリミング後に実行）
   const handleAutoRepack = useCallback(() => {
@@ -382,6 +487,60 @@ export function LayoutView() {
     repackAllSnippets(activeLayoutPageId);
   }, [autoRepack, activeLayoutPageId, repackAllSnippets]);
 
+  // テンプレートの一括適用を開く（ページを選択していれば選択ページ、なければ全ページ）
+  const openTemplateBatch = () => {
+    setTemplateBatch({
+      index: 0,
+      target: selectedPageNumbers.length > 0 ? 'selected' : 'range',
+      from: 1,
+      to: activeFile?.pages.length ?? 1,
+    });
+    setShowTemplateHistory(false);
+    setShowTemplateBatch(!showTemplateBatch);
+  };
+
+  // 複数範囲のテンプレートを適用（1ページにつき範囲の数だけ、範囲の順にスニペットを作る）
+  const handleApplyTemplateSet = async (templateSet: TemplateSet, pageNumbers: number[]) => {
+    setShowTemplateSets(false);
+    try {
+      await cropPagesWithTemplates(
+        templateSet.regions.map((r) => ({
+          x: r.x,
+          y: r.y,
+          width: r.width,
+          height: r.height,
+          renderScale: templateSet.renderScale,
+          createdAt: templateSet.createdAt,
+        })),
+        pageNumbers
+      );
+      handleAutoRepack();
+    } catch (error) {
+      console.error('一括トリミングエラー:', error);
+      alert('一括トリミングに失敗しました');
+    }
+  };
+
+  // テンプレートをページ範囲・選択ページに一括適用（1ページにつき1スニペット）
+  const handleApplyTemplateToPages = async () => {
+    const template = templateHistory[templateBatch.index];
+    if (!template || !activeFile) return;
+    const pageNumbers =
+      templateBatch.target === 'selected'
+        ? selectedPageNumbers
+        : activeFile.pages
+            .map((p) => p.pageNumber)
+            .filter((n) => n >= templateBatch.from && n <= templateBatch.to);
+    setShowTemplateBatch(false);
+    try {
+      await cropPagesWithTemplates([template], pageNumbers);
+      handleAutoRepack();
+    } catch (error) {
+      console.error('一括トリミングエラー:', error);
+      alert('一括トリミングに失敗しました');
+    }
+  };
+
 
   // PDF出力
   const handleExportPDF = useCallback(async () => {
@@ -389,7 +548,10 @@ export function LayoutView() {
 
     setIsExporting(true);
     try {
-      const blob = await exportLayoutToPDF(layoutPages, snippets, pdfQuality, settings.imageEnhancement, settings);
+      const blob = await runTask('PDFを出力中...', (signal, onProgress) =>
+        exportLayoutToPDF(layoutPages, snippets, pdfQuality, settings.imageEnhancement, settings, { signal, onProgress })
+      );
+      if (!blob) return; // キャンセルされた
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -402,7 +564,7 @@ export function LayoutView() {
     } finally {
       setIsExporting(false);
     }
-  }, [layoutPages, snippets, pdfQuality, settings.imageEnhancement]);
+  }, [layoutPages, snippets, pdfQuality, settings.imageEnhancement, runTask]);
 
   // 直接印刷
   const handlePrint = useCallback(async () => {
@@ -410,14 +572,16 @@ export function LayoutView() {
 
     setIsPrinting(true);
     try {
-      await printLayoutDirectly(layoutPages, snippets, settings.imageEnhancement, settings);
+      await runTask('印刷を準備中...', (signal, onProgress) =>
+        printLayoutDirectly(layoutPages, snippets, settings.imageEnhancement, settings, { signal, onProgress })
+      );
     } catch (error) {
       console.error('印刷エラー:', error);
       alert('印刷の準備に失敗しました');
     } finally {
       setIsPrinting(false);
     }
-  }, [layoutPages, snippets, settings.imageEnhancement]);
+  }, [layoutPages, snippets, settings.imageEnhancement, runTask]);
 
   // 補正プレビュー生成
   const generateEnhancementPreview = useCallback(async () => {
@@ -425,29 +589,17 @@ export function LayoutView() {
 
     // 最初のスニペットをプレビュー対象に
     const firstSnippet = snippets[0];
-    const originalImage = firstSnippet.imageData;
-
-    // Canvasに画像を描画して補正を適用
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      ctx.drawImage(img, 0, 0);
-
-      // 補正を適用
-      const enhancedCanvas = applyImageEnhancement(canvas, settings.imageEnhancement);
-      const enhancedImage = enhancedCanvas.toDataURL('image/png');
-
-      setPreviewImage({
-        original: originalImage,
-        enhanced: enhancedImage,
-      });
-    };
-    img.src = originalImage;
+    const originalBlob = await readImageBlob(firstSnippet.imageId);
+    const originalImage = await blobToDataURL(originalBlob);
+
+    // 補正を適用
+    const enhanced = await processImage(originalBlob, settings.imageEnhancement);
+    const enhancedImage = await blobToDataURL(enhanced.blob);
+
+    setPreviewImage({
+      original: originalImage,
+      enhanced: enhancedImage,
+    });
   }, [snippets, settings.imageEnhancement]);
 
   // プレビュー表示時に画像生成
@@ -562,7 +714,7 @@ export function LayoutView() {
                         className="w-full text-left px-3 py-2 text-xs hover:bg-gray-100 border-b last:border-b-0"
                         onClick={() => handleApplyTemplate(t)}
                       >
-                        {Math.round(t.width)} × {Math.round(t.height)}
+                        {formatTemplate(t)}
                       </button>
                     ))}
                   </div>
@@ -573,7 +725,230 @@ export function LayoutView() {
                   </div>
                 )}
               </div>
+              {/* テンプレートを複数ページに一括適用 */}
+              <div className="relative">
+                <button
+                  className="flex items-center gap-1 px-2 py-1 text-xs border rounded hover:bg-gray-100 disabled:opacity-50"
+                  onClick={openTemplateBatch}
+                  disabled={!activeFile || isBatchProcessing}
+                  title="テンプレートをページ範囲・選択ページに一括適用"
+                >
+                  <Layers className="w-3 h-3" />
+                  一括
+                </button>
+                {showTemplateBatch && activeFile && (
+                  <div className="absolute top-full left-0 mt-1 bg-white border rounded shadow-lg z-20 p-2 text-xs space-y-2 min-w-[220px]">
+                    {templateHistory.length === 0 ? (
+                      <p className="text-gray-500">履歴なし</p>
+                    ) : (
+                      <>
+                        <select
+                          className="w-full border rounded px-1 py-0.5"
+                          value={templateBatch.index}
+                          onChange={(e) => setTemplateBatch({ ...templateBatch, index: parseInt(e.target.value, 10) })}
+                        >
+                          {templateHistory.map((t, i) => (
+                            <option key={i} value={i}>
+                              {formatTemplate(t)}
+                            </option>
+                          ))}
+                        </select>
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="radio"
+                            checked={templateBatch.target === 'selected'}
+                            disabled={selectedPageNumbers.length === 0}
+                            onChange={() => setTemplateBatch({ ...templateBatch, target: 'selected' })}
+                          />
+                          選択ページ ({selectedPageNumbers.length})
+                        </label>
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="radio"
+                            checked={templateBatch.target === 'range'}
+                            onChange={() => setTemplateBatch({ ...templateBatch, target: 'range' })}
+                          />
+                          ページ
+                          <input
+                            type="number"
+                            min={1}
+                            max={activeFile.pages.length}
+                            className="w-12 border rounded px-1"
+                            value={templateBatch.from}
+                            onChange={(e) =>
+                              setTemplateBatch({ ...templateBatch, target: 'range', from: parseInt(e.target.value, 10) || 1 })
+                            }
+                          />
+                          〜
+                          <input
+                            type="number"
+                            min={1}
+                            max={activeFile.pages.length}
+                            className="w-12 border rounded px-1"
+                            value={templateBatch.to}
+                            onChange={(e) =>
+                              setTemplateBatch({ ...templateBatch, target: 'range', to: parseInt(e.target.value, 10) || 1 })
+                            }
+                          />
+                        </label>
+                        <p className="text-gray-500">位置のないテンプレートはページ中央に置きます</p>
+                        <button
+                          className="w-full px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+                          onClick={handleApplyTemplateToPages}
+                        >
+                          切り出し
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+              {/* 複数範囲のテンプレート（本文・設問・選択肢などを1ページから順に切り出す） */}
+              <button
+                className="flex items-center gap-1 px-2 py-1 text-xs border rounded hover:bg-gray-100 disabled:opacity-50"
+                onClick={() => {
+                  setShowTemplateBatch(false);
+                  setShowTemplateSets(true);
+                }}
+                disabled={!activeFile || isBatchProcessing}
+                title="複数範囲のテンプレート"
+              >
+                <LayoutTemplate className="w-3 h-3" />
+                複数範囲
+              </button>
+            </div>
+            {/* 余白を詰める（切り出し時に文字の範囲に縮める） */}
+            <div className="flex items-center gap-1 px-2 py-1 bg-gray-50 rounded border">
+              <label className="flex items-center gap-1 text-xs" title="切り出すときに選択範囲を文字のある範囲に縮める">
+                <input
+                  type="checkbox"
+                  checked={settings.autoTrim}
+                  onChange={(e) => updateSettings({ autoTrim: e.target.checked })}
+                />
+                余白を詰める
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="w-12 border rounded px-1 py-0.5 text-xs"
+                value={settings.autoTrimPadding}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (Number.isFinite(value) && value >= 0) updateSettings({ autoTrimPadding: value });
+                }}
+                title="文字の周りに残す余白（px）"
+              />
+              <span className="text-xs text-gray-500">px</span>
             </div>
+            {/* 傾き補正（ページごと、未指定なら自動検出） */}
+            {cropFile && cropPage && (
+              <div className="flex items-center gap-1 px-2 py-1 bg-gray-50 rounded border">
+                <span className="text-xs text-gray-500">傾き:</span>
+                {/* 入力中は描画し直さず、確定（Enter・フォーカスを外す）したときに反映する */}
+                <input
+                  key={`${cropFile.id}:${cropPage.pageNumber}:${cropPage.deskewAngle ?? ''}`}
+                  type="number"
+                  className="w-16 border rounded px-1 py-0.5 text-xs disabled:opacity-50"
+                  step={0.1}
+                  min={-15}
+                  max={15}
+                  defaultValue={cropPage.deskewAngle ?? ''}
+                  placeholder="自動"
+                  disabled={isDeskewLocked}
+                  onBlur={(e) => {
+                    // 「-」だけなど数値になっていない入力は元に戻す（空欄は自動検出）
+                    const value = e.target.value.trim();
+                    const angle = value === '' ? undefined : parseFloat(value);
+                    if (e.target.validity.badInput || (angle !== undefined && !Number.isFinite(angle))) {
+                      e.target.value = String(cropPage.deskewAngle ?? '');
+                      return;
+                    }
+                    setPageDeskewAngle(cropFile.id, cropPage.pageNumber, angle);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.currentTarget.blur();
+                    } else if (e.key === 'Escape') {
+                      e.currentTarget.value = String(cropPage.deskewAngle ?? '');
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  title={
+                    isDeskewLocked
+                      ? 'このページから切り出したスニペットがあるため変更できません'
+                      : '時計回りの補正角度（度）'
+                  }
+                />
+                <span className="text-xs text-gray-500">°</span>
+                <button
+                  className={`px-2 py-0.5 text-xs rounded disabled:opacity-50 ${
+                    cropPage.deskewAngle === undefined ? 'bg-blue-500 text-white' : 'border hover:bg-gray-100'
+                  }`}
+                  onClick={() => setPageDeskewAngle(cropFile.id, cropPage.pageNumber, undefined)}
+                  disabled={isDeskewLocked}
+                  title={
+                    isDeskewLocked ? 'このページから切り出したスニペットがあるため変更できません' : '傾きを自動検出して補正'
+                  }
+                >
+                  自動
+                </button>
+              </div>
+            )}
+            {/* 色消し（ページごと、赤ペン・蛍光ペンを消す） */}
+            {cropFile && cropPage && (
+              <div className="relative">
+                <button
+                  className={`flex items-center gap-1 px-2 py-1 text-xs border rounded hover:bg-gray-100 ${
+                    cropPage.colorDropout ? 'bg-red-50 border-red-300 text-red-700' : ''
+                  }`}
+                  onClick={() => {
+                    setPageDropoutDraft(cropPage.colorDropout ?? DEFAULT_COLOR_DROPOUT);
+                    setShowPageDropout(!showPageDropout);
+                  }}
+                  title="ページの赤ペン・蛍光ペンを消す"
+                >
+                  <Eraser className="w-3 h-3" />
+                  色消し
+                </button>
+                {showPageDropout && (
+                  <div className="absolute top-full left-0 mt-1 bg-white border rounded shadow-lg z-20 p-2 w-[22rem] space-y-2">
+                    <ColorDropoutControls value={pageDropoutDraft} onChange={setPageDropoutDraft} />
+                    <div className="flex items-center gap-1 text-xs">
+                      <button
+                        className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+                        onClick={() => {
+                          setPageColorDropout(cropFile.id, [cropPage.pageNumber], hasColorDropout(pageDropoutDraft) ? pageDropoutDraft : undefined);
+                          setShowPageDropout(false);
+                        }}
+                      >
+                        このページに適用
+                      </button>
+                      {cropFile.id === activeFileId && selectedPageNumbers.length > 0 && (
+                        <button
+                          className="px-2 py-1 border rounded hover:bg-gray-100"
+                          onClick={() => {
+                            setPageColorDropout(cropFile.id, selectedPageNumbers, hasColorDropout(pageDropoutDraft) ? pageDropoutDraft : undefined);
+                            setShowPageDropout(false);
+                          }}
+                        >
+                          選択ページに適用 ({selectedPageNumbers.length})
+                        </button>
+                      )}
+                      <button
+                        className="px-2 py-1 border rounded hover:bg-gray-100"
+                        onClick={() => {
+                          setPageColorDropout(cropFile.id, [cropPage.pageNumber], undefined);
+                          setShowPageDropout(false);
+                        }}
+                      >
+                        解除
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </>
         )}
 
@@ -1018,9 +1393,9 @@ export function LayoutView() {
                     キャンセル
                   </button>
                 </div>
-                {reCropSourcePage?.imageData ? (
+                {reCropSourcePage?.imageId ? (
                   <CropTool
-                    imageData={reCropSourcePage.imageData}
+                    imageId={reCropSourcePage.imageId}
                     sourceFileId={reCropSnippet.sourceFileId}
                     sourcePageNumber={reCropSnippet.sourcePageNumber}
                     zoom={zoom}
@@ -1058,15 +1433,19 @@ export function LayoutView() {
                       }, 100);
                     }}
                     updateSnippetId={reCropSnippetId}
-                    initialCropArea={reCropSnippet.cropArea}
+                    initialCropArea={reCropInitial?.cropArea}
+                    initialCropShape={reCropInitial?.cropShape}
+                    initialMasks={reCropInitial?.masks}
                   />
+                ) : reCropSourcePage ? (
+                  <div className="text-center text-gray-500 py-4">ページを描画中...</div>
                 ) : (
                   <div className="text-center text-red-500 py-4">
                     元のページ画像が見つかりません。PDFファイルを再度読み込んでください。
                   </div>
                 )}
               </div>
-            ) : activePage?.imageData ? (
+            ) : activePage?.imageId ? (
               <div className="space-y-2">
                 {/* 選択ページ数の表示と一括適用ボタン */}
                 {selectedPageNumbers.length > 1 && (
@@ -1083,7 +1462,7 @@ export function LayoutView() {
                   </div>
                 )}
                 <CropTool
-                  imageData={activePage.imageData}
+                  imageId={activePage.imageId}
                   sourceFileId={activeFileId || ''}
                   sourcePageNumber={activePageNumber}
                   zoom={zoom}
@@ -1100,6 +1479,10 @@ export function LayoutView() {
                   }}
                 />
               </div>
+            ) : activePage ? (
+              <div className="h-full flex items-center justify-center text-gray-500">
+                ページを描画中...
+              </div>
             ) : (
               <div className="h-full flex items-center justify-center text-gray-500">
                 左のサイドバーからPDFを選択してください
@@ -1281,6 +1664,17 @@ export function LayoutView() {
         </div>
       </div>
 
+      {/* 複数範囲のテンプレート */}
+      {showTemplateSets && activeFile && (
+        <TemplateSetEditor
+          fileId={activeFile.id}
+          pageNumber={activePageNumber}
+          selectedPageNumbers={selectedPageNumbers}
+          onApply={handleApplyTemplateSet}
+          onClose={() => setShowTemplateSets(false)}
+        />
+      )}
+
       {/* 補正設定モーダル */}
       {showEnhancementPreview && (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
@@ -1295,68 +1689,24 @@ export function LayoutView() {
               </button>
             </div>
 
-            {/* 補正設定UI */}
-            {(() => {
-              const e = settings.imageEnhancement;
-              return (
-                <div className="mb-4 p-3 bg-gray-50 rounded border space-y-3">
-                  {/* スライダー */}
-                  <div className="flex items-center gap-4 flex-wrap">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm w-16">文字濃さ</span>
-                      <input type="range" min="0.3" max="1.5" step="0.1"
-                        value={e?.textDarkness ?? 1.0}
-                        onChange={(ev) => updateSettings({ imageEnhancement: { ...e, textDarkness: parseFloat(ev.target.value) }})}
-                        className="w-24"
-                      />
-                      <span className={`text-sm w-8 ${(e?.textDarkness ?? 1.0) !== 1.0 ? 'font-bold text-purple-600' : ''}`}>
-                        {e?.textDarkness?.toFixed(1) ?? '1.0'}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm w-16">明るさ</span>
-                      <input type="range" min="0.5" max="1.5" step="0.05"
-                        value={e?.brightness ?? 1.0}
-                        onChange={(ev) => updateSettings({ imageEnhancement: { ...e, brightness: parseFloat(ev.target.value) }})}
-                        className="w-24"
-                      />
-                      <span className={`text-sm w-8 ${(e?.brightness ?? 1.0) !== 1.0 ? 'font-bold text-blue-600' : ''}`}>
-                        {e?.brightness?.toFixed(1) ?? '1.0'}
-                      </span>
-                    </div>
-                  </div>
-                  {/* トグルボタン */}
-                  <div className="flex items-center gap-2">
-                    <button className={`px-3 py-1 text-sm rounded ${e?.autoLevels ? 'bg-yellow-500 text-white' : 'bg-gray-200'}`}
-                      onClick={() => updateSettings({ imageEnhancement: { ...e, autoLevels: !e?.autoLevels }})}>自動レベル</button>
-                    <button className={`px-3 py-1 text-sm rounded ${e?.unsharpMask ? 'bg-yellow-500 text-white' : 'bg-gray-200'}`}
-                      onClick={() => updateSettings({ imageEnhancement: { ...e, unsharpMask: !e?.unsharpMask }})}>鮮明化</button>
-                    <button className={`px-3 py-1 text-sm rounded ${e?.grayscale ? 'bg-yellow-500 text-white' : 'bg-gray-200'}`}
-                      onClick={() => updateSettings({ imageEnhancement: { ...e, grayscale: !e?.grayscale }})}>グレースケール</button>
-                    <button className="px-3 py-1 text-sm bg-gray-300 rounded hover:bg-gray-400"
-                      onClick={() => updateSettings({ imageEnhancement: { contrast: 1.0, brightness: 1.0, textDarkness: 1.0, sharpness: false, autoLevels: false, unsharpMask: false, grayscale: false }})}>リセット</button>
-                  </div>
-                </div>
-              );
-            })()}
+            {/* 補正設定UI（すべてのスニペットに適用） */}
+            <div className="mb-4 p-3 bg-gray-50 rounded border space-y-3">
+              <EnhancementControls
+                value={settings.imageEnhancement}
+                onChange={(changes) => updateSettings({ imageEnhancement: { ...settings.imageEnhancement, ...changes } })}
+              />
+              <button
+                className="px-3 py-1 text-sm bg-gray-300 rounded hover:bg-gray-400"
+                onClick={() => updateSettings({ imageEnhancement: NO_ENHANCEMENT })}
+              >
+                リセット
+              </button>
+            </div>
 
-            {/* プレビュー */}
+            {/* プレビュー（ヒストグラム・補正前後の分割表示・等倍ルーペ） */}
             {snippets.length > 0 ? (
               previewImage ? (
-                <div className="flex gap-4">
-                  <div className="flex-1">
-                    <h3 className="text-sm text-gray-600 mb-1 text-center">補正前</h3>
-                    <div className="border rounded p-1 bg-gray-50">
-                      <img src={previewImage.original} alt="補正前" className="max-w-full max-h-[50vh] mx-auto" />
-                    </div>
-                  </div>
-                  <div className="flex-1">
-                    <h3 className="text-sm text-gray-600 mb-1 text-center">補正後</h3>
-                    <div className="border-2 border-orange-400 rounded p-1 bg-orange-50">
-                      <img src={previewImage.enhanced} alt="補正後" className="max-w-full max-h-[50vh] mx-auto" />
-                    </div>
-                  </div>
-                </div>
+                <EnhancementInspector original={previewImage.original} enhanced={previewImage.enhanced} />
               ) : (
                 <div className="flex items-center justify-center h-48">
                   <div className="text-center">
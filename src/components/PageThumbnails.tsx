@@ -1,18 +1,47 @@
 // =============================================================================
 // ページサムネイルコンポーネント
 // BATCH-001: 複数選択対応
+// ページの回転（90度単位）
 // =============================================================================
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { CheckCircle, AlertCircle, Loader, CheckSquare, Square } from 'lucide-react';
+import { CheckCircle, AlertCircle, Loader, CheckSquare, Square, RotateCw, RotateCcw } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
-import type { PDFFile } from '../types';
+import { StoredImage, useRenderedPage } from './StoredImage';
+import type { PDFFile, PDFPage } from '../types';
 
 interface PageThumbnailsProps {
   file: PDFFile;
   multiSelectMode?: boolean;
 }
 
+interface ThumbnailImageProps {
+  fileId: string;
+  page: PDFPage;
+  visible: boolean;
+}
+
+// 画面内にあるページだけ縮小画像を描画する
+function ThumbnailImage({ fileId, page, visible }: ThumbnailImageProps) {
+  useRenderedPage(visible ? fileId : undefined, page.pageNumber, 'thumbnail');
+
+  return (
+    <StoredImage
+      imageId={page.thumbnailId}
+      alt={`Page ${page.pageNumber}`}
+      className="w-full h-auto"
+      fallback={
+        <div
+          className="w-full bg-gray-200 flex items-center justify-center"
+          style={{ aspectRatio: `${page.width} / ${page.height}` }}
+        >
+          <span className="text-xs text-gray-400">{page.pageNumber}</span>
+        </div>
+      }
+    />
+  );
+}
+
 export function PageThumbnails({ file, multiSelectMode = false }: PageThumbnailsProps) {
   const {
     activePageNumber,
@@ -22,11 +51,39 @@ export function PageThumbnails({ file, multiSelectMode = false }: PageThumbnails
     selectPageRange,
     selectAllPages,
     clearPageSelection,
+    rotatePage,
   } = useAppStore();
 
   const [lastClickedPage, setLastClickedPage] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const thumbnailRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(new Set());
+
+  // 画面内（と少し先）のサムネイルを検出
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        setVisiblePages((prev) => {
+          const next = new Set(prev);
+          entries.forEach((entry) => {
+            const pageNumber = Number((entry.target as HTMLElement).dataset.pageNumber);
+            if (entry.isIntersecting) {
+              next.add(pageNumber);
+            } else {
+              next.delete(pageNumber);
+            }
+          });
+          return next;
+        });
+      },
+      { root: containerRef.current, rootMargin: '200px 0px' }
+    );
+    thumbnailRefs.current.forEach((el) => observer.observe(el));
+    return () => {
+      observer.disconnect();
+      setVisiblePages(new Set());
+    };
+  }, [file.id, file.pageCount]);
 
   // アクティブページが変わったら自動スクロール
   useEffect(() => {
@@ -118,10 +175,11 @@ export function PageThumbnails({ file, multiSelectMode = false }: PageThumbnails
           return (
             <div
               key={page.pageNumber}
+              data-page-number={page.pageNumber}
               ref={(el) => {
                 if (el) thumbnailRefs.current.set(page.pageNumber, el);
               }}
-              className={`thumbnail relative cursor-pointer ${isActive ? 'active' : ''} ${
+              className={`thumbnail group relative cursor-pointer ${isActive ? 'active' : ''} ${
                 multiSelectMode && isSelected ? 'ring-2 ring-blue-500' : ''
               }`}
               onClick={(e) => handlePageClick(e, page.pageNumber)}
@@ -137,20 +195,35 @@ export function PageThumbnails({ file, multiSelectMode = false }: PageThumbnails
                 </div>
               )}
 
-              {page.imageData ? (
-                <img
-                  src={page.imageData}
-                  alt={`Page ${page.pageNumber}`}
-                  className="w-full h-auto"
-                />
-              ) : (
-                <div className="w-full aspect-[3/4] bg-gray-200 flex items-center justify-center">
-                  <span className="text-xs text-gray-400">{page.pageNumber}</span>
-                </div>
-              )}
+              <ThumbnailImage fileId={file.id} page={page} visible={visiblePages.has(page.pageNumber)} />
               {getStatusBadge(page.ocrStatus)}
+
+              {/* 回転ボタン（ホバー時） */}
+              <div className="absolute bottom-5 left-0 right-0 flex justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  className="p-1 bg-white rounded shadow hover:bg-gray-100"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    rotatePage(file.id, page.pageNumber, 270);
+                  }}
+                  title="左に90度回転"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+                <button
+                  className="p-1 bg-white rounded shadow hover:bg-gray-100"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    rotatePage(file.id, page.pageNumber, 90);
+                  }}
+                  title="右に90度回転"
+                >
+                  <RotateCw className="w-3 h-3" />
+                </button>
+              </div>
               <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white text-xs text-center py-0.5">
                 {page.pageNumber}
+                {page.userRotation ? ` (${page.userRotation}°)` : ''}
               </div>
             </div>
           );
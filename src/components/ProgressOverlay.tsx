@@ -13,7 +13,7 @@ interface ProgressOverlayProps {
 }
 
 export function ProgressOverlay({ progress }: ProgressOverlayProps) {
-  const { cancelOCR } = useAppStore();
+  const { cancelProcessing } = useAppStore();
 
   const percentage = Math.round((progress.current / progress.total) * 100);
 
@@ -27,7 +27,7 @@ export function ProgressOverlay({ progress }: ProgressOverlayProps) {
           </div>
           <button
             className="p-1 hover:bg-gray-100 rounded"
-            onClick={cancelOCR}
+            onClick={cancelProcessing}
             title="キャンセル"
           >
             <X className="w-5 h-5" />
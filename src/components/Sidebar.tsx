@@ -1,9 +1,11 @@
 // =============================================================================
 // サイドバーコンポーネント
 // P3-003: 複数PDF管理画面
+// 見開きページの分割（取り込み時・取り込み後）
+// 補正プリセットの選択（取り込み時・取り込み後の再適用）
 // =============================================================================
 
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import {
   Upload,
@@ -12,30 +14,91 @@ import {
   AlertCircle,
   CheckCircle,
   Loader,
+  Lock,
+  KeyRound,
+  BookOpen,
+  RefreshCw,
+  SlidersHorizontal,
 } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import type { PDFFile, GutterMode } from '../types';
 import { formatFileSize } from '../utils/helpers';
+import { IMAGE_FILE_TYPES, isImageFile } from '../utils/imageSourceUtils';
+import { isSpreadPage } from '../utils/spreadUtils';
+import { EnhancementPresetEditor } from './EnhancementPresetEditor';
 
 export function Sidebar() {
-  const { files, activeFileId, addFiles, removeFile, setActiveFile } = useAppStore();
+  const {
+    files,
+    activeFileId,
+    settings,
+    addFiles,
+    unlockFile,
+    removeFile,
+    setActiveFile,
+    splitSpreads,
+    applyEnhancementPreset,
+    updateSettings,
+  } = useAppStore();
+  const [splitOnImport, setSplitOnImport] = useState(false); // 取り込み時に見開きを分割
+  const [gutterMode, setGutterMode] = useState<GutterMode>('detect'); // 分割位置
+  const [showPresetEditor, setShowPresetEditor] = useState(false); // 補正プリセットの編集
+
+  // パスワード保護されたPDFのパスワードを入力して開き直す
+  const handleUnlock = useCallback(
+    async (file: PDFFile) => {
+      const password = prompt(`「${file.name}」のパスワードを入力してください`);
+      if (password === null) return;
+      if (!(await unlockFile(file.id, password))) {
+        alert('PDFを開けませんでした。パスワードを確認してください');
+      }
+    },
+    [unlockFile]
+  );
 
   // P1-001, P1-002: PDF読み込み（単体・複数一括）
+  // スキャン画像・写真（JPEG/PNG/TIFF）もページとして読み込む
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
-      const pdfFiles = acceptedFiles.filter(
-        (file) => file.type === 'application/pdf'
+      const sourceFiles = acceptedFiles.filter(
+        (file) => file.type === 'application/pdf' || isImageFile(file)
       );
-      if (pdfFiles.length > 0) {
-        addFiles(pdfFiles);
+      if (sourceFiles.length > 0) {
+        addFiles(sourceFiles, {
+          splitSpreads: splitOnImport ? gutterMode : undefined,
+          enhancementPresetId: settings.importPresetId,
+        }).then(async () => {
+          // パスワード保護されていたファイルはすぐにパスワードを尋ねる
+          const lockedFiles = useAppStore
+            .getState()
+            .files.filter((f) => f.status === 'locked' && sourceFiles.includes(f.file));
+          for (const file of lockedFiles) {
+            await handleUnlock(file);
+          }
+        });
+      }
+    },
+    [addFiles, handleUnlock, splitOnImport, gutterMode, settings.importPresetId]
+  );
+
+  // 横長のページを見開きとして左右に分割
+  const handleSplitSpreads = useCallback(
+    async (file: PDFFile) => {
+      try {
+        await splitSpreads(file.id, gutterMode);
+      } catch (error) {
+        console.error('見開きの分割に失敗しました:', error);
+        alert('見開きの分割に失敗しました');
       }
     },
-    [addFiles]
+    [splitSpreads, gutterMode]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
+      ...IMAGE_FILE_TYPES,
     },
     maxSize: 50 * 1024 * 1024, // 50MB
     maxFiles: 10,
@@ -49,6 +112,8 @@ export function Sidebar() {
         return <Loader className="w-4 h-4 text-blue-500 animate-spin" />;
       case 'error':
         return <AlertCircle className="w-4 h-4 text-red-500" />;
+      case 'locked':
+        return <Lock className="w-4 h-4 text-amber-500" />;
       default:
         return <File className="w-4 h-4 text-gray-400" />;
     }
@@ -67,12 +132,58 @@ export function Sidebar() {
           <p className="text-sm text-gray-600">
             {isDragActive
               ? 'ここにドロップ'
-              : 'PDFをドラッグ&ドロップ\nまたはクリックして選択'}
+              : 'PDF・画像をドラッグ&ドロップ\nまたはクリックして選択'}
           </p>
           <p className="text-xs text-gray-400 mt-1">
-            最大10ファイル、50MB/ファイル
+            PDF・JPEG・PNG・TIFF、最大10ファイル、50MB/ファイル
           </p>
         </div>
+
+        {/* 見開きの分割 */}
+        <div className="mt-2 space-y-1 text-xs text-gray-600">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={splitOnImport}
+              onChange={(e) => setSplitOnImport(e.target.checked)}
+            />
+            見開きを分割して取り込む
+          </label>
+          <label className="flex items-center gap-1">
+            分割位置:
+            <select
+              className="border rounded px-1 py-0.5 text-xs"
+              value={gutterMode}
+              onChange={(e) => setGutterMode(e.target.value as GutterMode)}
+            >
+              <option value="detect">のどを検出</option>
+              <option value="center">中央</option>
+            </select>
+          </label>
+          <div className="flex items-center gap-1">
+            <label className="flex items-center gap-1 min-w-0">
+              補正:
+              <select
+                className="border rounded px-1 py-0.5 text-xs min-w-0"
+                value={settings.importPresetId}
+                onChange={(e) => updateSettings({ importPresetId: e.target.value })}
+              >
+                {settings.enhancementPresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              className="p-0.5 hover:bg-gray-100 rounded"
+              onClick={() => setShowPresetEditor(true)}
+              title="補正プリセットを編集"
+            >
+              <SlidersHorizontal className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* ファイルリスト */}
@@ -82,7 +193,7 @@ export function Sidebar() {
         </h3>
         {files.length === 0 ? (
           <p className="text-sm text-gray-400 text-center py-4">
-            PDFファイルがありません
+            ファイルがありません
           </p>
         ) : (
           <ul className="space-y-2">
@@ -112,6 +223,60 @@ export function Sidebar() {
                     {file.error && (
                       <p className="text-xs text-red-500 mt-1">{file.error}</p>
                     )}
+                    {file.status === 'locked' && (
+                      <button
+                        className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleUnlock(file);
+                        }}
+                      >
+                        <KeyRound className="w-3 h-3" />
+                        パスワードを入力
+                      </button>
+                    )}
+                    {file.status === 'completed' && file.pages.some(isSpreadPage) && (
+                      <button
+                        className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleSplitSpreads(file);
+                        }}
+                        title="横長のページを左右の2ページに分割"
+                      >
+                        <BookOpen className="w-3 h-3" />
+                        見開きを分割
+                      </button>
+                    )}
+                    {file.status === 'completed' && (
+                      <div className="mt-1 flex items-center gap-1 text-xs" onClick={(e) => e.stopPropagation()}>
+                        <select
+                          className="border rounded px-1 py-0.5 text-xs min-w-0 flex-1"
+                          value={file.enhancementPresetId ?? ''}
+                          onChange={(e) => applyEnhancementPreset(file.id, e.target.value)}
+                          title="補正プリセット（切り抜いたスニペットがあるファイルでは傾き補正は変えない）"
+                        >
+                          {!settings.enhancementPresets.some((p) => p.id === file.enhancementPresetId) && (
+                            <option value="">（削除されたプリセット）</option>
+                          )}
+                          {settings.enhancementPresets.map((preset) => (
+                            <option key={preset.id} value={preset.id}>
+                              {preset.name}
+                            </option>
+                          ))}
+                        </select>
+                        {file.enhancementPresetId &&
+                          settings.enhancementPresets.some((p) => p.id === file.enhancementPresetId) && (
+                            <button
+                              className="p-0.5 text-blue-600 hover:bg-blue-100 rounded"
+                              onClick={() => applyEnhancementPreset(file.id, file.enhancementPresetId ?? '')}
+                              title="プリセットの変更を反映して描画し直す"
+                            >
+                              <RefreshCw className="w-3 h-3" />
+                            </button>
+                          )}
+                      </div>
+                    )}
                   </div>
                   <button
                     className="p-1 hover:bg-red-100 rounded"
@@ -130,6 +295,8 @@ export function Sidebar() {
           </ul>
         )}
       </div>
+
+      {showPresetEditor && <EnhancementPresetEditor onClose={() => setShowPresetEditor(false)} />}
     </aside>
   );
 }
@@ -0,0 +1,77 @@
+// =============================================================================
+// スニペットごとの画像補正
+// 薄いスニペットだけを濃くするなど、設定の補正（すべてのスニペットに適用）の代わりに使う
+// PDF出力・印刷・レイアウト画面の表示に反映する
+// =============================================================================
+
+import { useAppStore } from '../stores/appStore';
+import type { ImageEnhancement } from '../types';
+import { StoredImage } from './StoredImage';
+import { EnhancementControls } from './EnhancementControls';
+
+interface SnippetEnhancementEditorProps {
+  snippetId: string;
+  onClose: () => void;
+}
+
+export function SnippetEnhancementEditor({ snippetId, onClose }: SnippetEnhancementEditorProps) {
+  const { snippets, settings, updateSnippet } = useAppStore();
+  const snippet = snippets.find((s) => s.id === snippetId);
+  if (!snippet) return null;
+
+  const enhancement = snippet.enhancement ?? settings.imageEnhancement;
+  const updateEnhancement = (changes: Partial<ImageEnhancement>) => {
+    updateSnippet(snippetId, { enhancement: { ...enhancement, ...changes } });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-2xl max-w-3xl max-h-[90vh] overflow-auto p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-lg font-bold">スニペットの補正</h2>
+          <button className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm mb-3">
+          <input
+            type="checkbox"
+            checked={!!snippet.enhancement}
+            onChange={(e) =>
+              updateSnippet(snippetId, { enhancement: e.target.checked ? { ...settings.imageEnhancement } : undefined })
+            }
+          />
+          このスニペットだけ別の補正を使う（オフのときは画像補正の設定を使う）
+        </label>
+
+        {snippet.enhancement && (
+          <div className="mb-4 p-3 bg-gray-50 rounded border">
+            <EnhancementControls value={snippet.enhancement} onChange={updateEnhancement} />
+          </div>
+        )}
+
+        {/* プレビュー */}
+        <div className="flex gap-4">
+          <div className="flex-1">
+            <h3 className="text-sm text-gray-600 mb-1 text-center">補正前</h3>
+            <div className="border rounded p-1 bg-gray-50">
+              <StoredImage imageId={snippet.imageId} alt="補正前" className="max-w-full max-h-[40vh] mx-auto" />
+            </div>
+          </div>
+          <div className="flex-1">
+            <h3 className="text-sm text-gray-600 mb-1 text-center">補正後</h3>
+            <div className="border-2 border-orange-400 rounded p-1 bg-orange-50">
+              <StoredImage
+                imageId={snippet.imageId}
+                enhancement={enhancement}
+                alt="補正後"
+                className="max-w-full max-h-[40vh] mx-auto"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
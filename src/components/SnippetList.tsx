@@ -1,11 +1,29 @@
 // =============================================================================
 // スニペットリストコンポーネント
 // P3-001: トリミング機能 - スニペット管理
+// スニペットごとの色消し（赤ペン・蛍光ペン）・画像補正
+// すべてのスニペットの余白を詰める
 // =============================================================================
 
 import { useState, useRef } from 'react';
-import { Trash2, Move, Crop, CornerDownLeft, Grid, XCircle, GripVertical } from 'lucide-react';
+import {
+  Trash2,
+  Move,
+  Crop,
+  CornerDownLeft,
+  Grid,
+  XCircle,
+  GripVertical,
+  Eraser,
+  SlidersHorizontal,
+  Shrink,
+} from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { StoredImage } from './StoredImage';
+import { ColorDropoutControls } from './ColorDropoutControls';
+import { SnippetEnhancementEditor } from './SnippetEnhancementEditor';
+import type { ColorDropout } from '../types';
+import { DEFAULT_COLOR_DROPOUT } from '../utils/imageFilters';
 
 // グリッドパターン定義
 const GRID_PATTERNS: Record<string, { cols: number; rows: number; label: string }> = {
@@ -35,12 +53,19 @@ export function SnippetList() {
     updateSettings,
     clearAllPlacements,
     reorderSnippets,
+    setSnippetColorDropout,
+    trimSnippets,
   } = useAppStore();
 
   const gridPattern = settings.gridPattern;
   const setGridPattern = (pattern: typeof gridPattern) => updateSettings({ gridPattern: pattern });
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const draggedIndexRef = useRef<number | null>(null);
+  const [dropoutSnippetId, setDropoutSnippetId] = useState<string | null>(null); // 色消しを設定中のスニペット
+  const [dropoutDraft, setDropoutDraft] = useState<ColorDropout>(DEFAULT_COLOR_DROPOUT);
+  const [isApplyingDropout, setIsApplyingDropout] = useState(false);
+  const dropoutSnippet = snippets.find((s) => s.id === dropoutSnippetId);
+  const [enhancingSnippetId, setEnhancingSnippetId] = useState<string | null>(null); // 補正を設定中のスニペット
 
 
   // スニペットを選択した時にソースファイル・ページもアクティブに設定
@@ -119,6 +144,36 @@ export function SnippetList() {
     clearAllPlacements();
   };
 
+  // 色消しを適用（元のページから切り出し直す）
+  const handleApplyDropout = async (dropout: ColorDropout | undefined) => {
+    if (!dropoutSnippetId) return;
+    setIsApplyingDropout(true);
+    try {
+      await setSnippetColorDropout(dropoutSnippetId, dropout);
+      setDropoutSnippetId(null);
+    } catch (error) {
+      console.error('色消しの適用に失敗しました:', error);
+      alert('色消しの適用に失敗しました');
+    } finally {
+      setIsApplyingDropout(false);
+    }
+  };
+
+  // すべてのスニペットの余白を詰める（元のページから切り出し直す）
+  const handleTrimAll = async () => {
+    if (!confirm(`すべてのスニペットの余白を詰めますか？\n（文字の周りに${settings.autoTrimPadding}pxの余白を残します）`)) return;
+    try {
+      const count = await trimSnippets(
+        snippets.map((s) => s.id),
+        settings.autoTrimPadding
+      );
+      alert(`${count}個のスニペットの余白を詰めました`);
+    } catch (error) {
+      console.error('余白の詰めに失敗しました:', error);
+      alert('余白の詰めに失敗しました');
+    }
+  };
+
   // レイアウトページがあるか
   const hasLayoutPage = layoutPages.length > 0;
 
@@ -127,8 +182,17 @@ export function SnippetList() {
 
   return (
     <div className="w-48 bg-white rounded-lg shadow overflow-hidden flex flex-col">
-      <div className="px-3 py-2 bg-gray-50 border-b font-medium text-sm">
+      <div className="px-3 py-2 bg-gray-50 border-b font-medium text-sm flex items-center justify-between">
         スニペット ({snippets.length})
+        {snippets.length > 0 && (
+          <button
+            className="p-1 rounded hover:bg-gray-200"
+            onClick={handleTrimAll}
+            title="すべてのスニペットの余白を詰める"
+          >
+            <Shrink className="w-3 h-3" />
+          </button>
+        )}
       </div>
 
       {/* 自動配置ボタン */}
@@ -195,12 +259,26 @@ export function SnippetList() {
                 <div className="absolute top-1 left-1 z-10 p-0.5 bg-white bg-opacity-80 rounded cursor-grab active:cursor-grabbing">
                   <GripVertical className="w-3 h-3 text-gray-400" />
                 </div>
-                <img
-                  src={snippet.imageData}
+                <StoredImage
+                  imageId={snippet.imageId}
                   alt={`Snippet ${snippet.id}`}
                   className="w-full h-auto rounded"
                 />
 
+                {/* 色消しマーク */}
+                {snippet.colorDropout && (
+                  <div className="absolute top-0 right-0 bg-pink-500 text-white text-xs px-1 py-0.5 rounded-bl">
+                    色消し
+                  </div>
+                )}
+
+                {/* 個別補正マーク */}
+                {snippet.enhancement && (
+                  <div className="absolute bottom-5 right-0 bg-yellow-500 text-white text-xs px-1 py-0.5 rounded-l">
+                    補正
+                  </div>
+                )}
+
                 {/* 改ページマーク */}
                 {snippet.pageBreakBefore && (
                   <div className="absolute top-0 left-0 bg-orange-500 text-white text-xs px-1 py-0.5 rounded-br">
@@ -230,6 +308,27 @@ export function SnippetList() {
                   >
                     <Crop className="w-4 h-4" />
                   </button>
+                  <button
+                    className="p-1.5 bg-pink-500 text-white rounded hover:bg-pink-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDropoutDraft(snippet.colorDropout ?? DEFAULT_COLOR_DROPOUT);
+                      setDropoutSnippetId(snippet.id);
+                    }}
+                    title="色消し（赤ペン・蛍光ペン）"
+                  >
+                    <Eraser className="w-4 h-4" />
+                  </button>
+                  <button
+                    className="p-1.5 bg-yellow-500 text-white rounded hover:bg-yellow-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEnhancingSnippetId(snippet.id);
+                    }}
+                    title="このスニペットの補正"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                  </button>
                   <button
                     className="p-1.5 bg-blue-500 text-white rounded hover:bg-blue-600"
                     onClick={(e) => {
@@ -262,6 +361,50 @@ export function SnippetList() {
           </div>
         )}
       </div>
+
+      {/* スニペットの補正 */}
+      {enhancingSnippetId && (
+        <SnippetEnhancementEditor snippetId={enhancingSnippetId} onClose={() => setEnhancingSnippetId(null)} />
+      )}
+
+      {/* スニペットの色消し */}
+      {dropoutSnippet && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-2xl w-[26rem] p-4 space-y-3">
+            <h2 className="text-lg font-bold">スニペットの色消し</h2>
+            <StoredImage
+              imageId={dropoutSnippet.imageId}
+              alt="対象のスニペット"
+              className="max-w-full max-h-48 mx-auto border rounded"
+            />
+            <ColorDropoutControls value={dropoutDraft} onChange={setDropoutDraft} />
+            <div className="flex justify-end gap-2">
+              {dropoutSnippet.colorDropout && (
+                <button
+                  className="px-3 py-1 text-sm border rounded hover:bg-gray-100 disabled:opacity-50"
+                  onClick={() => handleApplyDropout(undefined)}
+                  disabled={isApplyingDropout}
+                >
+                  解除
+                </button>
+              )}
+              <button
+                className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+                onClick={() => setDropoutSnippetId(null)}
+              >
+                閉じる
+              </button>
+              <button
+                className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                onClick={() => handleApplyDropout(dropoutDraft)}
+                disabled={isApplyingDropout}
+              >
+                {isApplyingDropout ? '適用中...' : '適用'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
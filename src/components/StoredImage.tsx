@@ -0,0 +1,129 @@
+// =============================================================================
+// 画像ストアの画像表示コンポーネント
+// =============================================================================
+
+import { useEffect, useState, type ImgHTMLAttributes, type ReactNode } from 'react';
+import { useAppStore } from '../stores/appStore';
+import type { PDFFile, ImageEnhancement } from '../types';
+import { acquireImageURL, releaseImageURL, readImageBlob } from '../utils/imageStore';
+import { processImage } from '../utils/imageProcessing';
+import { needsImageEnhancement } from '../utils/imageFilters';
+import { retainPage, releasePage, getRenderVariant, type PageRendition } from '../utils/pageCache';
+
+/**
+ * 画像IDに対応する表示用URLを取得（読み込み中はnull）
+ */
+export function useImageURL(imageId: string | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!imageId) return;
+
+    let cancelled = false;
+    let acquired = false;
+    acquireImageURL(imageId)
+      .then((imageUrl) => {
+        acquired = true;
+        if (cancelled) {
+          releaseImageURL(imageId);
+        } else {
+          setUrl(imageUrl);
+        }
+      })
+      .catch((error) => {
+        console.error('画像の読み込みに失敗しました:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (acquired) releaseImageURL(imageId);
+    };
+  }, [imageId]);
+
+  return url;
+}
+
+/**
+ * 補正を適用した画像の表示用URLを取得（補正がない場合・処理中はnull）
+ */
+export function useEnhancedImageURL(imageId: string | undefined, enhancement: ImageEnhancement | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  // 補正内容が同じなら処理し直さない
+  const enhancementKey = needsImageEnhancement(enhancement) ? JSON.stringify(enhancement) : null;
+
+  useEffect(() => {
+    setUrl(null);
+    if (!imageId || !enhancementKey) return;
+
+    let cancelled = false;
+    let enhancedUrl: string | null = null;
+    readImageBlob(imageId)
+      .then((blob) => processImage(blob, JSON.parse(enhancementKey) as ImageEnhancement))
+      .then((processed) => {
+        if (cancelled) return;
+        enhancedUrl = URL.createObjectURL(processed.blob);
+        setUrl(enhancedUrl);
+      })
+      .catch((error) => {
+        console.error('画像の補正に失敗しました:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (enhancedUrl) URL.revokeObjectURL(enhancedUrl);
+    };
+  }, [imageId, enhancementKey]);
+
+  return url;
+}
+
+/**
+ * 表示中のページ画像を使用中にし、未描画なら描画を要求する
+ * @param rendition トリミング用の画像か一覧表示用のサムネイルか
+ */
+export function useRenderedPage(
+  fileId: string | undefined,
+  pageNumber: number | undefined,
+  rendition: PageRendition = 'page'
+): void {
+  const renderPage = useAppStore((state) => (rendition === 'page' ? state.renderPage : state.renderThumbnail));
+  const findFile = (state: { files: PDFFile[] }) => state.files.find((f) => f.id === fileId);
+  const imageId = useAppStore((state) => {
+    const page = findFile(state)?.pages.find((p) => p.pageNumber === pageNumber);
+    return rendition === 'page' ? page?.imageId : page?.thumbnailId;
+  });
+  const variant = useAppStore((state) => {
+    const file = findFile(state);
+    const page = file?.pages.find((p) => p.pageNumber === pageNumber);
+    return file && page ? getRenderVariant(file, page) : undefined;
+  });
+
+  useEffect(() => {
+    if (!fileId || pageNumber === undefined) return;
+    retainPage(fileId, pageNumber, rendition);
+    return () => releasePage(fileId, pageNumber, rendition);
+  }, [fileId, pageNumber, rendition]);
+
+  // 破棄された場合や回転・傾き補正・ファイルの補正が変わった場合も描画し直す
+  useEffect(() => {
+    if (!fileId || pageNumber === undefined || imageId) return;
+    renderPage(fileId, pageNumber).catch((error) => {
+      console.error('ページの描画に失敗しました:', error);
+    });
+  }, [fileId, pageNumber, imageId, variant, renderPage]);
+}
+
+interface StoredImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  imageId: string | undefined;
+  enhancement?: ImageEnhancement; // 表示時に適用する補正（処理が終わるまでは元の画像を表示）
+  fallback?: ReactNode; // 読み込み中の表示
+}
+
+export function StoredImage({ imageId, enhancement, fallback = null, ...imgProps }: StoredImageProps) {
+  const originalUrl = useImageURL(imageId);
+  const enhancedUrl = useEnhancedImageURL(imageId, enhancement);
+  const url = enhancedUrl ?? originalUrl;
+  if (!url) return <>{fallback}</>;
+  return <img src={url} {...imgProps} />;
+}
@@ -0,0 +1,291 @@
+// =============================================================================
+// 複数範囲のテンプレートの編集・一括適用
+// 問題冊子のように毎ページ同じ構成（本文・設問・選択肢）のとき、1ページで切り出した範囲を
+// 名前付きで保存し、ほかのページから同じ順でまとめて切り出す
+// =============================================================================
+
+import { useState, useRef } from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown, Download, Upload } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import {
+  type TemplateSet,
+  type TemplateRegion,
+  getTemplateSets,
+  saveTemplateSet,
+  removeTemplateSet,
+  createTemplateSet,
+  exportTemplates,
+  importTemplates,
+} from '../utils/cropTemplateUtils';
+
+interface TemplateSetEditorProps {
+  fileId: string;
+  pageNumber: number; // 範囲を取り込むページ
+  selectedPageNumbers: number[];
+  onApply: (templateSet: TemplateSet, pageNumbers: number[]) => void;
+  onClose: () => void;
+}
+
+export function TemplateSetEditor({ fileId, pageNumber, selectedPageNumbers, onApply, onClose }: TemplateSetEditorProps) {
+  const { files, snippets } = useAppStore();
+  const file = files.find((f) => f.id === fileId);
+  const page = file?.pages.find((p) => p.pageNumber === pageNumber);
+  const pageSnippets = snippets.filter((s) => s.sourceFileId === fileId && s.sourcePageNumber === pageNumber);
+
+  const [sets, setSets] = useState<TemplateSet[]>(() => getTemplateSets());
+  const [selectedId, setSelectedId] = useState<string | null>(() => getTemplateSets()[0]?.id ?? null);
+  const [target, setTarget] = useState<'selected' | 'range'>(selectedPageNumbers.length > 0 ? 'selected' : 'range');
+  const [range, setRange] = useState({ from: 1, to: file?.pages.length ?? 1 });
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const templateSet = sets.find((s) => s.id === selectedId) ?? null;
+
+  const reload = () => setSets(getTemplateSets());
+
+  const update = (changes: Partial<TemplateSet>) => {
+    if (!templateSet) return;
+    saveTemplateSet({ ...templateSet, ...changes });
+    reload();
+  };
+
+  const updateRegion = (index: number, changes: Partial<TemplateRegion>) => {
+    if (!templateSet) return;
+    update({ regions: templateSet.regions.map((r, i) => (i === index ? { ...r, ...changes } : r)) });
+  };
+
+  const moveRegion = (index: number, direction: -1 | 1) => {
+    if (!templateSet) return;
+    const regions = [...templateSet.regions];
+    const [region] = regions.splice(index, 1);
+    regions.splice(index + direction, 0, region);
+    update({ regions });
+  };
+
+  // このページのスニペットの範囲から作成（スニペット一覧の順）
+  const handleCreateFromPage = () => {
+    if (pageSnippets.length === 0) return;
+    const regions = pageSnippets.map((s, i) => {
+      // 切り出し時と解像度スケールが違う場合は、今のページ画像の座標に直す
+      const ratio = page?.renderScale && s.renderScale ? page.renderScale / s.renderScale : 1;
+      return {
+        name: `範囲${i + 1}`,
+        x: Math.round(s.cropArea.x * ratio),
+        y: Math.round(s.cropArea.y * ratio),
+        width: Math.round(s.cropArea.width * ratio),
+        height: Math.round(s.cropArea.height * ratio),
+      };
+    });
+    const created = createTemplateSet(`${file?.name ?? ''} p.${pageNumber}`, regions, page?.renderScale);
+    saveTemplateSet(created);
+    reload();
+    setSelectedId(created.id);
+  };
+
+  const handleRemove = () => {
+    if (!templateSet) return;
+    if (!confirm(`テンプレート「${templateSet.name}」を削除しますか？`)) return;
+    removeTemplateSet(templateSet.id);
+    const rest = getTemplateSets();
+    setSets(rest);
+    setSelectedId(rest[0]?.id ?? null);
+  };
+
+  // JSONに書き出す
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `crop_templates_${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // JSONから読み込む
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target.files?.[0];
+    e.target.value = '';
+    if (!input) return;
+    try {
+      const count = importTemplates(await input.text());
+      const loaded = getTemplateSets();
+      setSets(loaded);
+      if (!selectedId && loaded.length > 0) setSelectedId(loaded[0].id);
+      alert(`${count}個のテンプレートを読み込みました`);
+    } catch (error) {
+      console.error('テンプレート読み込みエラー:', error);
+      alert(error instanceof Error ? error.message : 'テンプレートを読み込めませんでした');
+    }
+  };
+
+  const handleApply = () => {
+    if (!templateSet || !file) return;
+    const pageNumbers =
+      target === 'selected'
+        ? selectedPageNumbers
+        : file.pages.map((p) => p.pageNumber).filter((n) => n >= range.from && n <= range.to);
+    onApply(templateSet, pageNumbers);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-2xl w-[36rem] max-h-[90vh] overflow-auto p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-lg font-bold">複数範囲のテンプレート</h2>
+          <button className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+
+        {/* テンプレートの選択・作成・削除・書き出し・読み込み */}
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            className="flex-1 border rounded px-2 py-1 text-sm"
+            value={templateSet?.id ?? ''}
+            onChange={(e) => setSelectedId(e.target.value)}
+            disabled={sets.length === 0}
+          >
+            {sets.length === 0 && <option value="">テンプレートがありません</option>}
+            {sets.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}（{s.regions.length}範囲）
+              </option>
+            ))}
+          </select>
+          <button
+            className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+            onClick={handleCreateFromPage}
+            disabled={pageSnippets.length === 0}
+            title={`このページ（p.${pageNumber}）のスニペット${pageSnippets.length}個の範囲から作成`}
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            className="p-1 hover:bg-red-100 rounded disabled:opacity-30"
+            onClick={handleRemove}
+            disabled={!templateSet}
+            title="削除"
+          >
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </button>
+          <button className="p-1 hover:bg-gray-100 rounded" onClick={handleExport} title="JSONに書き出し">
+            <Download className="w-4 h-4" />
+          </button>
+          <button className="p-1 hover:bg-gray-100 rounded" onClick={() => importInputRef.current?.click()} title="JSONから読み込み">
+            <Upload className="w-4 h-4" />
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+
+        {templateSet ? (
+          <div className="p-3 bg-gray-50 rounded border space-y-3">
+            <label className="flex items-center gap-2">
+              <span className="text-sm w-16">名前</span>
+              <input
+                type="text"
+                className="flex-1 border rounded px-2 py-1 text-sm"
+                value={templateSet.name}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+            </label>
+
+            {/* 範囲（この順にスニペットを作る） */}
+            <div className="space-y-1">
+              {templateSet.regions.map((region, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="w-5 text-right text-gray-500">{index + 1}</span>
+                  <input
+                    type="text"
+                    className="w-28 border rounded px-2 py-0.5"
+                    value={region.name}
+                    onChange={(e) => updateRegion(index, { name: e.target.value })}
+                  />
+                  <span className="flex-1 text-xs text-gray-500">
+                    {region.width} × {region.height} @ ({region.x}, {region.y})
+                  </span>
+                  <button
+                    className="p-0.5 hover:bg-gray-200 rounded disabled:opacity-30"
+                    onClick={() => moveRegion(index, -1)}
+                    disabled={index === 0}
+                    title="前へ"
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    className="p-0.5 hover:bg-gray-200 rounded disabled:opacity-30"
+                    onClick={() => moveRegion(index, 1)}
+                    disabled={index === templateSet.regions.length - 1}
+                    title="後へ"
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </button>
+                  <button
+                    className="p-0.5 hover:bg-red-100 rounded disabled:opacity-30"
+                    onClick={() => update({ regions: templateSet.regions.filter((_, i) => i !== index) })}
+                    disabled={templateSet.regions.length <= 1}
+                    title="この範囲を削除"
+                  >
+                    <Trash2 className="w-3 h-3 text-red-500" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* 適用するページ */}
+            <div className="flex items-center gap-3 text-sm border-t pt-3">
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={target === 'selected'}
+                  disabled={selectedPageNumbers.length === 0}
+                  onChange={() => setTarget('selected')}
+                />
+                選択ページ ({selectedPageNumbers.length})
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={target === 'range'} onChange={() => setTarget('range')} />
+                ページ
+                <input
+                  type="number"
+                  min={1}
+                  max={file?.pages.length}
+                  className="w-14 border rounded px-1"
+                  value={range.from}
+                  onChange={(e) => {
+                    setTarget('range');
+                    setRange({ ...range, from: parseInt(e.target.value, 10) || 1 });
+                  }}
+                />
+                〜
+                <input
+                  type="number"
+                  min={1}
+                  max={file?.pages.length}
+                  className="w-14 border rounded px-1"
+                  value={range.to}
+                  onChange={(e) => {
+                    setTarget('range');
+                    setRange({ ...range, to: parseInt(e.target.value, 10) || 1 });
+                  }}
+                />
+              </label>
+              <button
+                className="ml-auto px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+                onClick={handleApply}
+              >
+                切り出し
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            ページで範囲を切り出してから「＋」を押すと、そのページのスニペットの範囲をテンプレートにできます。
+          </p>
+        )}
+
+        <p className="text-xs text-gray-500 mt-3">
+          各ページから、範囲の順にスニペットを作ります。書き出したJSONはほかのパソコンでも読み込めます。
+        </p>
+      </div>
+    </div>
+  );
+}
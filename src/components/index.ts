@@ -11,3 +11,10 @@ export { ProgressOverlay } from './ProgressOverlay';
 export { SnippetList } from './SnippetList';
 export { CropTool } from './CropTool';
 export { LayoutCanvas } from './LayoutCanvas';
+export { StoredImage } from './StoredImage';
+export { EnhancementPresetEditor } from './EnhancementPresetEditor';
+export { ColorDropoutControls } from './ColorDropoutControls';
+export { EnhancementControls } from './EnhancementControls';
+export { SnippetEnhancementEditor } from './SnippetEnhancementEditor';
+export { EnhancementInspector } from './EnhancementInspector';
+export { TemplateSetEditor } from './TemplateSetEditor';
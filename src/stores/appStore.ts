@@ -5,7 +5,7 @@
 // =============================================================================
 
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import type {
   AppState,
   AppActions,
@@ -21,15 +21,80 @@ import type {
   ExportFormat,
   ProgressInfo,
   AppSettings,
+  ImageEnhancement,
   TextElement,
   ShapeElement,
   ShapeType,
+  WorkspaceState,
+  GutterMode,
+  ImportOptions,
+  EnhancementPreset,
+  ColorDropout,
 } from '../types';
 import { getPaperDimensions } from '../types';
-import { generateId, mmToPx } from '../utils/helpers';
-import { loadPDF, renderPageToImage, extractTextFromPage } from '../utils/pdfUtils';
+import { generateId, mmToPx, isAbortError, rotateRect } from '../utils/helpers';
+import {
+  loadPDF,
+  PDFPasswordError,
+  type PDFData,
+  normalizeRotation,
+  renderPageToImage,
+  renderPageThumbnail,
+  extractTextFromPage,
+  THUMBNAIL_WIDTH,
+} from '../utils/pdfUtils';
 import { runOCR } from '../utils/ocrUtils';
+import { saveImage, readImageBlob, loadImageElement, loadImageData } from '../utils/imageStore';
+import { processImage } from '../utils/imageProcessing';
+import { DEFAULT_BINARIZATION_WINDOW, NO_ENHANCEMENT, hasColorDropout, getColorDropoutEnhancement } from '../utils/imageFilters';
+import {
+  registerDocument,
+  openDocument,
+  closeDocument,
+  closeAllDocuments,
+  touchPage,
+  retainPage,
+  releasePage,
+  scheduleRender,
+  selectPagesToEvict,
+  getRenderVariant,
+  getRenderOptions,
+  type SourceDocument,
+} from '../utils/pageCache';
+import {
+  isImageFile,
+  isImageDocument,
+  loadImageDocument,
+  renderImagePage,
+  renderImageThumbnail,
+} from '../utils/imageSourceUtils';
+import {
+  isSpreadPage,
+  detectGutter,
+  splitSpreadPage,
+  mapAreaToHalf,
+  GUTTER_DETECTION_WIDTH,
+} from '../utils/spreadUtils';
 import { exportToText, exportToMarkdown, exportToDocx, exportToPDF } from '../utils/exportUtils';
+import {
+  createWorkspaceStorage,
+  listProjects,
+  createStoredProject,
+  renameStoredProject,
+  duplicateStoredProject,
+  deleteStoredProject,
+  getActiveProjectId,
+  flushWorkspace,
+  loadWorkspace,
+  activateProject,
+  getRecoverableSession,
+  markSessionClean,
+  deleteImagesIfUnreferenced,
+  DEFAULT_PROJECT_NAME,
+} from '../utils/storageUtils';
+import { createProjectBundle, readProjectBundle, PROJECT_FILE_EXTENSION } from '../utils/projectUtils';
+import { findContentBounds, DEFAULT_TRIM_PADDING } from '../utils/regionDetection';
+import { paintOutsideShape, mapCropShape, mapAreas, rotatePoint, offsetAndScale } from '../utils/cropShapeUtils';
 import {
   startMeasure,
   clearMetrics,
@@ -39,6 +104,41 @@ import {
   type BenchmarkResult,
 } from '../utils/performanceUtils';
 
+// 取り込み時の標準の補正
+const STANDARD_IMPORT_ENHANCEMENT: ImageEnhancement = {
+  ...NO_ENHANCEMENT,
+  brightness: 1.1,      // 少し明るく
+  textDarkness: 0.8,    // 文字を濃く
+  autoLevels: true,     // 白を白に、黒を黒に
+  deskew: true,         // スキャンの傾きを補正
+};
+
+// 補正を記録していないファイル（プリセットより前に取り込んだもの）の補正
+// 傾き補正を加えるとページ画像が回転して切り抜き済みのスニペットの範囲とずれるため、取り込んだときと同じく補正しない
+const LEGACY_IMPORT_ENHANCEMENT: ImageEnhancement = { ...STANDARD_IMPORT_ENHANCEMENT, deskew: false };
+
+// 取り込み時の補正プリセット（初期値、設定画面で編集・追加できる）
+const DEFAULT_ENHANCEMENT_PRESETS: EnhancementPreset[] = [
+  { id: 'standard', name: '標準（スキャン）', enhancement: STANDARD_IMPORT_ENHANCEMENT },
+  {
+    id: 'faint',
+    name: '薄いコピー',
+    enhancement: {
+      ...NO_ENHANCEMENT,
+      contrast: 1.3,      // 濃淡の差を広げる
+      brightness: 1.05,
+      textDarkness: 0.6,  // 文字をかなり濃く
+      autoLevels: true,
+      unsharpMask: true,  // かすれた文字の輪郭を強調
+      grayscale: true,    // 紙の黄ばみを除く
+      deskew: true,
+      despeckle: true,    // コピーの細かい点を除く
+      removeEdgeShadow: true, // 綴じ目の影を除く
+    },
+  },
+  { id: 'digital', name: 'デジタルPDF（補正なし）', enhancement: NO_ENHANCEMENT },
+];
+
 const DEFAULT_SETTINGS: AppSettings = {
   rubyBracketMode: true,
   showGrid: true,
@@ -47,21 +147,289 @@ const DEFAULT_SETTINGS: AppSettings = {
   defaultPaperOrientation: 'landscape',
   writingDirection: 'vertical', // デフォルトは縦書き（A3横）
   pdfRenderScale: 2, // PDF読み込み時の解像度スケール（デフォルト2倍）
-  imageEnhancement: {
-    contrast: 1.0,    // コントラスト（1.0がデフォルト）
-    brightness: 1.0,  // 明るさ（1.0がデフォルト）
-    textDarkness: 1.0, // 文字の濃さ（1.0がデフォルト、小さいほど濃い）
-    sharpness: false, // シャープ化（デフォルトOFF）
-    autoLevels: false, // オートレベル（デフォルトOFF）
-    unsharpMask: false, // アンシャープマスク（デフォルトOFF）
-    grayscale: false,  // グレースケール（デフォルトOFF）
-  },
+  imageEnhancement: NO_ENHANCEMENT, // 補正なし
   layoutAnchor: 'right-top', // デフォルトは右上（縦書き用）
   showSnippetBorder: false, // スニペット縁取り（デフォルトOFF）
   snippetBorderWidth: 0.5, // 縁取り幅（mm）
   gridPattern: '4x2', // グリッドパターン（配置・詰め共通）
+  enhancementPresets: DEFAULT_ENHANCEMENT_PRESETS, // 取り込み時の補正プリセット
+  importPresetId: 'standard', // 取り込み時は標準の補正
+  ocrBinarization: 'none', // OCR前の二値化（デフォルトOFF）
+  ocrBinarizationWindow: DEFAULT_BINARIZATION_WINDOW,
+  autoTrim: false, // 切り出し時の余白詰め（デフォルトOFF）
+  autoTrimPadding: DEFAULT_TRIM_PADDING,
 };
 
+// 手動で指定できる傾き補正の角度（度）
+const MAX_MANUAL_DESKEW_ANGLE = 15;
+
+// 実行中の処理を中断するためのコントローラー（ProgressOverlayのキャンセル）
+let processingController: AbortController | null = null;
+
+/**
+ * 処理を開始し、中断用のシグナルを返す
+ */
+function beginProcessing(): AbortSignal {
+  processingController?.abort();
+  processingController = new AbortController();
+  return processingController.signal;
+}
+
+/**
+ * 処理を終える（キャンセル後に別の処理が始まっている場合は何もしない）
+ */
+function endProcessing(signal: AbortSignal): boolean {
+  if (processingController?.signal !== signal) return false;
+  processingController = null;
+  return true;
+}
+
+/**
+ * 読み込んだファイルのページを未描画・OCR前の状態で作成
+ */
+function createPendingPages(pageInfos: Array<{ width: number; height: number; rotation?: number }>): PDFPage[] {
+  return pageInfos.map((info, i) => ({
+    pageNumber: i + 1,
+    width: info.width,
+    height: info.height,
+    rotation: info.rotation,
+    ocrStatus: 'pending',
+    ocrProgress: 0,
+  }));
+}
+
+/**
+ * 開き直そうとしたPDFにパスワードが必要な場合、ファイルをパスワード入力待ちにする
+ * （パスワードは保存しないため、再読み込み後は入力し直す）
+ */
+function lockOnPasswordError(fileId: string) {
+  return (error: unknown): never => {
+    if (error instanceof PDFPasswordError) {
+      useAppStore.setState((state) => ({
+        files: state.files.map((f) =>
+          f.id === fileId ? { ...f, status: 'locked' as const, error: error.message } : f
+        ),
+      }));
+    }
+    throw error;
+  };
+}
+
+/**
+ * 見開きのページののどの位置を求める（ページ番号 → 幅に対する割合）
+ * @param onPage 検出するページごとに呼ばれる（進捗表示用）
+ */
+async function detectSpreadGutters(
+  file: PDFFile,
+  mode: GutterMode,
+  signal: AbortSignal,
+  onPage?: (current: number, total: number) => void
+): Promise<Map<number, number>> {
+  const gutters = new Map<number, number>();
+  const spreads = file.pages.filter(isSpreadPage);
+  if (mode === 'center') {
+    spreads.forEach((page) => gutters.set(page.pageNumber, 0.5));
+    return gutters;
+  }
+
+  const source = await openDocument(file).catch(lockOnPasswordError(file.id));
+  for (let i = 0; i < spreads.length; i++) {
+    signal.throwIfAborted();
+    onPage?.(i + 1, spreads.length);
+    const page = spreads[i];
+    // 補正・傾き補正をせず、表示している向きのまま縮小して描画する
+    const sourcePageNumber = page.sourcePageNumber ?? page.pageNumber;
+    const options = { userRotation: page.userRotation, deskewAngle: 0, signal };
+    const image = isImageDocument(source)
+      ? await renderImageThumbnail(source, sourcePageNumber, GUTTER_DETECTION_WIDTH, undefined, options)
+      : await renderPageThumbnail(source, sourcePageNumber, GUTTER_DETECTION_WIDTH, undefined, options);
+    gutters.set(page.pageNumber, await detectGutter(image));
+  }
+  return gutters;
+}
+
+/**
+ * 見開きのページを分割し、ページ番号を振り直す
+ * 分割したページから切り出したスニペットは、中心が入る側のページに付け替える（のどをまたぐ範囲はそのページの中に縮める）
+ * @param gutters 分割するページののどの位置（ページ番号 → 幅に対する割合）
+ */
+function splitFileSpreads(state: AppState, fileId: string, gutters: Map<number, number>): Partial<AppState> {
+  const file = state.files.find((f) => f.id === fileId);
+  if (!file || gutters.size === 0) return {};
+
+  const pages: PDFPage[] = [];
+  // 分割前のページ番号 → 分割後のページ番号（分割しないページは左右とも同じ）
+  const renumbered = new Map<number, { left: number; right: number }>();
+  for (const page of file.pages) {
+    const gutter = gutters.get(page.pageNumber);
+    if (gutter === undefined) {
+      // 番号が変わっても同じ元ページを描画するよう、元のページ番号を残す
+      pages.push({ ...page, pageNumber: pages.length + 1, sourcePageNumber: page.sourcePageNumber ?? page.pageNumber });
+      renumbered.set(page.pageNumber, { left: pages.length, right: pages.length });
+      continue;
+    }
+    const numbers = { left: 0, right: 0 };
+    for (const half of splitSpreadPage(page, gutter, state.settings.writingDirection)) {
+      pages.push({ ...half.page, pageNumber: pages.length + 1 });
+      numbers[half.side] = pages.length;
+    }
+    renumbered.set(page.pageNumber, numbers);
+  }
+
+  return {
+    files: state.files.map((f) => (f.id === fileId ? { ...f, pages, pageCount: pages.length } : f)),
+    snippets: state.snippets.map((s) => {
+      const numbers = s.sourceFileId === fileId ? renumbered.get(s.sourcePageNumber) : undefined;
+      if (!numbers) return s;
+      const gutter = gutters.get(s.sourcePageNumber);
+      const page = file.pages.find((p) => p.pageNumber === s.sourcePageNumber);
+      if (gutter === undefined || !page) return { ...s, sourcePageNumber: numbers.left };
+      const scale = s.renderScale ?? page.renderScale ?? state.settings.pdfRenderScale;
+      const { side, area, shiftX } = mapAreaToHalf(s.cropArea, page.width * scale * gutter, page.width * scale);
+      // 縮めた範囲の左上を原点に、形・マスクの座標を直す
+      const shift = offsetAndScale(-shiftX, 0);
+      return {
+        ...s,
+        sourcePageNumber: numbers[side],
+        cropArea: area,
+        ...(shiftX && s.cropShape ? { cropShape: mapCropShape(s.cropShape, shift) } : {}),
+        ...(shiftX && s.masks ? { masks: mapAreas(s.masks, shift) } : {}),
+      };
+    }),
+    ...(state.activeFileId === fileId ? { activePageNumber: 1, selectedPageNumbers: [] } : {}),
+  };
+}
+
+/**
+ * 保存済みの設定を既定値とマージ（保存後に追加された設定項目を補完）
+ */
+function withDefaultSettings(settings?: Partial<AppSettings>): AppSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...settings,
+    imageEnhancement: {
+      ...DEFAULT_SETTINGS.imageEnhancement,
+      ...settings?.imageEnhancement,
+    },
+    enhancementPresets: (settings?.enhancementPresets ?? DEFAULT_ENHANCEMENT_PRESETS).map((preset) => ({
+      ...preset,
+      enhancement: { ...DEFAULT_SETTINGS.imageEnhancement, ...preset.enhancement },
+    })),
+  };
+}
+
+/**
+ * 補正プリセットを取得（見つからない場合は最初のプリセット）
+ */
+function findEnhancementPreset(settings: AppSettings, presetId: string | undefined): EnhancementPreset | undefined {
+  return settings.enhancementPresets.find((p) => p.id === presetId) ?? settings.enhancementPresets[0];
+}
+
+/**
+ * 描き直すために外したページ画像・サムネイルを削除（ほかのプロジェクト・スニペットから参照されていないものだけ）
+ * 状態から外した後に呼ぶ
+ */
+function discardPageImages(imageIds: (string | undefined)[]): void {
+  const ids = imageIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+  deleteImagesIfUnreferenced(ids).catch((error) => {
+    console.error('ページ画像の削除に失敗しました:', error);
+  });
+}
+
+/**
+ * 配置済みのスニペットの大きさを縦横それぞれの倍率で変える（左上の位置はそのまま）
+ */
+function scalePlacedSnippets(layoutPages: LayoutPage[], snippetId: string, scaleX: number, scaleY: number): LayoutPage[] {
+  return layoutPages.map((page) =>
+    page.snippets.some((placed) => placed.snippetId === snippetId)
+      ? {
+          ...page,
+          snippets: page.snippets.map((placed) =>
+            placed.snippetId === snippetId
+              ? { ...placed, size: { width: placed.size.width * scaleX, height: placed.size.height * scaleY } }
+              : placed
+          ),
+        }
+      : page
+  );
+}
+
+/**
+ * ページから切り出したスニペットがあるか
+ */
+function hasPageSnippets(snippets: Snippet[], fileId: string, pageNumber: number): boolean {
+  return snippets.some((s) => s.sourceFileId === fileId && s.sourcePageNumber === pageNumber);
+}
+
+/**
+ * ファイルのページ画像の描画に使う補正
+ */
+function getFileEnhancement(file: PDFFile): ImageEnhancement {
+  return file.enhancement ?? LEGACY_IMPORT_ENHANCEMENT;
+}
+
+/**
+ * ページ画像の描画に使う補正（ページごとの色消しがあればファイルの補正より優先）
+ */
+function getPageEnhancement(file: PDFFile, page: PDFPage): ImageEnhancement {
+  const enhancement = getFileEnhancement(file);
+  return page.colorDropout ? { ...enhancement, colorDropout: page.colorDropout } : enhancement;
+}
+
+/**
+ * ページ画像からスニペットの範囲を切り出して補正を適用
+ * ページ画像の解像度スケールが切り出し時と違う場合も、元のスニペットと同じ大きさの画像にする
+ * 形の外・マスクは白く塗る
+ */
+async function cropSnippetImage(
+  snippet: Snippet,
+  pageImageId: string,
+  pageScale: number | undefined,
+  enhancement: ImageEnhancement | undefined
+): Promise<Blob> {
+  const ratio = pageScale && snippet.renderScale ? pageScale / snippet.renderScale : 1;
+  const { x, y, width, height } = snippet.cropArea;
+  const img = await loadImageElement(pageImageId);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(img, x * ratio, y * ratio, width * ratio, height * ratio, 0, 0, canvas.width, canvas.height);
+  paintOutsideShape(ctx, snippet.cropShape, snippet.masks);
+  return (await processImage(canvas, enhancement)).blob;
+}
+
+/**
+ * OCRに渡すページ画像（設定で有効な場合は二値化してから読み取る、ページ画像自体は変えない）
+ */
+async function readOCRImage(imageId: string, settings: AppSettings): Promise<Blob> {
+  const image = await readImageBlob(imageId);
+  if (settings.ocrBinarization === 'none') return image;
+  const processed = await processImage(image, {
+    ...DEFAULT_SETTINGS.imageEnhancement,
+    binarization: settings.ocrBinarization,
+    binarizationWindow: settings.ocrBinarizationWindow,
+  });
+  return processed.blob;
+}
+
+/**
+ * 永続化・プロジェクト保存の対象となる作業状態を取り出す
+ */
+function selectWorkspace(state: AppState): WorkspaceState {
+  return {
+    files: state.files,
+    activeFileId: state.activeFileId,
+    activePageNumber: state.activePageNumber,
+    snippets: state.snippets,
+    layoutPages: state.layoutPages,
+    activeLayoutPageId: state.activeLayoutPageId,
+    settings: state.settings,
+  };
+}
+
 interface Store extends AppState, AppActions {
   // パフォーマンス計測
   benchmarkResult: BenchmarkResult | null;
@@ -84,6 +452,9 @@ export const useAppStore = create<Store>()(
   persist(
     (set, get) => ({
       // 初期状態
+      projects: [],
+      activeProjectId: null,
+      recoverableSession: null,
       files: [],
       activeFileId: null,
       activePageNumber: 1,
@@ -104,14 +475,108 @@ export const useAppStore = create<Store>()(
       layoutHistory: [],
       reCropSnippetId: null,
 
+      // プロジェクト管理
+      loadProjects: async () => {
+        const projects = await listProjects();
+        set({ projects, activeProjectId: getActiveProjectId() });
+      },
+
+      createProject: async (name: string) => {
+        const project = await createStoredProject(name.trim() || DEFAULT_PROJECT_NAME);
+        await get().switchProject(project.id);
+      },
+
+      renameProject: async (projectId: string, name: string) => {
+        if (!name.trim()) return;
+        await renameStoredProject(projectId, name.trim());
+        await get().loadProjects();
+      },
+
+      duplicateProject: async (projectId: string) => {
+        // 開いているプロジェクトは保存待ちの変更を書き込んでから複製
+        await flushWorkspace();
+        const source = get().projects.find((p) => p.id === projectId);
+        await duplicateStoredProject(projectId, `${source?.name ?? DEFAULT_PROJECT_NAME} のコピー`);
+        await get().loadProjects();
+      },
+
+      deleteProject: async (projectId: string) => {
+        if (projectId === get().activeProjectId) {
+          // 開いているプロジェクトを削除する場合は別のプロジェクトに切り替える
+          const next = get().projects.find((p) => p.id !== projectId);
+          if (next) {
+            await get().switchProject(next.id);
+          } else {
+            await get().createProject(DEFAULT_PROJECT_NAME);
+          }
+        }
+        await deleteStoredProject(projectId);
+        await get().loadProjects();
+      },
+
+      // 作業状態をまるごと別プロジェクトのものに入れ替える
+      switchProject: async (projectId: string) => {
+        if (get().isProcessing) {
+          throw new Error('処理中はプロジェクトを切り替えられません');
+        }
+        if (projectId === get().activeProjectId) return;
+
+        await flushWorkspace();
+        const workspace = await loadWorkspace(projectId);
+        closeAllDocuments();
+        activateProject(projectId, workspace);
+        set({
+          files: [],
+          activeFileId: null,
+          activePageNumber: 1,
+          snippets: [],
+          layoutPages: [],
+          activeLayoutPageId: null,
+          ...workspace,
+          settings: withDefaultSettings(workspace?.settings ?? get().settings),
+          activeProjectId: projectId,
+          selectedSnippetId: null,
+          selectedSnippetIds: [],
+          selectedPageNumbers: [],
+          selectedTextId: null,
+          selectedShapeId: null,
+          layoutHistory: [],
+          reCropSnippetId: null,
+        });
+        await get().loadProjects();
+      },
+
+      // 前回正常に終了しなかったセッションを開く
+      restoreSession: async () => {
+        const session = get().recoverableSession;
+        if (!session) return;
+        await get().switchProject(session.projectId);
+        set({ recoverableSession: null });
+        await markSessionClean();
+      },
+
+      // 復元せずに新しいプロジェクトで始める（前回の内容はプロジェクト一覧に残る）
+      startNewSession: async () => {
+        set({ recoverableSession: null });
+        await get().createProject(DEFAULT_PROJECT_NAME);
+        await markSessionClean();
+      },
+
       // ファイル操作
       // P1-001: PDF読み込み（単体）
       // P1-002: PDF読み込み（複数一括）
-      addFiles: async (files: File[]) => {
+      addFiles: async (files: File[], options: ImportOptions = {}) => {
+        const signal = beginProcessing();
         set({ isProcessing: true });
-        const { isBenchmarkMode } = get();
+        const { isBenchmarkMode, settings } = get();
+        // 取り込み時の補正プリセット（ファイルには補正内容の写しを保存する）
+        const preset = findEnhancementPreset(settings, options.enhancementPresetId ?? settings.importPresetId);
+        const presetFields = preset
+          ? { enhancementPresetId: preset.id, enhancement: { ...preset.enhancement } }
+          : {};
 
         for (let i = 0; i < files.length; i++) {
+          if (signal.aborted) break;
           const file = files[i];
           set({
             progress: {
@@ -123,71 +588,73 @@ export const useAppStore = create<Store>()(
 
           try {
             const endPdfLoad = isBenchmarkMode ? startMeasure(`pdf-load-${file.name}`) : null;
-            const pdfData = await loadPDF(file);
-            endPdfLoad?.({ fileName: file.name, pages: pdfData.numPages });
-
-            const pages: PDFPage[] = [];
-
-            for (let j = 0; j < pdfData.numPages; j++) {
-              const pageNum = j + 1;
-              set({
-                progress: {
-                  current: i + 1,
-                  total: files.length,
-                  message: `${file.name} - ページ ${pageNum}/${pdfData.numPages} を処理中...`,
-                },
-              });
-
-              const endRender = isBenchmarkMode ? startMeasure(`render-page-${pageNum}`) : null;
-              const { settings } = get();
-              // 取り込み時のデフォルト補正
-              const importEnhancement = {
-                contrast: 1.0,
-                brightness: 1.1,      // 少し明るく
-                textDarkness: 0.8,    // 文字を濃く
-                sharpness: false,
-                autoLevels: true,     // 白を白に、黒を黒に
-                unsharpMask: false,
-                grayscale: false,
-              };
-              const imageData = await renderPageToImage(
-                pdfData.pdf,
-                pageNum,
-                settings.pdfRenderScale,
-                importEnhancement
-              );
-              endRender?.({ page: pageNum });
-
-              const endExtract = isBenchmarkMode ? startMeasure(`extract-text-${pageNum}`) : null;
-              const textContent = await extractTextFromPage(pdfData.pdf, pageNum);
-              endExtract?.({ page: pageNum, hasText: !!textContent });
-
-              pages.push({
-                pageNumber: pageNum,
-                width: pdfData.width,
-                height: pdfData.height,
-                imageData,
-                textContent: textContent || '',
-                ocrStatus: textContent ? 'completed' : 'pending',
-                ocrProgress: textContent ? 100 : 0,
-              });
+            let source: SourceDocument;
+            let pageInfos: Array<{ width: number; height: number; rotation?: number }>;
+            if (isImageFile(file)) {
+              // 画像ファイルは1枚（TIFFは1ページ）を1ページとして扱う
+              const imageDocument = await loadImageDocument(file);
+              source = imageDocument;
+              pageInfos = imageDocument.pages;
+            } else {
+              const pdfData = await loadPDF(file);
+              source = pdfData.pdf;
+              pageInfos = pdfData.pages;
             }
+            endPdfLoad?.({ fileName: file.name, pages: pageInfos.length });
+
+            // ページ画像は必要になった時点で描画する（renderPage）
+            const pages = createPendingPages(pageInfos);
 
             const pdfFile: PDFFile = {
               id: generateId(),
               name: file.name,
               file,
-              pageCount: pdfData.numPages,
+              pageCount: pages.length,
               pages,
               status: 'completed',
               createdAt: new Date(),
+              sourceType: isImageDocument(source) ? 'image' : 'pdf',
+              ...presetFields,
             };
+            registerDocument(pdfFile.id, source);
 
             set((state) => ({
               files: [...state.files, pdfFile],
               activeFileId: state.activeFileId || pdfFile.id,
             }));
+
+            // 見開きの分割（取り込みオプション）
+            if (options.splitSpreads) {
+              try {
+                const gutters = await detectSpreadGutters(pdfFile, options.splitSpreads, signal, (current, total) => {
+                  set({ progress: { current, total, message: `${file.name} の見開きを分割中...` } });
+                });
+                set((state) => splitFileSpreads(state, pdfFile.id, gutters));
+              } catch (error) {
+                if (isAbortError(error)) break;
+                // 分割できなくてもファイルは取り込んだままにする（ファイルメニューから分割し直せる）
+                console.error(`見開きの分割に失敗しました (${file.name}):`, error);
+              }
+            }
           } catch (error) {
+            // パスワード保護されたPDFはパスワードの入力を待つ（Sidebarから開き直す）
+            if (error instanceof PDFPasswordError) {
+              const lockedFile: PDFFile = {
+                id: generateId(),
+                name: file.name,
+                file,
+                pageCount: 0,
+                pages: [],
+                status: 'locked',
+                error: error.message,
+                createdAt: new Date(),
+                sourceType: 'pdf',
+                ...presetFields,
+              };
+              set((state) => ({ files: [...state.files, lockedFile] }));
+              continue;
+            }
+
             console.error(`Error loading ${file.name}:`, error);
             const errorFile: PDFFile = {
               id: generateId(),
@@ -198,15 +665,184 @@ export const useAppStore = create<Store>()(
               status: 'error',
               error: error instanceof Error ? error.message : '読み込みエラー',
               createdAt: new Date(),
+              sourceType: isImageFile(file) ? 'image' : 'pdf',
             };
             set((state) => ({ files: [...state.files, errorFile] }));
           }
         }
 
-        set({ isProcessing: false, progress: null });
+        if (endProcessing(signal)) set({ isProcessing: false, progress: null });
+      },
+
+      // パスワード保護されたPDFを開く（パスワードが違う場合はfalse）
+      unlockFile: async (fileId: string, password: string) => {
+        const file = get().files.find((f) => f.id === fileId);
+        if (!file) return false;
+
+        let pdfData: PDFData;
+        try {
+          pdfData = await loadPDF(file.file, password);
+        } catch (error) {
+          set((state) => ({
+            files: state.files.map((f) =>
+              f.id === fileId
+                ? {
+                    ...f,
+                    status: error instanceof PDFPasswordError ? ('locked' as const) : ('error' as const),
+                    error: error instanceof Error ? error.message : '読み込みエラー',
+                  }
+                : f
+            ),
+          }));
+          return false;
+        }
+
+        closeDocument(fileId);
+        registerDocument(fileId, pdfData.pdf, password);
+
+        // 取り込み時に開けなかったファイルはここでページを作る
+        set((state) => ({
+          files: state.files.map((f) =>
+            f.id === fileId
+              ? {
+                  ...f,
+                  status: 'completed' as const,
+                  error: undefined,
+                  pageCount: pdfData.numPages,
+                  pages: f.pages.length > 0 ? f.pages : createPendingPages(pdfData.pages),
+                }
+              : f
+          ),
+          activeFileId: state.activeFileId || fileId,
+        }));
+        return true;
+      },
+
+      // ページ画像を描画（描画済みならそのIDを返す）
+      // デジタルPDFのテキストも初回描画時にあわせて抽出する
+      renderPage: async (fileId: string, pageNumber: number) => {
+        const targetFile = get().files.find((f) => f.id === fileId);
+        const page = targetFile?.pages.find((p) => p.pageNumber === pageNumber);
+        if (!targetFile || !page) return undefined;
+        touchPage(fileId, pageNumber);
+        if (page.imageId) return page.imageId;
+
+        return scheduleRender(fileId, pageNumber, 'page', async () => {
+          const file = get().files.find((f) => f.id === fileId);
+          const current = file?.pages.find((p) => p.pageNumber === pageNumber);
+          if (!file || !current) return undefined;
+          if (current.imageId) return current.imageId;
+
+          const { settings, isBenchmarkMode } = get();
+          const source = await openDocument(file).catch(lockOnPasswordError(fileId));
+
+          const endRender = isBenchmarkMode ? startMeasure(`render-page-${pageNumber}`) : null;
+          // 見開きを分割したページは元のページから切り出す
+          const sourcePageNumber = current.sourcePageNumber ?? pageNumber;
+          const renderOptions = getRenderOptions(current);
+          const imageId = await saveImage(
+            isImageDocument(source)
+              ? await renderImagePage(source, sourcePageNumber, settings.pdfRenderScale, getPageEnhancement(file, current), renderOptions)
+              : await renderPageToImage(source, sourcePageNumber, settings.pdfRenderScale, getPageEnhancement(file, current), renderOptions)
+          );
+          endRender?.({ page: pageNumber });
+
+          // 画像ファイルにはテキストがないためOCRで読み取る
+          let textContent = current.textContent;
+          // 見開きを分割したページは元のページ全体のテキストになるため抽出しない
+          if (textContent === undefined && !isImageDocument(source) && !current.slice) {
+            const endExtract = isBenchmarkMode ? startMeasure(`extract-text-${pageNumber}`) : null;
+            textContent = await extractTextFromPage(source, sourcePageNumber);
+            endExtract?.({ page: pageNumber, hasText: !!textContent });
+          }
+
+          set((state) => ({
+            files: state.files.map((f) =>
+              f.id === fileId
+                ? {
+                    ...f,
+                    pages: f.pages.map((p) => {
+                      // 描画中に回転・傾き補正・ファイルの補正が変更された場合は捨てる
+                      if (p.pageNumber !== pageNumber || getRenderVariant(f, p) !== getRenderVariant(file, current)) return p;
+                      const rendered = { ...p, imageId, renderScale: settings.pdfRenderScale };
+                      if (p.textContent !== undefined || !textContent) return rendered;
+                      return { ...rendered, textContent, ocrStatus: 'completed' as const, ocrProgress: 100 };
+                    }),
+                  }
+                : f
+            ),
+          }));
+
+          // 上限を超えた描画済みページを破棄（画像も削除して、スクロールするたびに画像が増えないようにする）
+          const evicted = selectPagesToEvict(get().files);
+          if (evicted.length > 0) {
+            const evictedImageIds = evicted.map(
+              (e) => get().files.find((f) => f.id === e.fileId)?.pages.find((p) => p.pageNumber === e.pageNumber)?.imageId
+            );
+            set((state) => ({
+              files: state.files.map((f) =>
+                evicted.some((e) => e.fileId === f.id)
+                  ? {
+                      ...f,
+                      pages: f.pages.map((p) =>
+                        evicted.some((e) => e.fileId === f.id && e.pageNumber === p.pageNumber)
+                          ? { ...p, imageId: undefined, renderScale: undefined }
+                          : p
+                      ),
+                    }
+                  : f
+              ),
+            }));
+            discardPageImages(evictedImageIds);
+          }
+
+          return imageId;
+        }, getRenderVariant(targetFile, page));
+      },
+
+      // 一覧表示用のサムネイルを描画（描画済みならそのIDを返す）
+      renderThumbnail: async (fileId: string, pageNumber: number) => {
+        const targetFile = get().files.find((f) => f.id === fileId);
+        const page = targetFile?.pages.find((p) => p.pageNumber === pageNumber);
+        if (!targetFile || !page) return undefined;
+        if (page.thumbnailId) return page.thumbnailId;
+
+        return scheduleRender(fileId, pageNumber, 'thumbnail', async () => {
+          const file = get().files.find((f) => f.id === fileId);
+          const current = file?.pages.find((p) => p.pageNumber === pageNumber);
+          if (!file || !current) return undefined;
+          if (current.thumbnailId) return current.thumbnailId;
+
+          const source = await openDocument(file).catch(lockOnPasswordError(fileId));
+          const sourcePageNumber = current.sourcePageNumber ?? pageNumber;
+          const renderOptions = getRenderOptions(current);
+          const thumbnailId = await saveImage(
+            isImageDocument(source)
+              ? await renderImageThumbnail(source, sourcePageNumber, THUMBNAIL_WIDTH, getPageEnhancement(file, current), renderOptions)
+              : await renderPageThumbnail(source, sourcePageNumber, THUMBNAIL_WIDTH, getPageEnhancement(file, current), renderOptions)
+          );
+
+          set((state) => ({
+            files: state.files.map((f) =>
+              f.id === fileId
+                ? {
+                    ...f,
+                    pages: f.pages.map((p) =>
+                      p.pageNumber === pageNumber && getRenderVariant(f, p) === getRenderVariant(file, current)
+                        ? { ...p, thumbnailId }
+                        : p
+                    ),
+                  }
+                : f
+            ),
+          }));
+
+          return thumbnailId;
+        }, getRenderVariant(targetFile, page));
       },
 
       removeFile: (fileId: string) => {
+        closeDocument(fileId);
         set((state) => ({
           files: state.files.filter((f) => f.id !== fileId),
           activeFileId: state.activeFileId === fileId ? null : state.activeFileId,
@@ -237,6 +873,202 @@ export const useAppStore = create<Store>()(
         }));
       },
 
+      // ページを時計回りに回転（描画済みの画像は破棄して描き直す）
+      // このページから切り出したスニペットのトリミング範囲・OCRブロックの座標も回転に合わせる
+      rotatePage: (fileId: string, pageNumber: number, degrees: number) => {
+        const delta = normalizeRotation(degrees);
+        if (delta === 0 || delta % 90 !== 0) return;
+        const page = get().files.find((f) => f.id === fileId)?.pages.find((p) => p.pageNumber === pageNumber);
+        if (!page) return;
+
+        // 座標は描画した画像のピクセル単位
+        const pageScale = page.renderScale ?? get().settings.pdfRenderScale;
+        const isQuarterTurn = delta !== 180;
+
+        set((state) => ({
+          files: state.files.map((f) =>
+            f.id === fileId
+              ? {
+                  ...f,
+                  pages: f.pages.map((p) =>
+                    p.pageNumber === pageNumber
+                      ? {
+                          ...p,
+                          userRotation: normalizeRotation((p.userRotation ?? 0) + delta),
+                          width: isQuarterTurn ? p.height : p.width,
+                          height: isQuarterTurn ? p.width : p.height,
+                          imageId: undefined,
+                          renderScale: undefined,
+                          thumbnailId: undefined,
+                          ocrBlocks: p.ocrBlocks?.map((block) => {
+                            const rect = rotateRect(
+                              {
+                                x: block.bbox.x0,
+                                y: block.bbox.y0,
+                                width: block.bbox.x1 - block.bbox.x0,
+                                height: block.bbox.y1 - block.bbox.y0,
+                              },
+                              delta,
+                              p.width * pageScale,
+                              p.height * pageScale
+                            );
+                            return {
+                              ...block,
+                              bbox: { x0: rect.x, y0: rect.y, x1: rect.x + rect.width, y1: rect.y + rect.height },
+                            };
+                          }),
+                        }
+                      : p
+                  ),
+                }
+              : f
+          ),
+          snippets: state.snippets.map((s) => {
+            if (s.sourceFileId !== fileId || s.sourcePageNumber !== pageNumber) return s;
+            const scale = s.renderScale ?? pageScale;
+            // 形・マスクは切り出し範囲の中の座標なので、切り出し範囲ごと回す
+            const rotate = rotatePoint(delta, s.cropArea.width, s.cropArea.height);
+            return {
+              ...s,
+              cropArea: rotateRect(s.cropArea, delta, page.width * scale, page.height * scale),
+              ...(s.cropShape ? { cropShape: mapCropShape(s.cropShape, rotate) } : {}),
+              ...(s.masks ? { masks: mapAreas(s.masks, rotate) } : {}),
+            };
+          }),
+        }));
+        discardPageImages([page.imageId, page.thumbnailId]);
+      },
+
+      // 傾き補正の角度を手動で指定（ページ画像は描画し直す）
+      // 切り出したスニペットの範囲は補正前の画像の座標のため、スニペットがあるページは変えない
+      setPageDeskewAngle: (fileId: string, pageNumber: number, angle: number | undefined) => {
+        if (angle !== undefined && !Number.isFinite(angle)) return;
+        if (hasPageSnippets(get().snippets, fileId, pageNumber)) return;
+        const deskewAngle =
+          angle === undefined ? undefined : Math.max(-MAX_MANUAL_DESKEW_ANGLE, Math.min(MAX_MANUAL_DESKEW_ANGLE, angle));
+        const page = get().files.find((f) => f.id === fileId)?.pages.find((p) => p.pageNumber === pageNumber);
+        if (!page || page.deskewAngle === deskewAngle) return;
+        set((state) => ({
+          files: state.files.map((f) =>
+            f.id === fileId
+              ? {
+                  ...f,
+                  pages: f.pages.map((p) =>
+                    p.pageNumber === pageNumber && p.deskewAngle !== deskewAngle
+                      ? { ...p, deskewAngle, imageId: undefined, renderScale: undefined, thumbnailId: undefined }
+                      : p
+                  ),
+                }
+              : f
+          ),
+        }));
+        discardPageImages([page.imageId, page.thumbnailId]);
+      },
+
+      // 見開きのページを左右の2ページに分割
+      splitSpreads: async (fileId: string, mode: GutterMode = 'detect') => {
+        const file = get().files.find((f) => f.id === fileId);
+        if (!file || file.status !== 'completed') return;
+
+        await get().runTask('見開きを分割中...', async (signal, onProgress) => {
+          const gutters = await detectSpreadGutters(file, mode, signal, (current, total) => {
+            onProgress({ current, total, message: `見開きを分割中: ${current}/${total}` });
+          });
+          // 検出中にファイルが変更された場合は分割しない
+          if (get().files.find((f) => f.id === fileId)?.pages !== file.pages) return;
+          const areas = new Map(get().snippets.map((s) => [s.id, s.cropArea]));
+          set((state) => splitFileSpreads(state, fileId, gutters));
+
+          // のどをまたいでいたスニペットは、縮めた範囲で分割後のページから切り出し直す
+          const clipped = get().snippets.filter((s) => {
+            const area = areas.get(s.id);
+            return s.sourceFileId === fileId && area && area.width !== s.cropArea.width;
+          });
+          for (let i = 0; i < clipped.length; i++) {
+            if (signal.aborted) break;
+            onProgress({ current: i + 1, total: clipped.length, message: `スニペットを切り出し直しています: ${i + 1}/${clipped.length}` });
+            const snippet = clipped[i];
+            retainPage(fileId, snippet.sourcePageNumber);
+            try {
+              const pageImageId = await get().renderPage(fileId, snippet.sourcePageNumber);
+              const page = get()
+                .files.find((f) => f.id === fileId)
+                ?.pages.find((p) => p.pageNumber === snippet.sourcePageNumber);
+              if (!pageImageId || !page) continue;
+              const blob = await cropSnippetImage(
+                snippet,
+                pageImageId,
+                page.renderScale,
+                getColorDropoutEnhancement(snippet.colorDropout)
+              );
+              // 処理中に切り出し直された場合は上書きしない
+              if (get().snippets.find((s) => s.id === snippet.id)?.imageId !== snippet.imageId) continue;
+              // 縦横比が変わるため、配置済みのサイズも合わせる
+              get().updateSnippet(snippet.id, {
+                cropArea: snippet.cropArea,
+                cropZoom: snippet.cropZoom,
+                renderScale: snippet.renderScale,
+                imageId: await saveImage(blob),
+              });
+            } finally {
+              releasePage(fileId, snippet.sourcePageNumber);
+            }
+          }
+        });
+      },
+
+      // 補正プリセットを適用し直す（ページ画像・サムネイルは描画し直す）
+      // 切り抜き済みのスニペットは元の画像のまま
+      // スニペットがあるファイルは、範囲がずれないよう傾き補正の有無を変えない
+      applyEnhancementPreset: (fileId: string, presetId: string) => {
+        const preset = get().settings.enhancementPresets.find((p) => p.id === presetId);
+        const file = get().files.find((f) => f.id === fileId);
+        if (!preset || !file) return;
+        set((state) => ({
+          files: state.files.map((f) =>
+            f.id === fileId
+              ? {
+                  ...f,
+                  enhancementPresetId: preset.id,
+                  enhancement: state.snippets.some((s) => s.sourceFileId === fileId)
+                    ? { ...preset.enhancement, deskew: getFileEnhancement(f).deskew }
+                    : { ...preset.enhancement },
+                  pages: f.pages.map((p) => ({ ...p, imageId: undefined, renderScale: undefined, thumbnailId: undefined })),
+                }
+              : f
+          ),
+        }));
+        discardPageImages(file.pages.flatMap((p) => [p.imageId, p.thumbnailId]));
+      },
+
+      // ページごとの色消し（ページ画像・サムネイルは描画し直す、undefinedでファイルの補正に戻す）
+      setPageColorDropout: (fileId: string, pageNumbers: number[], dropout: ColorDropout | undefined) => {
+        const pages = get()
+          .files.find((f) => f.id === fileId)
+          ?.pages.filter((p) => pageNumbers.includes(p.pageNumber)) ?? [];
+        set((state) => ({
+          files: state.files.map((f) =>
+            f.id === fileId
+              ? {
+                  ...f,
+                  pages: f.pages.map((p) =>
+                    pageNumbers.includes(p.pageNumber)
+                      ? {
+                          ...p,
+                          colorDropout: dropout,
+                          imageId: undefined,
+                          renderScale: undefined,
+                          thumbnailId: undefined,
+                        }
+                      : p
+                  ),
+                }
+              : f
+          ),
+        }));
+        discardPageImages(pages.flatMap((p) => [p.imageId, p.thumbnailId]));
+      },
+
       // OCR操作
       // P1-003: 縦書きOCR対応
       // P1-004: デジタルPDFテキスト抽出
@@ -244,10 +1076,12 @@ export const useAppStore = create<Store>()(
         const file = get().files.find((f) => f.id === fileId);
         if (!file) return;
 
+        const signal = beginProcessing();
         set({ isProcessing: true });
         const { isBenchmarkMode } = get();
 
         for (let i = 0; i < file.pages.length; i++) {
+          if (signal.aborted) break;
           const page = file.pages[i];
           if (page.ocrStatus === 'completed' && page.textContent) continue;
 
@@ -276,10 +1110,16 @@ export const useAppStore = create<Store>()(
             ),
           }));
 
+          retainPage(fileId, page.pageNumber);
           try {
-            if (page.imageData) {
+            const imageId = await get().renderPage(fileId, page.pageNumber);
+            // デジタルPDFは描画時にテキストを抽出済み
+            const rendered = get()
+              .files.find((f) => f.id === fileId)
+              ?.pages.find((p) => p.pageNumber === page.pageNumber);
+            if (imageId && rendered?.ocrStatus !== 'completed') {
               const endOcr = isBenchmarkMode ? startMeasure(`ocr-page-${page.pageNumber}`) : null;
-              const result = await runOCR(page.imageData, (progress) => {
+              const result = await runOCR(await readOCRImage(imageId, get().settings), (progress) => {
                 set((state) => ({
                   files: state.files.map((f) =>
                     f.id === fileId
@@ -334,10 +1174,12 @@ export const useAppStore = create<Store>()(
                   : f
               ),
             }));
+          } finally {
+            releasePage(fileId, page.pageNumber);
           }
         }
 
-        set({ isProcessing: false, progress: null });
+        if (endProcessing(signal)) set({ isProcessing: false, progress: null });
       },
 
       // 選択したページのみOCR実行
@@ -345,10 +1187,12 @@ export const useAppStore = create<Store>()(
         const file = get().files.find((f) => f.id === fileId);
         if (!file || pageNumbers.length === 0) return;
 
+        const signal = beginProcessing();
         set({ isProcessing: true });
         const { isBenchmarkMode } = get();
 
         for (let i = 0; i < pageNumbers.length; i++) {
+          if (signal.aborted) break;
           const pageNumber = pageNumbers[i];
           const page = file.pages.find((p) => p.pageNumber === pageNumber);
           if (!page) continue;
@@ -378,10 +1222,16 @@ export const useAppStore = create<Store>()(
             ),
           }));
 
+          retainPage(fileId, pageNumber);
           try {
-            if (page.imageData) {
+            const imageId = await get().renderPage(fileId, pageNumber);
+            // デジタルPDFは描画時にテキストを抽出済み
+            const rendered = get()
+              .files.find((f) => f.id === fileId)
+              ?.pages.find((p) => p.pageNumber === pageNumber);
+            if (imageId && rendered?.ocrStatus !== 'completed') {
               const endOcr = isBenchmarkMode ? startMeasure(`ocr-page-${pageNumber}`) : null;
-              const result = await runOCR(page.imageData, (progress) => {
+              const result = await runOCR(await readOCRImage(imageId, get().settings), (progress) => {
                 set((state) => ({
                   files: state.files.map((f) =>
                     f.id === fileId
@@ -436,21 +1286,29 @@ export const useAppStore = create<Store>()(
                   : f
               ),
             }));
+          } finally {
+            releasePage(fileId, pageNumber);
           }
         }
 
-        set({ isProcessing: false, progress: null });
+        if (endProcessing(signal)) set({ isProcessing: false, progress: null });
       },
 
-      cancelOCR: () => {
+      cancelProcessing: () => {
+        processingController?.abort();
+        processingController = null;
         set({ isProcessing: false, progress: null });
       },
 
       // スニペット操作
       // P3-001: トリミング機能
       addSnippet: (snippet) => {
+        const sourcePage = get()
+          .files.find((f) => f.id === snippet.sourceFileId)
+          ?.pages.find((p) => p.pageNumber === snippet.sourcePageNumber);
         const newSnippet: Snippet = {
           ...snippet,
+          renderScale: snippet.renderScale ?? sourcePage?.renderScale,
           id: generateId(),
           createdAt: new Date(),
         };
@@ -459,10 +1317,17 @@ export const useAppStore = create<Store>()(
 
       updateSnippet: (snippetId: string, updates: Partial<Omit<Snippet, 'id' | 'createdAt'>>) => {
         set((state) => {
-          // スニペットを更新
-          const newSnippets = state.snippets.map((s) =>
-            s.id === snippetId ? { ...s, ...updates } : s
-          );
+          // スニペットを更新（切り出し直した場合は元ページ画像のスケールも記録）
+          const newSnippets = state.snippets.map((s) => {
+            if (s.id !== snippetId) return s;
+            const updated = { ...s, ...updates };
+            if (updates.cropArea && updates.renderScale === undefined) {
+              updated.renderScale = state.files
+                .find((f) => f.id === updated.sourceFileId)
+                ?.pages.find((p) => p.pageNumber === updated.sourcePageNumber)?.renderScale;
+            }
+            return updated;
+          });
 
           // cropAreaとcropZoomが更新された場合、配置済みスニペットのサイズも更新
           let newLayoutPages = state.layoutPages;
@@ -500,6 +1365,14 @@ export const useAppStore = create<Store>()(
 
           return { snippets: newSnippets, layoutPages: newLayoutPages };
         });
+
+        // 切り出し直したスニペットには色消しを適用し直す
+        const snippet = get().snippets.find((s) => s.id === snippetId);
+        if (updates.imageId && !('colorDropout' in updates) && snippet?.colorDropout) {
+          get()
+            .setSnippetColorDropout(snippetId, snippet.colorDropout)
+            .catch((error) => console.error('色消しの適用に失敗しました:', error));
+        }
       },
 
       removeSnippet: (snippetId: string) => {
@@ -531,6 +1404,102 @@ export const useAppStore = create<Store>()(
         }));
       },
 
+      // スニペットの色消し（元のページ画像から切り出し直して適用、undefinedで解除）
+      setSnippetColorDropout: async (snippetId: string, dropout: ColorDropout | undefined) => {
+        const snippet = get().snippets.find((s) => s.id === snippetId);
+        if (!snippet) return;
+        const colorDropout = hasColorDropout(dropout) ? dropout : undefined;
+
+        retainPage(snippet.sourceFileId, snippet.sourcePageNumber);
+        try {
+          const pageImageId = await get().renderPage(snippet.sourceFileId, snippet.sourcePageNumber);
+          const page = get()
+            .files.find((f) => f.id === snippet.sourceFileId)
+            ?.pages.find((p) => p.pageNumber === snippet.sourcePageNumber);
+          if (!pageImageId || !page) throw new Error('切り出し元のページが見つかりません');
+
+          const enhancement = getColorDropoutEnhancement(colorDropout);
+          const imageId = await saveImage(await cropSnippetImage(snippet, pageImageId, page.renderScale, enhancement));
+          set((state) => ({
+            snippets: state.snippets.map((s) =>
+              // 処理中に切り出し直された場合は上書きしない
+              s.id === snippetId && s.imageId === snippet.imageId ? { ...s, imageId, colorDropout } : s
+            ),
+          }));
+        } finally {
+          releasePage(snippet.sourceFileId, snippet.sourcePageNumber);
+        }
+      },
+
+      // スニペットの余白を詰める（元のページから文字の範囲を切り出し直す）
+      trimSnippets: async (snippetIds: string[], padding: number) => {
+        const targets = get().snippets.filter((s) => snippetIds.includes(s.id));
+        if (targets.length === 0) return 0;
+
+        const trimmed = await get().runTask('余白を詰めています...', async (signal, onProgress) => {
+          let count = 0;
+          for (let i = 0; i < targets.length; i++) {
+            if (signal.aborted) break;
+            onProgress({ current: i + 1, total: targets.length, message: `余白を詰めています: ${i + 1}/${targets.length}` });
+            const snippet = targets[i];
+            // 形・マスクを指定したスニペットは範囲を手で決めているため詰めない
+            if (snippet.cropShape || snippet.masks?.length) continue;
+
+            retainPage(snippet.sourceFileId, snippet.sourcePageNumber);
+            try {
+              const pageImageId = await get().renderPage(snippet.sourceFileId, snippet.sourcePageNumber);
+              const page = get()
+                .files.find((f) => f.id === snippet.sourceFileId)
+                ?.pages.find((p) => p.pageNumber === snippet.sourcePageNumber);
+              if (!pageImageId || !page) continue;
+
+              // 切り出し時と解像度スケールが違う場合は、今のページ画像の座標に直して詰める
+              const ratio = page.renderScale && snippet.renderScale ? page.renderScale / snippet.renderScale : 1;
+              const { x, y, width, height } = snippet.cropArea;
+              const area = { x: x * ratio, y: y * ratio, width: width * ratio, height: height * ratio };
+              const cropArea = findContentBounds(await loadImageData(pageImageId), area, padding);
+              if (
+                Math.round(cropArea.width) === Math.round(area.width) &&
+                Math.round(cropArea.height) === Math.round(area.height)
+              ) {
+                continue;
+              }
+
+              // 色消しを指定したスニペットは色消しも適用し直す
+              const blob = await cropSnippetImage(
+                { ...snippet, cropArea, renderScale: page.renderScale },
+                pageImageId,
+                page.renderScale,
+                getColorDropoutEnhancement(snippet.colorDropout)
+              );
+              // 処理中に切り出し直された場合は上書きしない
+              if (get().snippets.find((s) => s.id === snippet.id)?.imageId !== snippet.imageId) continue;
+              const imageId = await saveImage(blob);
+              // 今のページ画像の座標にした分、ズーム値を戻して配置時の大きさを変えない
+              // 配置済みのスニペットは文字の大きさが変わらないよう、詰めた分だけ縮める
+              set((state) => ({
+                snippets: state.snippets.map((s) =>
+                  s.id === snippet.id
+                    ? { ...s, cropArea, cropZoom: (snippet.cropZoom || 1) / ratio, renderScale: page.renderScale, imageId }
+                    : s
+                ),
+                layoutPages: scalePlacedSnippets(
+                  state.layoutPages,
+                  snippet.id,
+                  cropArea.width / area.width,
+                  cropArea.height / area.height
+                ),
+              }));
+              count++;
+            } finally {
+              releasePage(snippet.sourceFileId, snippet.sourcePageNumber);
+            }
+          }
+          return count;
+        });
+        return trimmed ?? 0;
+      },
+
       // レイアウト操作
       // P3-002: 再配置エディタ
       // P3-004: 用紙サイズ選択
@@ -878,6 +1847,47 @@ export const useAppStore = create<Store>()(
         }
       },
 
+      // プロジェクト操作
+      // 元PDF・スニペット・レイアウト・設定を1ファイルに保存
+      exportProject: async () => {
+        const blob = await createProjectBundle(selectWorkspace(get()));
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `project_${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+        a.click();
+        URL.revokeObjectURL(url);
+      },
+
+      // プロジェクトファイルを開いて作業状態を置き換える
+      importProject: async (file: File) => {
+        if (get().isProcessing) {
+          throw new Error('処理中はプロジェクトファイルを開けません');
+        }
+        set({
+          isProcessing: true,
+          progress: { current: 1, total: 1, message: `${file.name} を開いています...` },
+        });
+        try {
+          const { workspace, skippedSnippetCount } = await readProjectBundle(file);
+          closeAllDocuments();
+          set({
+            ...workspace,
+            settings: withDefaultSettings(workspace.settings),
+            selectedSnippetId: null,
+            selectedSnippetIds: [],
+            selectedPageNumbers: [],
+            selectedTextId: null,
+            selectedShapeId: null,
+            layoutHistory: [],
+            reCropSnippetId: null,
+          });
+          return skippedSnippetCount;
+        } finally {
+          set({ isProcessing: false, progress: null });
+        }
+      },
+
       // 設定操作
       // P2-001: ルビ括弧表記オプション
       // P3-005: グリッド/ガイド表示
@@ -897,11 +1907,54 @@ export const useAppStore = create<Store>()(
             }
           }
         }
+        // 解像度スケールが変わった場合はトリミング用のページ画像だけ描画し直す（サムネイルはそのまま）
+        if (newSettings.pdfRenderScale !== undefined && newSettings.pdfRenderScale !== get().settings.pdfRenderScale) {
+          const imageIds = get().files.flatMap((f) => f.pages.map((p) => p.imageId));
+          set((state) => ({
+            files: state.files.map((f) => ({
+              ...f,
+              pages: f.pages.map((p) => (p.imageId ? { ...p, imageId: undefined, renderScale: undefined } : p)),
+            })),
+          }));
+          discardPageImages(imageIds);
+        }
         set((state) => ({
           settings: { ...state.settings, ...newSettings },
         }));
       },
 
+      saveEnhancementPreset: (preset: EnhancementPreset) => {
+        set((state) => {
+          const presets = state.settings.enhancementPresets;
+          const exists = presets.some((p) => p.id === preset.id);
+          return {
+            settings: {
+              ...state.settings,
+              enhancementPresets: exists
+                ? presets.map((p) => (p.id === preset.id ? preset : p))
+                : [...presets, preset],
+            },
+          };
+        });
+      },
+
+      // プリセットは最低1つ残す（取り込み時に使うプリセットを削除した場合は先頭に戻す）
+      removeEnhancementPreset: (presetId: string) => {
+        set((state) => {
+          const presets = state.settings.enhancementPresets.filter((p) => p.id !== presetId);
+          if (presets.length === 0) return state;
+          return {
+            settings: {
+              ...state.settings,
+              enhancementPresets: presets,
+              importPresetId: presets.some((p) => p.id === state.settings.importPresetId)
+                ? state.settings.importPresetId
+                : presets[0].id,
+            },
+          };
+        });
+      },
+
       // UI操作
       setActiveTab: (tab) => {
         set({ activeTab: tab });
@@ -924,6 +1977,21 @@ export const useAppStore = create<Store>()(
         set({ progress });
       },
 
+      runTask: async (message, task) => {
+        const signal = beginProcessing();
+        set({ isProcessing: true, progress: { current: 0, total: 1, message } });
+        try {
+          return await task(signal, (progress) => {
+            if (!signal.aborted) set({ progress });
+          });
+        } catch (error) {
+          if (isAbortError(error)) return undefined;
+          throw error;
+        } finally {
+          if (endProcessing(signal)) set({ isProcessing: false, progress: null });
+        }
+      },
+
       // ページ複数選択操作
       togglePageSelection: (pageNumber: number) => {
         set((state) => {
@@ -1952,10 +3020,20 @@ export const useAppStore = create<Store>()(
     }),
     {
       name: 'kokugo-pdf-storage',
-      storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({
-        settings: state.settings,
-      }),
+      // NF-005: ファイル・スニペット・レイアウトを含む作業状態をIndexedDBに保存
+      storage: createWorkspaceStorage(),
+      partialize: (state) => selectWorkspace(state),
+      merge: (persisted, current) => {
+        const state = (persisted ?? {}) as Partial<WorkspaceState>;
+        return { ...current, ...state, settings: withDefaultSettings(state.settings) };
+      },
+      onRehydrateStorage: () => (state) => {
+        state?.loadProjects().catch((error) => {
+          console.error('プロジェクト一覧の読み込みに失敗しました:', error);
+          alert('プロジェクト一覧を読み込めませんでした。ページを再読み込みしてください');
+        });
+        useAppStore.setState({ recoverableSession: getRecoverableSession() });
+      },
     }
   )
 );
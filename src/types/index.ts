@@ -12,13 +12,24 @@ export interface PDFFile {
   status: FileStatus;
   error?: string;
   createdAt: Date;
+  sourceType?: SourceType; // 未設定はPDF
+  enhancementPresetId?: string; // 取り込み時の補正プリセット
+  enhancement?: ImageEnhancement; // ページ画像の描画に使う補正（適用したプリセットの内容、未設定は標準の補正）
 }
 
 export interface PDFPage {
   pageNumber: number;
-  width: number;
+  width: number;  // 回転を反映したページサイズ（pt）
   height: number;
-  imageData?: string; // Base64 encoded image
+  rotation?: number; // PDFの/Rotate（0/90/180/270）
+  userRotation?: number; // ユーザーが追加した回転（時計回り、0/90/180/270）
+  deskewAngle?: number; // 傾き補正の角度（手動指定、時計回り、度）。未指定なら自動検出
+  sourcePageNumber?: number; // 元ファイルのページ番号（見開きを分割したページ、未指定はpageNumber）
+  slice?: PageSlice; // 見開きを分割したページの元ページ内の範囲
+  colorDropout?: ColorDropout; // ページごとの色消し（未指定ならファイルの補正のまま）
+  imageId?: string; // 画像ストア上のページ画像ID（imageStore.ts、トリミング用）
+  renderScale?: number; // imageIdを描画した解像度スケール
+  thumbnailId?: string; // 一覧表示用の縮小画像ID
   textContent?: string;
   ocrStatus: OCRStatus;
   ocrProgress: number;
@@ -36,7 +47,33 @@ export interface OCRBlock {
   confidence: number;
 }
 
-export type FileStatus = 'pending' | 'processing' | 'completed' | 'error';
+// 見開きを分割したページの、元ページ内の範囲
+// 元ページは/Rotateと分割前の回転を反映した向きで扱い、ページ自身の回転（userRotation）は切り出した後に加える
+export interface PageSlice {
+  start: number;    // 左端（元ページの幅に対する割合 0〜1）
+  end: number;      // 右端
+  rotation: number; // 分割前に見開きに加えていた回転（時計回り、度）
+}
+
+// ページ画像の描画設定
+export interface PageRenderOptions {
+  userRotation?: number; // ユーザーが追加した回転（時計回り、度）
+  deskewAngle?: number;  // 傾き補正の角度（時計回り、度）。未指定で補正設定のdeskewが有効なら自動検出
+  slice?: PageSlice;     // 見開きを分割したページの範囲
+  signal?: AbortSignal;  // 中断用のシグナル
+}
+
+// 見開きの分割位置（のどを検出 / 中央で分割）
+export type GutterMode = 'detect' | 'center';
+
+// ファイル取り込み時のオプション
+export interface ImportOptions {
+  splitSpreads?: GutterMode; // 横長のページを見開きとして2ページに分割（未指定なら分割しない）
+  enhancementPresetId?: string; // 補正プリセット（未指定なら設定のimportPresetId）
+}
+
+export type FileStatus = 'pending' | 'processing' | 'completed' | 'error' | 'locked'; // locked: パスワード入力待ち
+export type SourceType = 'pdf' | 'image'; // PDF・画像ファイル（JPEG/PNG/TIFF）
 export type OCRStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 // OCR関連の型
@@ -60,9 +97,14 @@ export interface Snippet {
   sourcePageNumber: number;
   cropArea: CropArea;
   cropZoom: number;  // トリミング時のズーム値（配置時の補正に使用）
-  imageData: string; // Base64 encoded image
+  imageId: string; // 画像ストア上のスニペット画像ID（imageStore.ts）
+  renderScale?: number; // 切り出し元ページ画像の解像度スケール（cropAreaの座標系）
   createdAt: Date;
   pageBreakBefore?: boolean;  // このスニペットから改ページ（次のページに配置）
+  colorDropout?: ColorDropout; // スニペットごとの色消し（切り出し直すときにも適用する）
+  enhancement?: ImageEnhancement; // スニペットごとの補正（未指定なら設定のimageEnhancement）
+  cropShape?: CropShape; // 矩形以外の切り出し範囲（cropAreaはその外接矩形、外側は白く塗る）
+  masks?: CropArea[]; // 切り出し範囲の中で白く塗る範囲（脚注・次の設問の見出しなど）
 }
 
 export interface CropArea {
@@ -72,6 +114,12 @@ export interface CropArea {
   height: number;
 }
 
+// 矩形以外の切り出し範囲（座標はcropAreaの左上を原点とする、スニペットのmasksも同じ）
+export interface CropShape {
+  polygon?: Position[]; // 多角形の頂点
+  rects?: CropArea[]; // 複数の矩形（重なってもよく、すべてを合わせた範囲を切り出す）
+}
+
 // レイアウト関連の型
 export interface LayoutPage {
   id: string;
@@ -179,6 +227,36 @@ export interface ImageEnhancement {
   autoLevels: boolean; // オートレベル補正（白を白に、黒を黒に）
   unsharpMask: boolean; // アンシャープマスク（エッジ強調）
   grayscale: boolean;  // グレースケール変換
+  deskew: boolean;     // 傾き補正（スキャンの傾きを自動検出して補正）
+  binarization: BinarizationMethod; // 適応的二値化（照明ムラのあるスキャンを白黒にする）
+  binarizationWindow: number; // 二値化のしきい値を求める範囲（px、奇数）
+  colorDropout: ColorDropout; // 色消し（赤ペン・蛍光ペンを白にする）
+  despeckle: boolean; // ゴマ塩ノイズ（コピーの細かい点）の除去
+  despeckleSize: number; // ノイズとみなす点の大きさの上限（px）
+  removeEdgeShadow: boolean; // 綴じ目・ページ端の黒い影の除去
+}
+
+// 色消しフィルター
+export interface ColorDropoutFilter {
+  enabled: boolean;
+  tolerance: number; // 許容範囲 0〜100（大きいほど離れた色まで消す）
+}
+
+// 過去問の赤ペンの添削・蛍光ペンを取り除く（文字と重なった部分は黒いまま残る）
+export interface ColorDropout {
+  red: ColorDropoutFilter; // 赤ペン
+  highlighter: ColorDropoutFilter; // 蛍光ペン（黄色・ピンク）
+  nonBlack: ColorDropoutFilter; // 黒に近い色だけを残す
+}
+
+// 適応的二値化の方式（周囲の明るさの平均・ばらつきから画素ごとにしきい値を決める）
+export type BinarizationMethod = 'none' | 'sauvola' | 'niblack';
+
+// 名前付きの画像補正設定（取り込み時にページ画像へ適用）
+export interface EnhancementPreset {
+  id: string;
+  name: string;
+  enhancement: ImageEnhancement;
 }
 
 // 設定関連の型
@@ -195,10 +273,21 @@ export interface AppSettings {
   showSnippetBorder: boolean; // スニペットに黒い縁取りを表示
   snippetBorderWidth: number; // 縁取りの幅（mm）
   gridPattern: '4x2' | '4x3' | '3x2' | '2x2' | '1x1'; // グリッドパターン（配置・詰め共通）
+  enhancementPresets: EnhancementPreset[]; // 取り込み時の補正プリセット
+  importPresetId: string; // 取り込み時に使うプリセット
+  ocrBinarization: BinarizationMethod; // OCR前の二値化（ページ画像は変えない）
+  ocrBinarizationWindow: number; // OCR前の二値化の範囲（px）
+  autoTrim: boolean; // 切り出し時に余白を詰める
+  autoTrimPadding: number; // 余白を詰めたときに文字の周りに残す余白（ページ画像のpx）
 }
 
 // ストア関連の型
 export interface AppState {
+  // プロジェクト管理
+  projects: ProjectInfo[];
+  activeProjectId: string | null;
+  recoverableSession: RecoverableSession | null;  // 正常に終了しなかった前回のセッション
+
   // ファイル管理
   files: PDFFile[];
   activeFileId: string | null;
@@ -227,19 +316,62 @@ export interface AppState {
   selectedShapeId: string | null;  // 選択中の図形要素
 }
 
+// プロジェクト（試験ごとの作業単位）
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 復元可能な自動保存セッション
+export interface RecoverableSession {
+  projectId: string;
+  savedAt: Date;  // 最後に自動保存した日時
+}
+
+// 永続化対象の作業状態（IndexedDBに保存し、リロード後に復元）
+export type WorkspaceState = Pick<
+  AppState,
+  | 'files'
+  | 'activeFileId'
+  | 'activePageNumber'
+  | 'snippets'
+  | 'layoutPages'
+  | 'activeLayoutPageId'
+  | 'settings'
+>;
+
 // アクション型
 export interface AppActions {
+  // プロジェクト管理
+  loadProjects: () => Promise<void>;
+  createProject: (name: string) => Promise<void>;
+  renameProject: (projectId: string, name: string) => Promise<void>;
+  duplicateProject: (projectId: string) => Promise<void>;
+  deleteProject: (projectId: string) => Promise<void>;
+  switchProject: (projectId: string) => Promise<void>;
+  restoreSession: () => Promise<void>;
+  startNewSession: () => Promise<void>;
+
   // ファイル操作
-  addFiles: (files: File[]) => Promise<void>;
+  addFiles: (files: File[], options?: ImportOptions) => Promise<void>;
+  unlockFile: (fileId: string, password: string) => Promise<boolean>; // パスワード保護されたPDFを開き直す
   removeFile: (fileId: string) => void;
+  renderPage: (fileId: string, pageNumber: number) => Promise<string | undefined>;
+  renderThumbnail: (fileId: string, pageNumber: number) => Promise<string | undefined>;
   setActiveFile: (fileId: string | null) => void;
   setActivePage: (pageNumber: number) => void;
   updatePageText: (fileId: string, pageNumber: number, text: string) => void;
+  rotatePage: (fileId: string, pageNumber: number, degrees: number) => void; // 時計回りに90度単位で回転
+  setPageDeskewAngle: (fileId: string, pageNumber: number, angle: number | undefined) => void; // undefinedで自動検出に戻す
+  splitSpreads: (fileId: string, mode?: GutterMode) => Promise<void>; // 横長のページを見開きとして2ページに分割
+  applyEnhancementPreset: (fileId: string, presetId: string) => void; // 取り込み済みのファイルに補正プリセットを適用し直す
+  setPageColorDropout: (fileId: string, pageNumbers: number[], dropout: ColorDropout | undefined) => void; // undefinedでファイルの補正に戻す
 
   // OCR操作
   startOCR: (fileId: string) => Promise<void>;
   startOCRForPages: (fileId: string, pageNumbers: number[]) => Promise<void>;
-  cancelOCR: () => void;
 
   // スニペット操作
   addSnippet: (snippet: Omit<Snippet, 'id' | 'createdAt'>) => void;
@@ -247,6 +379,8 @@ export interface AppActions {
   removeSnippet: (snippetId: string) => void;
   reorderSnippets: (fromIndex: number, toIndex: number) => void;
   toggleSnippetPageBreak: (snippetId: string) => void;
+  setSnippetColorDropout: (snippetId: string, dropout: ColorDropout | undefined) => Promise<void>; // 元のページから切り出し直して適用
+  trimSnippets: (snippetIds: string[], padding: number) => Promise<number>; // 余白を詰めて切り出し直す（詰めた数を返す）
 
   // レイアウト操作
   addLayoutPage: (paperSize: PaperSize, orientation: PaperOrientation) => void;
@@ -269,8 +403,14 @@ export interface AppActions {
   exportLayoutPDF: () => Promise<void>;
   copyToClipboard: (text: string) => Promise<void>;
 
+  // プロジェクト操作（.kokugoファイルの保存・読み込み）
+  exportProject: () => Promise<void>;
+  importProject: (file: File) => Promise<number>; // 画像がなく読み込めなかったスニペットの数を返す
+
   // 設定操作
   updateSettings: (settings: Partial<AppSettings>) => void;
+  saveEnhancementPreset: (preset: EnhancementPreset) => void; // 追加または更新
+  removeEnhancementPreset: (presetId: string) => void;
 
   // UI操作
   setActiveTab: (tab: 'extract' | 'layout') => void;
@@ -279,6 +419,13 @@ export interface AppActions {
   setSelectedShapeId: (shapeId: string | null) => void;
   setProgress: (progress: ProgressInfo | null) => void;
 
+  // 中断可能な処理（ProgressOverlayに進捗を表示し、キャンセルされた場合はundefinedを返す）
+  runTask: <T>(
+    message: string,
+    task: (signal: AbortSignal, onProgress: (progress: ProgressInfo) => void) => Promise<T>
+  ) => Promise<T | undefined>;
+  cancelProcessing: () => void;
+
   // ページ複数選択操作
   togglePageSelection: (pageNumber: number) => void;
   selectPageRange: (start: number, end: number) => void;
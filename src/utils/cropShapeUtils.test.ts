@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { hasCropShape, getCropShapeBounds, mapCropShape, mapAreas, offsetAndScale, rotatePoint } from './cropShapeUtils';
+
+describe('hasCropShape', () => {
+  it('頂点が3つ以上の多角形か矩形があれば形とみなす', () => {
+    expect(hasCropShape(undefined)).toBe(false);
+    expect(hasCropShape({})).toBe(false);
+    expect(hasCropShape({ polygon: [{ x: 0, y: 0 }, { x: 10, y: 0 }] })).toBe(false);
+    expect(hasCropShape({ polygon: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }] })).toBe(true);
+    expect(hasCropShape({ rects: [{ x: 0, y: 0, width: 10, height: 10 }] })).toBe(true);
+  });
+});
+
+describe('getCropShapeBounds', () => {
+  it('多角形と矩形を合わせた外接矩形', () => {
+    expect(
+      getCropShapeBounds({
+        polygon: [{ x: 10, y: 20 }, { x: 50, y: 5 }, { x: 30, y: 40 }],
+        rects: [{ x: 40, y: 30, width: 30, height: 20 }],
+      })
+    ).toEqual({ x: 10, y: 5, width: 60, height: 45 });
+  });
+});
+
+describe('mapCropShape', () => {
+  it('平行移動と拡大', () => {
+    const shape = {
+      polygon: [{ x: 10, y: 20 }, { x: 20, y: 30 }, { x: 15, y: 40 }],
+      rects: [{ x: 15, y: 25, width: 5, height: 5 }],
+    };
+    expect(mapCropShape(shape, offsetAndScale(-10, -20, 2))).toEqual({
+      polygon: [{ x: 0, y: 0 }, { x: 20, y: 20 }, { x: 10, y: 40 }],
+      rects: [{ x: 10, y: 10, width: 10, height: 10 }],
+    });
+  });
+
+  it('指定のない形は加えない', () => {
+    expect(mapCropShape({ rects: [] }, offsetAndScale(1, 1))).toEqual({ rects: [] });
+  });
+});
+
+describe('mapAreas', () => {
+  it('90度回転しても矩形のまま', () => {
+    // 100×50の範囲を時計回りに90度回転すると、左上の矩形は右上に移る
+    expect(mapAreas([{ x: 0, y: 0, width: 20, height: 10 }], rotatePoint(90, 100, 50))).toEqual([
+      { x: 40, y: 0, width: 10, height: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+// =============================================================================
+// 矩形以外の切り出し範囲（多角形・複数の矩形）とマスク
+// 範囲の外とマスクを白く塗って、脚注や次の設問の見出しなどを除く
+// =============================================================================
+
+import type { CropArea, CropShape, Position } from '../types';
+import { rotateRect } from './helpers';
+
+// 多角形とみなす最小の頂点数
+const MIN_POLYGON_POINTS = 3;
+
+/**
+ * 切り出し範囲の形が指定されているか
+ */
+export function hasCropShape(shape: CropShape | null | undefined): shape is CropShape {
+  return !!shape && ((shape.polygon?.length ?? 0) >= MIN_POLYGON_POINTS || (shape.rects?.length ?? 0) > 0);
+}
+
+/**
+ * 形の外接矩形
+ */
+export function getCropShapeBounds(shape: CropShape): CropArea {
+  const points: Position[] = [
+    ...(shape.polygon ?? []),
+    ...(shape.rects ?? []).flatMap((r) => [
+      { x: r.x, y: r.y },
+      { x: r.x + r.width, y: r.y + r.height },
+    ]),
+  ];
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * 矩形の2つの角を移して矩形に戻す（平行移動・拡大・90度単位の回転なら矩形のまま）
+ */
+function mapArea(area: CropArea, map: (point: Position) => Position): CropArea {
+  const a = map({ x: area.x, y: area.y });
+  const b = map({ x: area.x + area.width, y: area.y + area.height });
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+/**
+ * 形・マスクの座標を移す
+ */
+export function mapCropShape(shape: CropShape, map: (point: Position) => Position): CropShape {
+  return {
+    ...(shape.polygon ? { polygon: shape.polygon.map(map) } : {}),
+    ...(shape.rects ? { rects: shape.rects.map((r) => mapArea(r, map)) } : {}),
+  };
+}
+
+export function mapAreas(areas: CropArea[], map: (point: Position) => Position): CropArea[] {
+  return areas.map((area) => mapArea(area, map));
+}
+
+/**
+ * 平行移動と拡大（(x + dx) * scale）
+ */
+export function offsetAndScale(dx: number, dy: number, scale: number = 1): (point: Position) => Position {
+  return (point) => ({ x: (point.x + dx) * scale, y: (point.y + dy) * scale });
+}
+
+/**
+ * 切り出した画像を時計回りに90度単位で回転したときの座標
+ * @param frameWidth 回転前の切り出し範囲の幅
+ * @param frameHeight 回転前の切り出し範囲の高さ
+ */
+export function rotatePoint(degrees: number, frameWidth: number, frameHeight: number): (point: Position) => Position {
+  return (point) => {
+    const rotated = rotateRect({ ...point, width: 0, height: 0 }, degrees, frameWidth, frameHeight);
+    return { x: rotated.x, y: rotated.y };
+  };
+}
+
+/**
+ * 切り出した画像の、形の外とマスクを白く塗る
+ * @param ctx 切り出し範囲を描画したキャンバス（左上が切り出し範囲の左上）
+ * @param shape 切り出し範囲の形（キャンバスの座標）
+ * @param masks 白く塗る範囲（キャンバスの座標）
+ */
+export function paintOutsideShape(
+  ctx: CanvasRenderingContext2D,
+  shape: CropShape | null | undefined,
+  masks: CropArea[] | null | undefined
+): void {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+
+  if (hasCropShape(shape)) {
+    // 形の中だけ残して外を透明にしてから、透明なところを白で埋める
+    ctx.beginPath();
+    if (shape.polygon && shape.polygon.length >= MIN_POLYGON_POINTS) {
+      ctx.moveTo(shape.polygon[0].x, shape.polygon[0].y);
+      shape.polygon.slice(1).forEach((p) => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+    }
+    // 同じ向きの矩形を重ねるため、重なったところも中として扱われる（nonzero）
+    shape.rects?.forEach((r) => ctx.rect(r.x, r.y, r.width, r.height));
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.fillStyle = '#000000';
+    ctx.fill();
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  ctx.fillStyle = '#ffffff';
+  masks?.forEach((m) => ctx.fillRect(m.x, m.y, m.width, m.height));
+  ctx.restore();
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  TEMPLATE_FILE_FORMAT,
+  TEMPLATE_FILE_VERSION,
+  exportTemplates,
+  importTemplates,
+  getTemplates,
+  getTemplateSets,
+  saveTemplate,
+  saveTemplateSet,
+  applyTemplate,
+  type TemplateSet,
+} from './cropTemplateUtils';
+
+/**
+ * テスト用のlocalStorage
+ */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+const templateSet: TemplateSet = {
+  id: 'set-1',
+  name: '評論',
+  regions: [
+    { name: '本文', x: 10, y: 20, width: 300, height: 400 },
+    { name: '設問', x: 10, y: 430, width: 300, height: 100 },
+  ],
+  renderScale: 2,
+  createdAt: 1,
+};
+
+function templateFile(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    templateSets: [templateSet],
+    templates: [],
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+describe('importTemplates', () => {
+  it('書き出したテンプレートを読み込む', () => {
+    saveTemplateSet(templateSet);
+    saveTemplate('global', { x: 1, y: 2, width: 100, height: 50, renderScale: 2, createdAt: 0 });
+    saveTemplate('global', { width: 200, height: 80, createdAt: 0 });
+    const json = exportTemplates();
+
+    vi.stubGlobal('localStorage', createStorage());
+    expect(importTemplates(json)).toBe(1);
+    expect(getTemplateSets()).toEqual([templateSet]);
+    // 全体の履歴は書き出したときの順
+    expect(
+      getTemplates('global').map(({ x, y, width, height, renderScale }) => ({ x, y, width, height, renderScale }))
+    ).toEqual([
+      { x: undefined, y: undefined, width: 200, height: 80, renderScale: undefined },
+      { x: 1, y: 2, width: 100, height: 50, renderScale: 2 },
+    ]);
+  });
+
+  it('同じIDで内容が違うテンプレートは上書きせず新しいIDで追加する', () => {
+    const local = { ...templateSet, name: '小説' };
+    saveTemplateSet(local);
+
+    expect(importTemplates(templateFile())).toBe(1);
+    const sets = getTemplateSets();
+    expect(sets).toHaveLength(2);
+    expect(sets[0]).toEqual(local);
+    expect(sets[1].id).not.toBe(templateSet.id);
+    expect(sets[1].name).toBe(templateSet.name);
+    expect(sets[1].regions).toEqual(templateSet.regions);
+  });
+
+  it('同じ内容のテンプレートは読み込まない', () => {
+    saveTemplateSet(templateSet);
+    expect(importTemplates(templateFile())).toBe(0);
+    expect(getTemplateSets()).toEqual([templateSet]);
+  });
+
+  it('ファイル内でIDが重なっても両方読み込む', () => {
+    const other = { ...templateSet, name: '古文' };
+    expect(importTemplates(templateFile({ templateSets: [templateSet, other] }))).toBe(2);
+    const sets = getTemplateSets();
+    expect(sets.map((s) => s.name)).toEqual(['評論', '古文']);
+    expect(new Set(sets.map((s) => s.id)).size).toBe(2);
+  });
+
+  it('範囲の形が正しくない履歴があれば読み込まない', () => {
+    const json = templateFile({ templates: [{ x: '10', y: 0, width: 100, height: 50 }] });
+    expect(() => importTemplates(json)).toThrow('テンプレートファイルの形式が正しくありません');
+    expect(getTemplateSets()).toEqual([]);
+    expect(getTemplates('global')).toEqual([]);
+  });
+
+  it('解像度スケールが正しくなければ読み込まない', () => {
+    expect(() => importTemplates(templateFile({ templateSets: [{ ...templateSet, renderScale: 0 }] }))).toThrow(
+      'テンプレートファイルの形式が正しくありません'
+    );
+    const json = templateFile({ templates: [{ width: 100, height: 50, renderScale: '2', createdAt: 0 }] });
+    expect(() => importTemplates(json)).toThrow('テンプレートファイルの形式が正しくありません');
+  });
+
+  it('サイズのない履歴があれば読み込まない', () => {
+    const json = templateFile({ templates: [{ x: 0, y: 0, createdAt: 0 }] });
+    expect(() => importTemplates(json)).toThrow('テンプレートファイルの形式が正しくありません');
+  });
+
+  it('範囲の形が正しくないテンプレートがあれば読み込まない', () => {
+    const broken = { ...templateSet, regions: [{ name: '本文', x: 0, y: 0, width: null, height: 10 }] };
+    expect(() => importTemplates(templateFile({ templateSets: [broken] }))).toThrow(
+      'テンプレートファイルの形式が正しくありません'
+    );
+  });
+
+  it('テンプレートのファイルでなければエラー', () => {
+    expect(() => importTemplates('{')).toThrow('テンプレートファイルの形式が正しくありません');
+    expect(() => importTemplates(JSON.stringify({ format: 'other' }))).toThrow(
+      '切り出しテンプレートのファイルではありません'
+    );
+    expect(() => importTemplates(templateFile({ version: TEMPLATE_FILE_VERSION + 1 }))).toThrow(
+      '新しいバージョンのツールで書き出したテンプレートです'
+    );
+  });
+});
+
+describe('applyTemplate', () => {
+  it('位置がなければ中央に置く', () => {
+    expect(applyTemplate({ width: 100, height: 50, createdAt: 0 }, 300, 200)).toEqual({
+      x: 100,
+      y: 75,
+      width: 100,
+      height: 50,
+    });
+  });
+
+  it('画像の外にはみ出さないように置く', () => {
+    expect(applyTemplate({ x: 250, y: -10, width: 100, height: 500, createdAt: 0 }, 300, 200)).toEqual({
+      x: 200,
+      y: 0,
+      width: 100,
+      height: 200,
+    });
+  });
+
+  it('解像度スケールが違う画像には位置・サイズを直して置く', () => {
+    const template = { x: 100, y: 40, width: 200, height: 80, renderScale: 2, createdAt: 0 };
+    expect(applyTemplate(template, 1000, 1000, 3)).toEqual({ x: 150, y: 60, width: 300, height: 120 });
+    // 解像度スケールのわからない画像・テンプレートはそのまま
+    expect(applyTemplate(template, 1000, 1000)).toEqual({ x: 100, y: 40, width: 200, height: 80 });
+    expect(applyTemplate({ ...template, renderScale: undefined }, 1000, 1000, 3)).toEqual({
+      x: 100,
+      y: 40,
+      width: 200,
+      height: 80,
+    });
+  });
+});
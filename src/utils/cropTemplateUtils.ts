@@ -1,19 +1,56 @@
 // =============================================================================
 // 切り出しテンプレート管理
 // CROP-006: サイズテンプレート（全体/ファイル/ページ）
+// 位置付きテンプレート（毎ページ同じ位置を切り出す）
+// 複数範囲のテンプレート（本文・設問・選択肢などを1ページから順に切り出す）、JSONで書き出し・読み込み
 // =============================================================================
 
+import { generateId } from './helpers';
+
 export interface CropTemplate {
+  x?: number; // 位置（ページ画像のpx、未指定なら中央に置く）
+  y?: number;
   width: number;
   height: number;
+  renderScale?: number; // 位置・サイズを測ったページ画像の解像度スケール（画像ファイルのページと古いテンプレートにはない）
   createdAt: number;
 }
 
 export type TemplateScope = 'global' | 'file' | 'page';
 
+// 複数範囲のテンプレートの1つの範囲（TemplateSetのrenderScaleで描画したページ画像のpx）
+export interface TemplateRegion {
+  name: string; // 本文・設問・選択肢など
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 複数範囲のテンプレート（regionsの順にスニペットを作る）
+export interface TemplateSet {
+  id: string;
+  name: string;
+  regions: TemplateRegion[];
+  renderScale?: number; // 範囲を測ったページ画像の解像度スケール
+  createdAt: number;
+}
+
 const STORAGE_PREFIX = 'cropTemplates';
+const TEMPLATE_SETS_KEY = 'cropTemplateSets';
 const MAX_TEMPLATES = 10;
 
+export const TEMPLATE_FILE_FORMAT = 'kokugo-crop-templates';
+export const TEMPLATE_FILE_VERSION = 1;
+
+// テンプレートの書き出しファイル
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  templateSets: TemplateSet[];
+  templates: CropTemplate[]; // 全体のサイズ・位置テンプレートの履歴
+}
+
 /**
  * ストレージキーを生成
  */
@@ -45,9 +82,24 @@ export function getTemplates(
   }
 }
 
+/**
+ * 同じテンプレートか（同じ解像度スケールで誤差5px以内は同一とみなす、位置がないものはサイズだけで比べる）
+ */
+function isSameTemplate(a: CropTemplate, b: CropTemplate): boolean {
+  const near = (p: number | undefined, q: number | undefined) =>
+    p === undefined || q === undefined || Math.abs(p - q) <= 5;
+  return (
+    a.renderScale === b.renderScale &&
+    near(a.width, b.width) &&
+    near(a.height, b.height) &&
+    near(a.x, b.x) &&
+    near(a.y, b.y)
+  );
+}
+
 /**
  * テンプレートを保存
- * 同じサイズは最新で上書き、最大10件
+ * 同じサイズ・位置は最新で上書き、最大10件
  */
 export function saveTemplate(
   scope: TemplateScope,
@@ -58,10 +110,8 @@ export function saveTemplate(
   const key = getStorageKey(scope, fileId, pageNumber);
   let templates = getTemplates(scope, fileId, pageNumber);
 
-  // 同じサイズを除去（誤差5px以内は同一とみなす）
-  templates = templates.filter(
-    (t) => Math.abs(t.width - template.width) > 5 || Math.abs(t.height - template.height) > 5
-  );
+  // 同じテンプレートを除去
+  templates = templates.filter((t) => !isSameTemplate(t, template));
 
   // 先頭に追加
   templates.unshift({
@@ -161,3 +211,194 @@ export function applyTemplateAtCenter(
     imageHeight
   );
 }
+
+/**
+ * テンプレートを画像に置く（位置があればその位置、なければ中央）
+ * @param renderScale 置く画像の解像度スケール。テンプレートと違えば、その比で位置・サイズを直す
+ */
+export function applyTemplate(
+  template: CropTemplate,
+  imageWidth: number,
+  imageHeight: number,
+  renderScale?: number
+): { x: number; y: number; width: number; height: number } {
+  const ratio = renderScale && template.renderScale ? renderScale / template.renderScale : 1;
+  const scaled = {
+    ...template,
+    x: template.x === undefined ? undefined : template.x * ratio,
+    y: template.y === undefined ? undefined : template.y * ratio,
+    width: template.width * ratio,
+    height: template.height * ratio,
+  };
+  if (scaled.x === undefined || scaled.y === undefined) {
+    return applyTemplateAtCenter(scaled, imageWidth / 2, imageHeight / 2, imageWidth, imageHeight);
+  }
+  return clampSelectionToImage(
+    { x: scaled.x, y: scaled.y, width: scaled.width, height: scaled.height },
+    imageWidth,
+    imageHeight
+  );
+}
+
+/**
+ * 複数範囲のテンプレート一覧を取得
+ */
+export function getTemplateSets(): TemplateSet[] {
+  try {
+    const stored = localStorage.getItem(TEMPLATE_SETS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 複数範囲のテンプレートを保存（同じIDは上書き）
+ */
+export function saveTemplateSet(templateSet: TemplateSet): void {
+  const sets = getTemplateSets();
+  const index = sets.findIndex((s) => s.id === templateSet.id);
+  if (index >= 0) {
+    sets[index] = templateSet;
+  } else {
+    sets.push(templateSet);
+  }
+  localStorage.setItem(TEMPLATE_SETS_KEY, JSON.stringify(sets));
+}
+
+/**
+ * 複数範囲のテンプレートを削除
+ */
+export function removeTemplateSet(templateSetId: string): void {
+  localStorage.setItem(TEMPLATE_SETS_KEY, JSON.stringify(getTemplateSets().filter((s) => s.id !== templateSetId)));
+}
+
+/**
+ * 新しい複数範囲のテンプレートを作成
+ */
+export function createTemplateSet(name: string, regions: TemplateRegion[], renderScale?: number): TemplateSet {
+  return { id: generateId(), name, regions, renderScale, createdAt: Date.now() };
+}
+
+/**
+ * テンプレートをJSONに書き出す（複数範囲のテンプレートと全体の履歴）
+ */
+export function exportTemplates(): string {
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    templateSets: getTemplateSets(),
+    templates: getTemplates('global'),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 数値の範囲を持つか
+ */
+function isRect(value: unknown): value is { x: number; y: number; width: number; height: number } {
+  if (!value || typeof value !== 'object') return false;
+  const rect = value as Record<string, unknown>;
+  return ['x', 'y', 'width', 'height'].every((key) => typeof rect[key] === 'number' && Number.isFinite(rect[key]));
+}
+
+/**
+ * 読み込んだ全体の履歴が正しい形か（位置は省略できる）
+ */
+function isCropTemplate(value: unknown): value is CropTemplate {
+  if (!value || typeof value !== 'object') return false;
+  const template = value as Record<string, unknown>;
+  if (!isRenderScale(template.renderScale)) return false;
+  const isFiniteNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  if (template.x === undefined && template.y === undefined) {
+    return isFiniteNumber(template.width) && isFiniteNumber(template.height);
+  }
+  return isRect(template);
+}
+
+/**
+ * 解像度スケールがないか、正の数か
+ */
+function isRenderScale(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+}
+
+/**
+ * 同じ内容の複数範囲のテンプレートか
+ */
+function isSameTemplateSet(a: TemplateSet, b: TemplateSet): boolean {
+  return (
+    a.name === b.name &&
+    a.renderScale === b.renderScale &&
+    a.regions.length === b.regions.length &&
+    a.regions.every((r, i) => {
+      const other = b.regions[i];
+      return (
+        r.name === other.name && r.x === other.x && r.y === other.y && r.width === other.width && r.height === other.height
+      );
+    })
+  );
+}
+
+/**
+ * 書き出したJSONからテンプレートを読み込む
+ * 同じIDで内容が違う複数範囲のテンプレートは上書きせず、新しいIDで追加する（同じ内容のものは読み込まない）
+ * @returns 読み込んだ複数範囲のテンプレートの数
+ */
+export function importTemplates(json: string): number {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('テンプレートファイルの形式が正しくありません');
+  }
+  if (!raw || typeof raw !== 'object' || (raw as { format?: unknown }).format !== TEMPLATE_FILE_FORMAT) {
+    throw new Error('切り出しテンプレートのファイルではありません');
+  }
+  const file = raw as Partial<TemplateFile>;
+  if (typeof file.version !== 'number' || file.version > TEMPLATE_FILE_VERSION) {
+    throw new Error('新しいバージョンのツールで書き出したテンプレートです。ツールを更新してください');
+  }
+
+  const sets = Array.isArray(file.templateSets) ? file.templateSets : [];
+  const valid = sets.every(
+    (s) =>
+      s &&
+      typeof s.id === 'string' &&
+      typeof s.name === 'string' &&
+      Array.isArray(s.regions) &&
+      isRenderScale(s.renderScale) &&
+      s.regions.every((r) => isRect(r) && typeof r.name === 'string')
+  );
+  const templates = Array.isArray(file.templates) ? file.templates : [];
+  if (!valid || !templates.every(isCropTemplate)) {
+    throw new Error('テンプレートファイルの形式が正しくありません');
+  }
+
+  const existing = getTemplateSets();
+  let count = 0;
+  sets.forEach((s) => {
+    const templateSet: TemplateSet = {
+      id: s.id,
+      name: s.name,
+      regions: s.regions.map(({ name, x, y, width, height }) => ({ name, x, y, width, height })),
+      renderScale: s.renderScale,
+      createdAt: typeof s.createdAt === 'number' ? s.createdAt : Date.now(),
+    };
+    const sameId = existing.find((e) => e.id === templateSet.id);
+    if (sameId && isSameTemplateSet(sameId, templateSet)) return;
+    if (sameId) templateSet.id = generateId();
+    saveTemplateSet(templateSet);
+    existing.push(templateSet);
+    count++;
+  });
+
+  // 全体の履歴は古いものから保存して、書き出したときの順に戻す
+  [...templates]
+    .reverse()
+    .forEach(({ x, y, width, height, renderScale, createdAt }) =>
+      saveTemplate('global', { x, y, width, height, renderScale, createdAt })
+    );
+
+  return count;
+}
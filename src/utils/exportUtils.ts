@@ -11,11 +11,13 @@ import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
 import { PDFDocument, rgb } from 'pdf-lib';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { LayoutPage, Snippet, TextElement, ImageEnhancement, AppSettings } from '../types';
+import type { LayoutPage, Snippet, TextElement, ImageEnhancement, AppSettings, ProgressInfo } from '../types';
 import { getPaperDimensions } from '../types';
 import { applyRubyBrackets } from './ocrUtils';
-import { mmToPx } from './helpers';
-import { applyImageEnhancement } from './pdfUtils';
+import { mmToPx, createAbortError, isAbortError } from './helpers';
+import { needsImageEnhancement } from './imageFilters';
+import { processImage } from './imageProcessing';
+import { readImageBlob } from './imageStore';
 
 /**
  * テキスト形式でエクスポート
@@ -275,81 +277,55 @@ export const PDF_QUALITY_PRESETS: Record<PdfQuality, PdfQualitySettings> = {
   light: { format: 'jpeg', quality: 0.7, scale: 0.75, useOriginalSize: false },
 };
 
+/**
+ * レイアウト出力（PDF・印刷）の中断・進捗通知
+ */
+export interface LayoutOutputOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ProgressInfo) => void;
+}
+
+/**
+ * 配置済みスニペットの数（進捗表示用）
+ */
+function countPlacedSnippets(layoutPages: LayoutPage[]): number {
+  return layoutPages.reduce((count, page) => count + page.snippets.length, 0);
+}
+
 /**
  * 画像をリサイズ・圧縮する
  * 最高画質モードでは元画像の解像度を維持しつつ、高品質な補間で拡大
- * @param imageData 元の画像データ（Base64）
+ * @param imageId 元の画像ID（画像ストア）
  * @param settings 品質設定
  * @param enhancement 画像補正設定（オプション）
+ * @param signal 中断用のシグナル
  */
 async function processImageForPdf(
-  imageData: string,
+  imageId: string,
   settings: PdfQualitySettings,
-  enhancement?: ImageEnhancement
+  enhancement?: ImageEnhancement,
+  signal?: AbortSignal
 ): Promise<{ data: ArrayBuffer; isPng: boolean; originalWidth: number; originalHeight: number }> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Canvas context not available'));
-        return;
-      }
-
-      // スケールを適用（最高画質モードでは2倍に拡大して高解像度化）
-      canvas.width = Math.round(img.width * settings.scale);
-      canvas.height = Math.round(img.height * settings.scale);
-
-      // シャープ化が有効な場合はスムージングをOFF
-      if (enhancement?.sharpness) {
-        ctx.imageSmoothingEnabled = false;
-      } else {
-        // 高品質な補間を有効化
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-      }
-
-      // 白背景（JPEG用）
-      if (settings.format === 'jpeg') {
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-      }
-
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-
-      // 画像補正を適用
-      let finalCanvas = canvas;
-      if (enhancement) {
-        const needsEnhancement =
-          (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0) ||
-          enhancement.contrast !== 1.0 ||
-          enhancement.brightness !== 1.0 ||
-          enhancement.autoLevels ||
-          enhancement.unsharpMask ||
-          enhancement.grayscale;
-        if (needsEnhancement) {
-          finalCanvas = applyImageEnhancement(canvas, enhancement);
-        }
-      }
+  // スケールを適用（最高画質モードでは2倍に拡大して高解像度化）
+  // JPEGは透明部分が黒くならないよう白背景にする
+  const processed = await processImage(
+    await readImageBlob(imageId),
+    enhancement,
+    {
+      scale: settings.scale,
+      type: settings.format === 'png' ? 'image/png' : 'image/jpeg',
+      quality: settings.quality,
+      background: settings.format === 'jpeg' ? '#ffffff' : undefined,
+    },
+    signal
+  );
 
-      // 出力形式を選択
-      const mimeType = settings.format === 'png' ? 'image/png' : 'image/jpeg';
-      const dataUrl = finalCanvas.toDataURL(mimeType, settings.quality);
-
-      fetch(dataUrl)
-        .then(res => res.arrayBuffer())
-        .then(buffer => resolve({
-          data: buffer,
-          isPng: settings.format === 'png',
-          originalWidth: img.width,
-          originalHeight: img.height
-        }))
-        .catch(reject);
-    };
-    img.onerror = reject;
-    img.src = imageData;
-  });
+  return {
+    data: await processed.blob.arrayBuffer(),
+    isPng: settings.format === 'png',
+    originalWidth: processed.sourceWidth,
+    originalHeight: processed.sourceHeight,
+  };
 }
 
 /**
@@ -358,18 +334,23 @@ async function processImageForPdf(
  * @param layoutPages レイアウトページ配列
  * @param snippets スニペット配列
  * @param quality 出力品質
- * @param enhancement 画像補正設定（オプション）
+ * @param enhancement 画像補正設定（オプション、スニペットごとの補正があればそちらを使う）
  * @param settings アプリ設定（縁取り等）
+ * @param options 中断・進捗通知
  */
 export async function exportLayoutToPDF(
   layoutPages: LayoutPage[],
   snippets: Snippet[],
   quality: PdfQuality = 'high',
   enhancement?: ImageEnhancement,
-  settings?: Partial<AppSettings>
+  settings?: Partial<AppSettings>,
+  options: LayoutOutputOptions = {}
 ): Promise<Blob> {
+  const { signal, onProgress } = options;
   const pdfDoc = await PDFDocument.create();
   const qualitySettings = PDF_QUALITY_PRESETS[quality];
+  const totalSnippets = countPlacedSnippets(layoutPages);
+  let processedSnippets = 0;
 
   // 画面は96 DPI、PDFは72 DPI（ポイント）
   const screenDpi = 96;
@@ -388,12 +369,26 @@ export async function exportLayoutToPDF(
     const marginY = mmToPx(layoutPage.marginY ?? layoutPage.margin ?? 15, pdfDpi);
 
     for (const placedSnippet of layoutPage.snippets) {
+      signal?.throwIfAborted();
+      processedSnippets++;
+      onProgress?.({
+        current: processedSnippets,
+        total: totalSnippets,
+        message: `PDFを出力中: 画像を処理しています (${processedSnippets}/${totalSnippets})`,
+      });
+
       const snippet = snippets.find((s) => s.id === placedSnippet.snippetId);
-      if (!snippet || !snippet.imageData) continue;
+      if (!snippet || !snippet.imageId) continue;
 
       try {
         // 画像を処理（圧縮・リサイズ）してPDFに埋め込み
-        const processed = await processImageForPdf(snippet.imageData, qualitySettings, enhancement);
+        // スニペットごとの補正があれば設定の補正の代わりに使う
+        const processed = await processImageForPdf(
+          snippet.imageId,
+          qualitySettings,
+          snippet.enhancement ?? enhancement,
+          signal
+        );
         const image = processed.isPng
           ? await pdfDoc.embedPng(processed.data)
           : await pdfDoc.embedJpg(processed.data);
@@ -424,6 +419,7 @@ export async function exportLayoutToPDF(
           });
         }
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Failed to embed snippet:', error);
       }
     }
@@ -567,15 +563,18 @@ export async function copyTextToClipboard(text: string): Promise<boolean> {
  * PDFを生成せずにブラウザの印刷ダイアログを開く
  * @param layoutPages レイアウトページ配列
  * @param snippets スニペット配列
- * @param enhancement 画像補正設定（オプション）
+ * @param enhancement 画像補正設定（オプション、スニペットごとの補正があればそちらを使う）
  * @param settings アプリ設定（縁取り等）
+ * @param options 中断・進捗通知
  */
 export async function printLayoutDirectly(
   layoutPages: LayoutPage[],
   snippets: Snippet[],
   enhancement?: ImageEnhancement,
-  settings?: Partial<AppSettings>
+  settings?: Partial<AppSettings>,
+  options: LayoutOutputOptions = {}
 ): Promise<void> {
+  const { signal, onProgress } = options;
   // 印刷用コンテナを作成
   const printContainer = document.createElement('div');
   printContainer.id = 'print-container';
@@ -592,6 +591,11 @@ export async function printLayoutDirectly(
   // 画面は96 DPI基準
   const screenDpi = 96;
 
+  // 印刷後に解放する画像URL
+  const imageUrls: string[] = [];
+  const totalSnippets = countPlacedSnippets(layoutPages);
+  let processedSnippets = 0;
+
   for (let pageIndex = 0; pageIndex < layoutPages.length; pageIndex++) {
     const layoutPage = layoutPages[pageIndex];
     const paperSize = getPaperDimensions(layoutPage.paperSize, layoutPage.orientation);
@@ -616,53 +620,51 @@ export async function printLayoutDirectly(
 
     // スニペットを配置（補正を適用）
     for (const placedSnippet of layoutPage.snippets) {
+      if (signal?.aborted) {
+        imageUrls.forEach((url) => URL.revokeObjectURL(url));
+        throw createAbortError();
+      }
+      processedSnippets++;
+      onProgress?.({
+        current: processedSnippets,
+        total: totalSnippets,
+        message: `印刷を準備中: 画像を処理しています (${processedSnippets}/${totalSnippets})`,
+      });
+
       const snippet = snippets.find((s) => s.id === placedSnippet.snippetId);
-      if (!snippet || !snippet.imageData) continue;
-
-      // 画像補正を適用
-      let finalImageData = snippet.imageData;
-      if (enhancement) {
-        const needsEnhancement =
-          (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0) ||
-          enhancement.contrast !== 1.0 ||
-          enhancement.brightness !== 1.0 ||
-          enhancement.autoLevels ||
-          enhancement.unsharpMask ||
-          enhancement.grayscale;
-        if (needsEnhancement) {
-          // Canvasで補正を適用
-          const tempImg = new Image();
-          tempImg.src = snippet.imageData;
-          await new Promise<void>((resolve) => {
-            tempImg.onload = () => {
-              const canvas = document.createElement('canvas');
-              canvas.width = tempImg.width;
-              canvas.height = tempImg.height;
-              const ctx = canvas.getContext('2d');
-              if (ctx) {
-                ctx.drawImage(tempImg, 0, 0);
-                const enhancedCanvas = applyImageEnhancement(canvas, enhancement);
-                finalImageData = enhancedCanvas.toDataURL('image/png');
-              }
-              resolve();
-            };
-            tempImg.onerror = () => resolve();
-          });
+      if (!snippet || !snippet.imageId) continue;
+
+      // 画像補正を適用（スニペットごとの補正があれば設定の補正の代わりに使う）
+      const snippetEnhancement = snippet.enhancement ?? enhancement;
+      let imageBlob: Blob;
+      try {
+        imageBlob = await readImageBlob(snippet.imageId);
+        if (needsImageEnhancement(snippetEnhancement)) {
+          imageBlob = (await processImage(imageBlob, snippetEnhancement, { type: 'image/png' }, signal)).blob;
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          imageUrls.forEach((url) => URL.revokeObjectURL(url));
+          throw error;
         }
+        console.error('Failed to prepare snippet for print:', error);
+        continue;
       }
+      const imageUrl = URL.createObjectURL(imageBlob);
+      imageUrls.push(imageUrl);
 
       // 縁取りの幅（px）
       const borderWidthPx = settings?.showSnippetBorder ? mmToPx(settings.snippetBorderWidth ?? 0.5, screenDpi) : 0;
 
       const img = document.createElement('img');
-      img.src = finalImageData;
+      img.src = imageUrl;
       img.style.cssText = `
         position: absolute;
         left: ${marginX + placedSnippet.position.x}px;
         top: ${marginY + placedSnippet.position.y}px;
         width: ${placedSnippet.size.width}px;
         height: ${placedSnippet.size.height}px;
-        ${enhancement?.sharpness ? 'image-rendering: crisp-edges;' : ''}
+        ${snippetEnhancement?.sharpness ? 'image-rendering: crisp-edges;' : ''}
         ${settings?.showSnippetBorder ? `border: ${borderWidthPx}px solid black; box-sizing: border-box;` : ''}
       `;
       pageDiv.appendChild(img);
@@ -781,4 +783,5 @@ export async function printLayoutDirectly(
   // クリーンアップ
   document.body.removeChild(printContainer);
   document.head.removeChild(printStyle);
+  imageUrls.forEach((url) => URL.revokeObjectURL(url));
 }
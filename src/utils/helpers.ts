@@ -2,6 +2,8 @@
 // ヘルパー関数
 // =============================================================================
 
+import type { CropArea, PageRenderOptions } from '../types';
+
 /**
  * ユニークIDを生成
  */
@@ -41,6 +43,96 @@ export function createImageFromDataURL(dataURL: string): Promise<HTMLImageElemen
   });
 }
 
+/**
+ * Base64データURLをBlobに変換
+ */
+export function dataURLToBlob(dataURL: string): Blob {
+  const [header, base64] = dataURL.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * BlobをBase64データURLに変換
+ */
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * キャンバスの内容をBlobに変換
+ */
+export function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: string = 'image/png',
+  quality?: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('画像の変換に失敗しました'))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * 画像を時計回りに90度単位で回転したときの矩形の位置
+ * @param frameWidth 回転前の画像の幅
+ * @param frameHeight 回転前の画像の高さ
+ */
+export function rotateRect(rect: CropArea, degrees: number, frameWidth: number, frameHeight: number): CropArea {
+  switch (((degrees % 360) + 360) % 360) {
+    case 90:
+      return { x: frameHeight - rect.y - rect.height, y: rect.x, width: rect.height, height: rect.width };
+    case 180:
+      return {
+        x: frameWidth - rect.x - rect.width,
+        y: frameHeight - rect.y - rect.height,
+        width: rect.width,
+        height: rect.height,
+      };
+    case 270:
+      return { x: rect.y, y: frameWidth - rect.x - rect.width, width: rect.height, height: rect.width };
+    default:
+      return rect;
+  }
+}
+
+/**
+ * 描画したページ画像の幅（サムネイルの倍率計算用）
+ * @param width 描画するページの幅（見開きを分割したページは分割前、ユーザーの回転を加える前の向き）
+ * @param height 同じく高さ
+ */
+export function getRenderedPageWidth(width: number, height: number, options: PageRenderOptions): number {
+  const slicedWidth = options.slice ? width * (options.slice.end - options.slice.start) : width;
+  return Math.abs(options.userRotation ?? 0) % 180 === 0 ? slicedWidth : height;
+}
+
+/**
+ * 処理のキャンセルを表すエラーを作成
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('処理がキャンセルされました', 'AbortError');
+}
+
+/**
+ * 処理のキャンセルによるエラーか
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
 /**
  * ルビを括弧表記に変換
  * 例: 漢字《かんじ》 → 漢字（かんじ）
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NO_ENHANCEMENT,
+  DEFAULT_COLOR_DROPOUT,
+  needsImageEnhancement,
+  getColorDropoutEnhancement,
+  enhanceImageData,
+  getRotatedSize,
+  detectSkewAngle,
+  computeLuminanceHistogram,
+  findBlackWhitePoints,
+} from './imageFilters';
+import type { ColorDropout } from '../types';
+
+/**
+ * 指定した色の画素を並べたImageData（1行）
+ */
+function createImageData(colors: [number, number, number][]): ImageData {
+  const data = new Uint8ClampedArray(colors.flatMap(([r, g, b]) => [r, g, b, 255]));
+  return { data, width: colors.length, height: 1, colorSpace: 'srgb' } as ImageData;
+}
+
+function pixel(imageData: ImageData, index: number): number[] {
+  return Array.from(imageData.data.slice(index * 4, index * 4 + 3));
+}
+
+/**
+ * 座標ごとの輝度で塗ったグレーの画像
+ */
+function createGrayImage(width: number, height: number, luminance: (x: number, y: number) => number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = luminance(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+function luminanceAt(imageData: ImageData, x: number, y: number): number {
+  return imageData.data[(y * imageData.width + x) * 4];
+}
+
+const redDropout: ColorDropout = { ...DEFAULT_COLOR_DROPOUT, red: { enabled: true, tolerance: 50 } };
+
+describe('needsImageEnhancement', () => {
+  it('補正なしでは画素を変えない', () => {
+    expect(needsImageEnhancement(undefined)).toBe(false);
+    expect(needsImageEnhancement(NO_ENHANCEMENT)).toBe(false);
+    // シャープ化は補間方法だけに影響する
+    expect(needsImageEnhancement({ ...NO_ENHANCEMENT, sharpness: true })).toBe(false);
+  });
+
+  it('画素を変える補正があれば必要', () => {
+    expect(needsImageEnhancement({ ...NO_ENHANCEMENT, contrast: 1.2 })).toBe(true);
+    expect(needsImageEnhancement({ ...NO_ENHANCEMENT, binarization: 'sauvola' })).toBe(true);
+    expect(needsImageEnhancement({ ...NO_ENHANCEMENT, colorDropout: redDropout })).toBe(true);
+  });
+});
+
+describe('getColorDropoutEnhancement', () => {
+  it('色消しだけを有効にした補正を返す', () => {
+    expect(getColorDropoutEnhancement(redDropout)).toEqual({ ...NO_ENHANCEMENT, colorDropout: redDropout });
+  });
+
+  it('色消しが無効なら補正しない', () => {
+    expect(getColorDropoutEnhancement(undefined)).toBeUndefined();
+    expect(getColorDropoutEnhancement(DEFAULT_COLOR_DROPOUT)).toBeUndefined();
+  });
+});
+
+describe('enhanceImageData', () => {
+  it('赤ペンを消して黒い文字は残す', () => {
+    const image = createImageData([
+      [220, 30, 30],
+      [20, 20, 20],
+      [40, 80, 200],
+    ]);
+    enhanceImageData(image, getColorDropoutEnhancement(redDropout)!);
+    expect(pixel(image, 0)).toEqual([255, 255, 255]);
+    expect(pixel(image, 1)).toEqual([20, 20, 20]);
+    expect(pixel(image, 2)).toEqual([40, 80, 200]);
+  });
+
+  it('グレースケールにする', () => {
+    const image = createImageData([[200, 100, 50]]);
+    enhanceImageData(image, { ...NO_ENHANCEMENT, grayscale: true });
+    const [r, g, b] = pixel(image, 0);
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+  });
+});
+
+describe('enhanceImageData（二値化）', () => {
+  // 左から右へ明るくなる紙（照明ムラ）に縦線を1本引いた画像
+  const isInk = (x: number) => x >= 28 && x < 32;
+  const createUnevenPage = () => createGrayImage(60, 60, (x) => (isInk(x) ? 60 : 200 + x / 2));
+
+  for (const binarization of ['sauvola', 'niblack'] as const) {
+    it(`${binarization}: 紙は白、文字は黒にする`, () => {
+      const image = createUnevenPage();
+      enhanceImageData(image, { ...NO_ENHANCEMENT, binarization });
+      for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+          expect(luminanceAt(image, x, y)).toBe(isInk(x) ? 0 : 255);
+        }
+      }
+    });
+  }
+});
+
+describe('enhanceImageData（ノイズ除去）', () => {
+  it('小さな点は消して、文字の線は残す', () => {
+    const isDot = (x: number, y: number) => x >= 5 && x < 7 && y >= 5 && y < 7;
+    const isBar = (x: number, y: number) => x >= 5 && x < 35 && y >= 20 && y < 24;
+    const image = createGrayImage(40, 40, (x, y) => (isDot(x, y) || isBar(x, y) ? 0 : 255));
+    enhanceImageData(image, { ...NO_ENHANCEMENT, despeckle: true, despeckleSize: 3 });
+    expect(luminanceAt(image, 5, 5)).toBe(255);
+    expect(luminanceAt(image, 6, 6)).toBe(255);
+    for (let x = 5; x < 35; x++) {
+      expect(luminanceAt(image, x, 21)).toBe(0);
+    }
+  });
+
+  it('文字の中の小さな白い抜けを埋める', () => {
+    const image = createGrayImage(40, 40, (x, y) =>
+      x >= 5 && x < 35 && y >= 20 && y < 26 && !(x === 20 && y === 22) ? 0 : 255
+    );
+    enhanceImageData(image, { ...NO_ENHANCEMENT, despeckle: true });
+    expect(luminanceAt(image, 20, 22)).toBe(0);
+  });
+});
+
+describe('enhanceImageData（端の影の除去）', () => {
+  it('左端の影とその縁を白くして、文字と紙は残す', () => {
+    // 綴じ目側の黒い帯から紙の明るさに戻るグラデーション
+    const shadow = [30, 30, 30, 30, 30, 30, 30, 30, 100, 160, 200, 215];
+    const isText = (x: number, y: number) => x >= 40 && x < 60 && y >= 50 && y < 53;
+    const image = createGrayImage(100, 100, (x, y) => (isText(x, y) ? 20 : shadow[x] ?? 240));
+    enhanceImageData(image, { ...NO_ENHANCEMENT, removeEdgeShadow: true });
+    for (let x = 0; x < shadow.length; x++) {
+      expect(luminanceAt(image, x, 10)).toBe(255);
+    }
+    expect(luminanceAt(image, 50, 51)).toBe(20);
+    expect(luminanceAt(image, 50, 10)).toBe(240);
+    expect(luminanceAt(image, 99, 99)).toBe(240);
+  });
+
+  it('影がなければ変えない', () => {
+    const image = createGrayImage(100, 100, (x, y) => (x >= 40 && x < 60 && y >= 50 && y < 53 ? 20 : 240));
+    const before = Array.from(image.data);
+    enhanceImageData(image, { ...NO_ENHANCEMENT, removeEdgeShadow: true });
+    expect(Array.from(image.data)).toEqual(before);
+  });
+});
+
+describe('getRotatedSize', () => {
+  it('90度単位の回転は縦横を入れ替える', () => {
+    expect(getRotatedSize(300, 200, 0)).toEqual({ width: 300, height: 200 });
+    expect(getRotatedSize(300, 200, 90)).toEqual({ width: 200, height: 300 });
+    expect(getRotatedSize(300, 200, 180)).toEqual({ width: 300, height: 200 });
+  });
+
+  it('斜めの回転は全体が収まる大きさにする', () => {
+    expect(getRotatedSize(100, 100, 45)).toEqual({ width: 141, height: 141 });
+  });
+});
+
+describe('detectSkewAngle', () => {
+  /**
+   * 指定した角度（時計回り、度）で傾いた横線を引いた画像
+   */
+  function createSkewedLines(degrees: number): ImageData {
+    const width = 400;
+    const height = 400;
+    const data = new Uint8ClampedArray(width * height * 4).fill(255);
+    const tan = Math.tan((degrees * Math.PI) / 180);
+    for (let line = 60; line < height - 60; line += 40) {
+      for (let x = 20; x < width - 20; x++) {
+        for (let t = 0; t < 3; t++) {
+          const y = Math.round(line + x * tan) + t;
+          const i = (y * width + x) * 4;
+          data[i] = data[i + 1] = data[i + 2] = 0;
+        }
+      }
+    }
+    return { data, width, height, colorSpace: 'srgb' } as ImageData;
+  }
+
+  it('傾きを打ち消す角度を返す（線の太さ・画素の丸めの分の誤差は許す）', () => {
+    expect(Math.abs(detectSkewAngle(createSkewedLines(2)) + 2)).toBeLessThanOrEqual(0.15);
+    expect(Math.abs(detectSkewAngle(createSkewedLines(-1.5)) - 1.5)).toBeLessThanOrEqual(0.15);
+  });
+
+  it('傾いていなければ0', () => {
+    expect(Math.abs(detectSkewAngle(createSkewedLines(0)))).toBeLessThan(0.1);
+  });
+
+  it('文字がなければ0', () => {
+    expect(detectSkewAngle(createImageData(Array.from({ length: 100 }, () => [255, 255, 255])))).toBe(0);
+  });
+});
+
+describe('findBlackWhitePoints', () => {
+  it('両端のわずかな画素を無視して黒点・白点を求める', () => {
+    const colors: [number, number, number][] = [
+      ...Array.from({ length: 500 }, (): [number, number, number] => [40, 40, 40]),
+      ...Array.from({ length: 499 }, (): [number, number, number] => [230, 230, 230]),
+      [255, 255, 255],
+    ];
+    expect(findBlackWhitePoints(computeLuminanceHistogram(createImageData(colors)))).toEqual({ black: 40, white: 230 });
+  });
+});
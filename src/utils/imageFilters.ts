@@ -0,0 +1,703 @@
+// =============================================================================
+// 画像補正フィルター（ピクセル処理）
+// DOMに依存しないため、メインスレッドと画像処理ワーカーの両方で使う
+// =============================================================================
+
+import type { ImageEnhancement, BinarizationMethod, ColorDropout } from '../types';
+
+/**
+ * オートレベル補正（ヒストグラムストレッチ）
+ * 白を白に、黒を黒に調整
+ */
+function applyAutoLevels(imageData: ImageData): void {
+  const data = imageData.data;
+  let minVal = 255;
+  let maxVal = 0;
+
+  // 最小・最大輝度を検出
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    if (gray < minVal) minVal = gray;
+    if (gray > maxVal) maxVal = gray;
+  }
+
+  // 範囲が狭すぎる場合はスキップ
+  if (maxVal - minVal < 10) return;
+
+  // ヒストグラムストレッチ
+  const range = maxVal - minVal;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.min(255, Math.max(0, ((data[i] - minVal) / range) * 255));
+    data[i + 1] = Math.min(255, Math.max(0, ((data[i + 1] - minVal) / range) * 255));
+    data[i + 2] = Math.min(255, Math.max(0, ((data[i + 2] - minVal) / range) * 255));
+  }
+}
+
+/**
+ * アンシャープマスク（エッジ強調）
+ * 文字のエッジをシャープにする
+ */
+function applyUnsharpMask(imageData: ImageData, amount: number = 0.5): void {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+  const original = new Uint8ClampedArray(data);
+
+  // 3x3カーネルによるボケ検出と強調
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        // 周囲の平均を計算
+        const blur = (
+          original[((y - 1) * width + (x - 1)) * 4 + c] +
+          original[((y - 1) * width + x) * 4 + c] +
+          original[((y - 1) * width + (x + 1)) * 4 + c] +
+          original[(y * width + (x - 1)) * 4 + c] +
+          original[(y * width + x) * 4 + c] +
+          original[(y * width + (x + 1)) * 4 + c] +
+          original[((y + 1) * width + (x - 1)) * 4 + c] +
+          original[((y + 1) * width + x) * 4 + c] +
+          original[((y + 1) * width + (x + 1)) * 4 + c]
+        ) / 9;
+
+        // 差分を強調
+        const diff = original[idx + c] - blur;
+        data[idx + c] = Math.min(255, Math.max(0, original[idx + c] + diff * amount));
+      }
+    }
+  }
+}
+
+/**
+ * グレースケール変換
+ */
+function applyGrayscale(imageData: ImageData): void {
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    data[i] = gray;
+    data[i + 1] = gray;
+    data[i + 2] = gray;
+  }
+}
+
+/**
+ * ガンマ補正（文字を濃くする）
+ * gamma < 1.0: 暗い部分（文字）をより濃く、白い背景はほぼそのまま
+ * gamma > 1.0: 暗い部分を薄く
+ */
+function applyGammaCorrection(imageData: ImageData, gamma: number): void {
+  if (gamma === 1.0) return;
+
+  const data = imageData.data;
+  // ガンマ補正用のルックアップテーブルを作成（高速化）
+  const gammaLUT = new Uint8Array(256);
+  const inverseGamma = 1.0 / gamma;
+  for (let i = 0; i < 256; i++) {
+    gammaLUT[i] = Math.min(255, Math.max(0, Math.round(255 * Math.pow(i / 255, inverseGamma))));
+  }
+
+  // ルックアップテーブルを使って変換
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = gammaLUT[data[i]];
+    data[i + 1] = gammaLUT[data[i + 1]];
+    data[i + 2] = gammaLUT[data[i + 2]];
+  }
+}
+
+/**
+ * コントラスト・明るさ補正
+ * CSSのcontrast()・brightness()フィルターと同じ計算
+ */
+function applyContrastBrightness(imageData: ImageData, contrast: number, brightness: number): void {
+  if (contrast === 1.0 && brightness === 1.0) return;
+
+  const data = imageData.data;
+  const lut = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    const contrasted = (i / 255 - 0.5) * contrast + 0.5;
+    lut[i] = Math.min(255, Math.max(0, Math.round(contrasted * brightness * 255)));
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+}
+
+// 色消しの既定値（すべてOFF）
+export const DEFAULT_COLOR_DROPOUT: ColorDropout = {
+  red: { enabled: false, tolerance: 50 },
+  highlighter: { enabled: false, tolerance: 50 },
+  nonBlack: { enabled: false, tolerance: 50 },
+};
+
+/**
+ * 色消しが有効か
+ */
+export function hasColorDropout(dropout: ColorDropout | undefined): dropout is ColorDropout {
+  return !!dropout && (dropout.red.enabled || dropout.highlighter.enabled || dropout.nonBlack.enabled);
+}
+
+/**
+ * 色相（度）と彩度・明度（0〜1）
+ */
+function toHSV(r: number, g: number, b: number): { hue: number; saturation: number; value: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) hue = 60 * (((g - b) / delta + 6) % 6);
+    else if (max === g) hue = 60 * ((b - r) / delta + 2);
+    else hue = 60 * ((r - g) / delta + 4);
+  }
+  return { hue, saturation: max === 0 ? 0 : delta / max, value: max / 255 };
+}
+
+// 2つの色相の差（度、0〜180）
+function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+// 蛍光ペンの色相（黄色・ピンク）
+const HIGHLIGHTER_HUES = [55, 330];
+
+/**
+ * 色消し（赤ペン・蛍光ペン・黒以外の色を白にする）
+ * 文字と重なった部分は暗いため、赤・蛍光ペンとはみなさず残る
+ */
+function applyColorDropout(imageData: ImageData, dropout: ColorDropout): void {
+  const data = imageData.data;
+  // 許容範囲（0〜100）を色相の幅・彩度の下限に換算
+  const red = dropout.red.enabled
+    ? { hueRange: 8 + dropout.red.tolerance * 0.3, minSaturation: 0.5 - dropout.red.tolerance * 0.004 }
+    : null;
+  const highlighter = dropout.highlighter.enabled
+    ? {
+        hueRange: 10 + dropout.highlighter.tolerance * 0.3,
+        minSaturation: 0.4 - dropout.highlighter.tolerance * 0.0035,
+      }
+    : null;
+  // 黒に近い色とみなす明るさ・色みの上限
+  const black = dropout.nonBlack.enabled
+    ? { maxValue: 80 + dropout.nonBlack.tolerance * 1.5, maxChroma: 30 + dropout.nonBlack.tolerance * 0.7 }
+    : null;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    let remove = false;
+
+    if (black) {
+      const max = Math.max(r, g, b);
+      remove = max > black.maxValue || max - Math.min(r, g, b) > black.maxChroma;
+    }
+    if (!remove && (red || highlighter)) {
+      const { hue, saturation, value } = toHSV(r, g, b);
+      if (red && value >= 0.25 && saturation >= red.minSaturation && hueDistance(hue, 0) <= red.hueRange) {
+        remove = true;
+      } else if (
+        highlighter &&
+        value >= 0.5 &&
+        saturation >= highlighter.minSaturation &&
+        HIGHLIGHTER_HUES.some((h) => hueDistance(hue, h) <= highlighter.hueRange)
+      ) {
+        remove = true;
+      }
+    }
+
+    if (remove) {
+      data[i] = 255;
+      data[i + 1] = 255;
+      data[i + 2] = 255;
+    }
+  }
+}
+
+// ノイズとみなす点の大きさ（px）の既定値・上限
+export const DEFAULT_DESPECKLE_SIZE = 3;
+export const MAX_DESPECKLE_SIZE = 10;
+
+// 文字（黒）とみなす輝度
+const INK_THRESHOLD = 128;
+
+/**
+ * 小さな連結成分を探して処理する（8近傍）
+ * @param isTarget 対象の画素か
+ * @param maxSize 縦横ともにこの大きさ以下の成分を処理する（px）
+ * @param onComponent 小さな成分の画素（添字）を受け取る
+ */
+function forEachSmallComponent(
+  width: number,
+  height: number,
+  isTarget: (p: number) => boolean,
+  maxSize: number,
+  onComponent: (pixels: Int32Array, count: number) => void
+): void {
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const pixels = new Int32Array(width * height);
+
+  for (let start = 0; start < visited.length; start++) {
+    if (visited[start] || !isTarget(start)) continue;
+    visited[start] = 1;
+    let stackSize = 0;
+    let count = 0;
+    stack[stackSize++] = start;
+    let minX = width;
+    let maxX = -1;
+    let minY = height;
+    let maxY = -1;
+
+    while (stackSize > 0) {
+      const p = stack[--stackSize];
+      pixels[count++] = p;
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (visited[q] || !isTarget(q)) continue;
+          visited[q] = 1;
+          stack[stackSize++] = q;
+        }
+      }
+    }
+
+    if (maxX - minX < maxSize && maxY - minY < maxSize) {
+      onComponent(pixels, count);
+    }
+  }
+}
+
+/**
+ * ゴマ塩ノイズの除去
+ * 孤立した小さな黒い点は白に、文字の中の小さな白い抜けは周囲の文字の色で埋める
+ * 文字の一部（濁点・句読点など）を消さないよう、maxSizeは文字の線幅程度にする
+ * @param maxSize ノイズとみなす点の大きさの上限（px）
+ */
+function applyDespeckle(imageData: ImageData, maxSize: number): void {
+  const { data, width, height } = imageData;
+  const size = Math.max(1, Math.min(MAX_DESPECKLE_SIZE, Math.round(maxSize)));
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0, p = 0; p < luminance.length; i += 4, p++) {
+    luminance[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  }
+  const isInk = (p: number) => luminance[p] < INK_THRESHOLD;
+
+  // 黒い点を白にする
+  forEachSmallComponent(width, height, isInk, size, (pixels, count) => {
+    for (let k = 0; k < count; k++) {
+      const i = pixels[k] * 4;
+      data[i] = 255;
+      data[i + 1] = 255;
+      data[i + 2] = 255;
+      luminance[pixels[k]] = 255;
+    }
+  });
+
+  // 白い抜けを周囲の文字の色で埋める（画像の端に接するものは余白なので埋めない）
+  forEachSmallComponent(width, height, (p) => !isInk(p), size, (pixels, count) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let neighbors = 0;
+    for (let k = 0; k < count; k++) {
+      const p = pixels[k];
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) return;
+      for (const q of [p - 1, p + 1, p - width, p + width]) {
+        if (!isInk(q)) continue;
+        r += data[q * 4];
+        g += data[q * 4 + 1];
+        b += data[q * 4 + 2];
+        neighbors++;
+      }
+    }
+    if (neighbors === 0) return;
+    for (let k = 0; k < count; k++) {
+      const i = pixels[k] * 4;
+      data[i] = r / neighbors;
+      data[i + 1] = g / neighbors;
+      data[i + 2] = b / neighbors;
+    }
+  });
+}
+
+// 端の影を探す範囲（画像の幅・高さに対する割合）
+const EDGE_SHADOW_MAX_RATIO = 0.15;
+// 影の中心部とみなす暗さ・影の縁（グラデーション）とみなす暗さ（紙の明るさに対する割合）
+const EDGE_SHADOW_CORE = 0.7;
+const EDGE_SHADOW_FADE = 0.92;
+
+/**
+ * ページ端の影の除去（コピー機の綴じ目・原稿の外側の黒い帯）
+ * 端から内側へ列（行）の平均の明るさを調べ、紙より十分暗い帯と、紙の明るさに戻るまでのグラデーションを白にする
+ */
+function applyEdgeShadowRemoval(imageData: ImageData): void {
+  const { data, width, height } = imageData;
+  const luminance = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  // 列ごと・行ごとの平均の明るさ
+  const columns = new Float64Array(width);
+  const rows = new Float64Array(height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = luminance(x, y);
+      columns[x] += value / height;
+      rows[y] += value / width;
+    }
+  }
+
+  // 端から続く影の幅（影がなければ0）
+  const shadowWidth = (profile: Float64Array, fromEnd: boolean): number => {
+    const sorted = Array.from(profile).sort((a, b) => a - b);
+    const paper = sorted[Math.floor(sorted.length / 2)];
+    const limit = Math.floor(profile.length * EDGE_SHADOW_MAX_RATIO);
+    const at = (k: number) => profile[fromEnd ? profile.length - 1 - k : k];
+    if (at(0) >= paper * EDGE_SHADOW_CORE) return 0;
+    let k = 0;
+    while (k < limit && at(k) < paper * EDGE_SHADOW_CORE) k++;
+    // 影の中心部が探す範囲を超える場合は写真などの暗い画像とみなす
+    if (k >= limit) return 0;
+    while (k < limit && at(k) < paper * EDGE_SHADOW_FADE) k++;
+    return k;
+  };
+
+  const left = shadowWidth(columns, false);
+  const right = shadowWidth(columns, true);
+  const top = shadowWidth(rows, false);
+  const bottom = shadowWidth(rows, true);
+  if (left + right + top + bottom === 0) return;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= left && x < width - right && y >= top && y < height - bottom) continue;
+      const i = (y * width + x) * 4;
+      data[i] = 255;
+      data[i + 1] = 255;
+      data[i + 2] = 255;
+    }
+  }
+}
+
+// 二値化のしきい値を求める範囲（px）の既定値・範囲
+export const DEFAULT_BINARIZATION_WINDOW = 31;
+export const MIN_BINARIZATION_WINDOW = 7;
+export const MAX_BINARIZATION_WINDOW = 151;
+
+// Sauvolaの係数（大きいほど文字が細くなる）と標準偏差の最大値
+const SAUVOLA_K = 0.3;
+const SAUVOLA_R = 128;
+// Niblackの係数（負の値で背景寄りにしきい値を下げる）
+const NIBLACK_K = -0.2;
+// Niblackで背景とみなす濃淡のばらつき（余白のノイズが黒くなるのを防ぐ）
+const NIBLACK_MIN_DEVIATION = 8;
+
+/**
+ * 適応的二値化（Sauvola・Niblack）
+ * 画素ごとに周囲の輝度の平均・標準偏差からしきい値を決めるため、照明ムラがあっても白黒に分けられる
+ * 大きな画像でもメモリを使いすぎないよう、列ごとの累積を行単位でずらしながら計算する
+ * @param windowSize しきい値を求める範囲（px、奇数に丸める）
+ */
+function applyAdaptiveBinarization(imageData: ImageData, method: BinarizationMethod, windowSize: number): void {
+  if (method === 'none') return;
+  const { data, width, height } = imageData;
+  const radius = Math.floor(
+    Math.max(MIN_BINARIZATION_WINDOW, Math.min(MAX_BINARIZATION_WINDOW, Math.round(windowSize))) / 2
+  );
+
+  const gray = new Uint8Array(width * height);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  }
+
+  // 範囲内の行の、列ごとの輝度の合計・二乗和
+  const columnSum = new Float64Array(width);
+  const columnSquares = new Float64Array(width);
+  const addRow = (y: number, sign: number) => {
+    for (let x = 0, p = y * width; x < width; x++, p++) {
+      columnSum[x] += sign * gray[p];
+      columnSquares[x] += sign * gray[p] * gray[p];
+    }
+  };
+
+  let top = 0;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    while (bottom < Math.min(height - 1, y + radius)) addRow(++bottom, 1);
+    while (top < Math.max(0, y - radius)) addRow(top++, -1);
+    const rows = bottom - top + 1;
+
+    let left = 0;
+    let right = -1;
+    let sum = 0;
+    let squares = 0;
+    for (let x = 0; x < width; x++) {
+      while (right < Math.min(width - 1, x + radius)) {
+        right++;
+        sum += columnSum[right];
+        squares += columnSquares[right];
+      }
+      while (left < Math.max(0, x - radius)) {
+        sum -= columnSum[left];
+        squares -= columnSquares[left];
+        left++;
+      }
+      const count = (right - left + 1) * rows;
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, squares / count - mean * mean));
+
+      const value = gray[y * width + x];
+      let isInk: boolean;
+      if (method === 'sauvola') {
+        isInk = value <= mean * (1 + SAUVOLA_K * (deviation / SAUVOLA_R - 1));
+      } else {
+        isInk = deviation >= NIBLACK_MIN_DEVIATION && value <= mean + NIBLACK_K * deviation;
+      }
+
+      const i = (y * width + x) * 4;
+      const output = isInk ? 0 : 255;
+      data[i] = output;
+      data[i + 1] = output;
+      data[i + 2] = output;
+    }
+  }
+}
+
+/**
+ * 回転後の画像サイズ（回転した画像全体が収まる大きさ）
+ * @param degrees 回転（時計回り、度）
+ */
+export function getRotatedSize(width: number, height: number, degrees: number): { width: number; height: number } {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos),
+  };
+}
+
+// 自動検出する傾きの範囲（度）
+export const MAX_SKEW_ANGLE = 5;
+
+// これより小さい傾きは補正しない（度）
+export const MIN_DESKEW_ANGLE = 0.05;
+
+// 傾き検出に使う画素数の目安（大きな画像は間引く）
+const SKEW_SAMPLE_PIXELS = 250000;
+
+/**
+ * スキャン画像の傾きを検出（射影プロファイル法）
+ * 文字の画素を行方向・列方向に投影し、投影が最も鋭くなる角度を探す
+ * 縦書き（列）・横書き（行）のどちらでも検出できる
+ * @returns 補正に必要な回転角度（時計回り、度）。検出できない場合は0
+ */
+export function detectSkewAngle(imageData: ImageData): number {
+  const { data, width, height } = imageData;
+
+  // 文字の画素を間引いて集める
+  const step = Math.max(1, Math.round(Math.sqrt((width * height) / SKEW_SAMPLE_PIXELS)));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let sampled = 0;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      sampled++;
+      if (data[i] + data[i + 1] + data[i + 2] < 384) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // 文字がほとんどない・写真などで大半が暗い場合は検出しない
+  if (xs.length < 100 || xs.length > sampled * 0.5) return 0;
+
+  // 傾けたときに行・列がはみ出す分も含めて投影用の配列を用意
+  const margin = Math.ceil(Math.max(width, height) * Math.tan((MAX_SKEW_ANGLE * Math.PI) / 180)) + step;
+  const rows = new Int32Array(Math.ceil((height + margin * 2) / step));
+  const columns = new Int32Array(Math.ceil((width + margin * 2) / step));
+
+  // 投影の鋭さ（各ビンの画素数の二乗和）
+  const score = (degrees: number): number => {
+    const tan = Math.tan((degrees * Math.PI) / 180);
+    rows.fill(0);
+    columns.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.floor((ys[i] - xs[i] * tan + margin) / step)]++;
+      columns[Math.floor((xs[i] + ys[i] * tan + margin) / step)]++;
+    }
+    let sum = 0;
+    for (let i = 0; i < rows.length; i++) sum += rows[i] * rows[i];
+    for (let i = 0; i < columns.length; i++) sum += columns[i] * columns[i];
+    return sum;
+  };
+
+  // 粗く探してから、最良の角度の周辺を細かく探す
+  const search = (from: number, to: number, interval: number, initial: number): number => {
+    let best = initial;
+    let bestScore = score(initial);
+    for (let degrees = from; degrees <= to + 1e-9; degrees += interval) {
+      const s = score(degrees);
+      if (s > bestScore) {
+        best = degrees;
+        bestScore = s;
+      }
+    }
+    return best;
+  };
+  const coarse = search(-MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 0.25, 0);
+  const fine = search(coarse - 0.25, coarse + 0.25, 0.05, coarse);
+
+  // 検出した傾きを打ち消す向きに回転する
+  return -Math.round(fine * 100) / 100 || 0;
+}
+
+/** 黒点・白点を求めるときに無視する両端の割合（ゴミや白飛びした数画素に引きずられないため） */
+const HISTOGRAM_CLIP_RATIO = 0.005;
+
+/**
+ * 輝度ヒストグラム（0〜255の256段階）
+ * 輝度はオートレベル補正と同じくRGBの平均とする
+ */
+export function computeLuminanceHistogram(imageData: ImageData): Uint32Array {
+  const data = imageData.data;
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round((data[i] + data[i + 1] + data[i + 2]) / 3)]++;
+  }
+  return histogram;
+}
+
+/**
+ * ヒストグラムの黒点・白点（最も暗い文字・最も明るい紙の輝度）
+ */
+export function findBlackWhitePoints(histogram: Uint32Array): { black: number; white: number } {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const clip = total * HISTOGRAM_CLIP_RATIO;
+
+  let black = 0;
+  for (let count = 0; black < 255 && count + histogram[black] <= clip; black++) {
+    count += histogram[black];
+  }
+  let white = 255;
+  for (let count = 0; white > black && count + histogram[white] <= clip; white--) {
+    count += histogram[white];
+  }
+  return { black, white };
+}
+
+/**
+ * 補正なし（設定の初期値・リセット先、プリセットはこれとの差分で定義する）
+ */
+export const NO_ENHANCEMENT: ImageEnhancement = {
+  contrast: 1.0,
+  brightness: 1.0,
+  textDarkness: 1.0, // 小さいほど濃い
+  sharpness: false,
+  autoLevels: false,
+  unsharpMask: false,
+  grayscale: false,
+  deskew: false,
+  binarization: 'none',
+  binarizationWindow: DEFAULT_BINARIZATION_WINDOW,
+  colorDropout: DEFAULT_COLOR_DROPOUT,
+  despeckle: false,
+  despeckleSize: DEFAULT_DESPECKLE_SIZE,
+  removeEdgeShadow: false,
+};
+
+/**
+ * 色消しだけの補正（色消しを指定したスニペットを元のページから切り出し直すときに使う）
+ */
+export function getColorDropoutEnhancement(dropout: ColorDropout | undefined): ImageEnhancement | undefined {
+  return hasColorDropout(dropout) ? { ...NO_ENHANCEMENT, colorDropout: dropout } : undefined;
+}
+
+/**
+ * ピクセルを変更する補正が含まれるか
+ * シャープ化は拡大縮小時の補間方法だけに影響するため含めない
+ */
+export function needsImageEnhancement(enhancement: ImageEnhancement | undefined): enhancement is ImageEnhancement {
+  if (!enhancement) return false;
+  return (
+    enhancement.contrast !== 1.0 ||
+    enhancement.brightness !== 1.0 ||
+    (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0) ||
+    enhancement.autoLevels ||
+    enhancement.unsharpMask ||
+    enhancement.grayscale ||
+    hasColorDropout(enhancement.colorDropout) ||
+    enhancement.despeckle ||
+    enhancement.removeEdgeShadow ||
+    (enhancement.binarization !== undefined && enhancement.binarization !== 'none')
+  );
+}
+
+/**
+ * 画像補正をピクセルデータに直接適用
+ * 色消し → 端の影の除去 → コントラスト・明るさ → グレースケール → オートレベル → ガンマ補正 → アンシャープマスク
+ * → 二値化 → ノイズ除去の順
+ */
+export function enhanceImageData(imageData: ImageData, enhancement: ImageEnhancement): void {
+  // 色消し（色の情報が必要なため最初に実行）
+  if (hasColorDropout(enhancement.colorDropout)) {
+    applyColorDropout(imageData, enhancement.colorDropout);
+  }
+
+  // 端の影の除去（オートレベルが影に引きずられないよう先に実行）
+  if (enhancement.removeEdgeShadow) {
+    applyEdgeShadowRemoval(imageData);
+  }
+
+  applyContrastBrightness(imageData, enhancement.contrast, enhancement.brightness);
+
+  // グレースケール変換
+  if (enhancement.grayscale) {
+    applyGrayscale(imageData);
+  }
+
+  // オートレベル補正
+  if (enhancement.autoLevels) {
+    applyAutoLevels(imageData);
+  }
+
+  // ガンマ補正（文字を濃くする）
+  if (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0) {
+    applyGammaCorrection(imageData, enhancement.textDarkness);
+  }
+
+  // アンシャープマスク
+  if (enhancement.unsharpMask) {
+    applyUnsharpMask(imageData, 0.7); // 強度0.7
+  }
+
+  // 適応的二値化（白黒になるため他の補正は濃淡の調整として効く）
+  if (enhancement.binarization && enhancement.binarization !== 'none') {
+    applyAdaptiveBinarization(imageData, enhancement.binarization, enhancement.binarizationWindow);
+  }
+
+  // ノイズ除去（二値化で残った点も除く）
+  if (enhancement.despeckle) {
+    applyDespeckle(imageData, enhancement.despeckleSize ?? DEFAULT_DESPECKLE_SIZE);
+  }
+}
@@ -0,0 +1,96 @@
+// =============================================================================
+// 画像処理の手順（見開きの分割・拡大縮小・回転・傾き補正・画像補正）
+// 画像処理ワーカー（OffscreenCanvas）とメインスレッド（HTMLCanvasElement）で同じ処理を使う
+// =============================================================================
+
+import type { ImageEnhancement } from '../types';
+import type { ProcessImageOptions } from './imageProcessing';
+import {
+  needsImageEnhancement,
+  enhanceImageData,
+  getRotatedSize,
+  detectSkewAngle,
+  MIN_DESKEW_ANGLE,
+} from './imageFilters';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// 処理に使うキャンバスとそのコンテキスト
+export interface PipelineCanvas<C extends HTMLCanvasElement | OffscreenCanvas> {
+  canvas: C;
+  ctx: Context2D;
+}
+
+/**
+ * 画像に見開きの分割・拡大縮小・回転・傾き補正・画像補正を適用したキャンバスを作る
+ * @param image 元画像
+ * @param createCanvas 指定した大きさのキャンバスを作る（ワーカーとメインスレッドで作り方が違う）
+ */
+export function drawProcessedImage<C extends HTMLCanvasElement | OffscreenCanvas>(
+  image: CanvasImageSource & { width: number; height: number },
+  enhancement: ImageEnhancement | undefined,
+  options: ProcessImageOptions,
+  createCanvas: (width: number, height: number) => PipelineCanvas<C>
+): C {
+  const scale = options.scale ?? 1;
+  const rotation = options.rotation ?? 0;
+  // 見開きの分割では元画像の一部だけを描画する
+  const sourceX = options.sourceSlice ? Math.round(image.width * options.sourceSlice.start) : 0;
+  const sourceWidth = options.sourceSlice ? Math.round(image.width * options.sourceSlice.end) - sourceX : image.width;
+  const drawWidth = Math.round(sourceWidth * scale);
+  const drawHeight = Math.round(image.height * scale);
+
+  const size = getRotatedSize(drawWidth, drawHeight, rotation);
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  // シャープ化が有効な場合はスムージングをOFF、それ以外は高品質な補間
+  if (enhancement?.sharpness) {
+    ctx.imageSmoothingEnabled = false;
+  } else {
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+  }
+  // 回転は中心を軸に行う
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(
+    image,
+    sourceX,
+    0,
+    sourceWidth,
+    image.height,
+    -drawWidth / 2,
+    -drawHeight / 2,
+    drawWidth,
+    drawHeight
+  );
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  // 傾き補正（画像サイズは変えず、はみ出した部分は切り捨てて隅を白で埋める）
+  const deskewAngle =
+    options.deskewAngle ??
+    (enhancement?.deskew ? detectSkewAngle(ctx.getImageData(0, 0, canvas.width, canvas.height)) : 0);
+  if (Math.abs(deskewAngle) >= MIN_DESKEW_ANGLE) {
+    const copy = createCanvas(canvas.width, canvas.height);
+    copy.ctx.drawImage(canvas, 0, 0);
+    ctx.fillStyle = options.background ?? 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((deskewAngle * Math.PI) / 180);
+    ctx.drawImage(copy.canvas, -canvas.width / 2, -canvas.height / 2);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
+
+  if (needsImageEnhancement(enhancement)) {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    enhanceImageData(imageData, enhancement);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  return canvas;
+}
@@ -0,0 +1,224 @@
+// =============================================================================
+// 画像処理ワーカーの呼び出し
+// 画像補正・拡大縮小・エンコードをOffscreenCanvasを使うワーカーで行い、UIを止めない
+// OffscreenCanvasが使えない環境ではメインスレッドで同じ処理を行う
+// =============================================================================
+
+import type { ImageEnhancement } from '../types';
+import { canvasToBlob, createAbortError } from './helpers';
+import { drawProcessedImage } from './imagePipeline';
+
+export interface ProcessImageOptions {
+  scale?: number;      // 拡大縮小率（デフォルト1）
+  type?: string;       // 出力形式（デフォルトPNG）
+  quality?: number;    // JPEG品質 0-1
+  background?: string; // 透明部分を塗りつぶす色
+  rotation?: number;   // 回転（時計回り、度）
+  deskewAngle?: number; // 傾き補正の角度（時計回り、度）。未指定で補正設定のdeskewが有効なら自動検出
+  sourceSlice?: { start: number; end: number }; // 元画像から切り出す横方向の範囲（幅に対する割合、見開きの分割用）
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;        // 出力画像のサイズ
+  height: number;
+  sourceWidth: number;  // 元画像のサイズ
+  sourceHeight: number;
+}
+
+// ワーカーとのメッセージ
+export interface ImageJobRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  enhancement?: ImageEnhancement;
+  options: ProcessImageOptions;
+}
+
+export type ImageJobResponse =
+  | ({ id: number } & ProcessedImage)
+  | { id: number; error: string };
+
+interface ImageJob {
+  request: ImageJobRequest;
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false; // ワーカーを起動できなかった
+let nextJobId = 1;
+
+// ワーカーは1件ずつ処理する（実行中のジョブだけを中断できるように）
+const jobQueue: ImageJob[] = [];
+let activeJob: ImageJob | null = null;
+
+/**
+ * ワーカーで処理できる環境か
+ */
+function canUseWorker(): boolean {
+  return (
+    !workerFailed &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof OffscreenCanvasRenderingContext2D !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImageJobResponse>) => finishJob(event.data);
+    worker.onerror = (event) => {
+      console.error('画像処理ワーカーでエラーが発生しました:', event.message);
+      event.preventDefault();
+      failWorker();
+    };
+  }
+  return worker;
+}
+
+/**
+ * ワーカーを止め、以降はメインスレッドで処理する
+ */
+function failWorker(): void {
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+
+  // 実行中・待機中のジョブはメインスレッドで処理し直す
+  const jobs = activeJob ? [activeJob, ...jobQueue.splice(0)] : jobQueue.splice(0);
+  activeJob = null;
+  for (const job of jobs) {
+    const { bitmap, enhancement, options } = job.request;
+    processOnMainThread(bitmap, enhancement, options)
+      .then(job.resolve, job.reject)
+      .finally(() => bitmap.close());
+  }
+}
+
+function runNextJob(): void {
+  if (activeJob) return;
+  const job = jobQueue.shift();
+  if (!job) return;
+
+  // ビットマップは転送せず複製を渡す（ワーカーが使えなかった場合にメインスレッドで処理し直すため）
+  activeJob = job;
+  getWorker().postMessage(job.request);
+}
+
+function finishJob(response: ImageJobResponse): void {
+  const job = activeJob;
+  if (!job || job.request.id !== response.id) return;
+  activeJob = null;
+  job.request.bitmap.close();
+
+  if ('error' in response) {
+    job.reject(new Error(response.error));
+  } else {
+    const { id: _id, ...result } = response;
+    job.resolve(result);
+  }
+  runNextJob();
+}
+
+/**
+ * ジョブを中断（実行中ならワーカーごと止めて作り直す）
+ */
+function cancelJob(job: ImageJob): void {
+  if (activeJob === job) {
+    worker?.terminate();
+    worker = null;
+    activeJob = null;
+  } else {
+    const index = jobQueue.indexOf(job);
+    if (index === -1) return;
+    jobQueue.splice(index, 1);
+  }
+  job.request.bitmap.close();
+  job.reject(createAbortError());
+  runNextJob();
+}
+
+/**
+ * 画像を読み込む（createImageBitmapが使えない環境向け）
+ */
+function loadBlobImage(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * メインスレッドで画像を処理（ワーカーを使えない環境向け）
+ */
+async function processOnMainThread(
+  source: Blob | HTMLCanvasElement | ImageBitmap,
+  enhancement: ImageEnhancement | undefined,
+  options: ProcessImageOptions
+): Promise<ProcessedImage> {
+  const image = source instanceof Blob ? await loadBlobImage(source) : source;
+  const canvas = drawProcessedImage(image, enhancement, options, (width, height) => {
+    const element = document.createElement('canvas');
+    element.width = width;
+    element.height = height;
+    const ctx = element.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    return { canvas: element, ctx };
+  });
+
+  return {
+    blob: await canvasToBlob(canvas, options.type ?? 'image/png', options.quality),
+    width: canvas.width,
+    height: canvas.height,
+    sourceWidth: image.width,
+    sourceHeight: image.height,
+  };
+}
+
+/**
+ * 画像に補正・拡大縮小を適用してエンコードする
+ * @param source 元画像（Blobまたは描画済みのキャンバス）
+ * @param enhancement 画像補正設定（オプション）
+ * @param options 出力設定
+ * @param signal 中断用のシグナル
+ */
+export async function processImage(
+  source: Blob | HTMLCanvasElement,
+  enhancement: ImageEnhancement | undefined,
+  options: ProcessImageOptions = {},
+  signal?: AbortSignal
+): Promise<ProcessedImage> {
+  signal?.throwIfAborted();
+  if (!canUseWorker()) {
+    return processOnMainThread(source, enhancement, options);
+  }
+
+  const bitmap = await createImageBitmap(source);
+  if (signal?.aborted) {
+    bitmap.close();
+    throw createAbortError();
+  }
+
+  return new Promise<ProcessedImage>((resolve, reject) => {
+    const onAbort = () => cancelJob(job);
+    const job: ImageJob = {
+      request: { id: nextJobId++, bitmap, enhancement, options },
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+    signal?.addEventListener('abort', onAbort);
+    jobQueue.push(job);
+    runNextJob();
+  });
+}
@@ -0,0 +1,228 @@
+// =============================================================================
+// 画像ファイル（JPEG/PNG/TIFF）の読み込み
+// スキャン画像・写真をPDFと同じくページの集まりとして扱い、トリミング・OCR・レイアウトに使う
+// 複数ページのTIFFはページごとに分けて扱う
+// =============================================================================
+
+import * as UTIF from 'utif';
+import type { ImageEnhancement, PageRenderOptions } from '../types';
+import { getRenderedPageWidth } from './helpers';
+import { processImage } from './imageProcessing';
+
+// 取り込める画像形式（MIMEタイプ → 拡張子）
+export const IMAGE_FILE_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/tiff': ['.tif', '.tiff'],
+};
+
+// 解像度が分からない画像は長辺をA4の長辺（pt）に合わせる
+const DEFAULT_LONG_SIDE = 841.89;
+
+// ポイント（1/72インチ）
+const POINTS_PER_INCH = 72;
+
+export interface ImagePageInfo {
+  width: number;       // ページサイズ（pt、PDFのページと同じ単位）
+  height: number;
+  pixelWidth: number;  // 元画像のサイズ（px）
+  pixelHeight: number;
+}
+
+export interface ImageDocument {
+  kind: 'image';
+  numPages: number;
+  pages: ImagePageInfo[];
+  file: File;
+  tiff?: { buffer: ArrayBuffer; ifds: UTIF.IFD[] }; // TIFFのみ
+}
+
+/**
+ * 画像ファイルか（拡張子・MIMEタイプで判定）
+ */
+export function isImageFile(file: File): boolean {
+  if (file.type in IMAGE_FILE_TYPES) return true;
+  const name = file.name.toLowerCase();
+  return Object.values(IMAGE_FILE_TYPES).some((extensions) => extensions.some((ext) => name.endsWith(ext)));
+}
+
+function isTiffFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return file.type === 'image/tiff' || name.endsWith('.tif') || name.endsWith('.tiff');
+}
+
+/**
+ * ページ文書が画像ファイルか（PDFドキュメントとの区別）
+ */
+export function isImageDocument(source: object): source is ImageDocument {
+  return 'kind' in source && source.kind === 'image';
+}
+
+/**
+ * 画素数と解像度からページサイズ（pt）を求める
+ * @param dpi 解像度（不明な場合は長辺をA4に合わせる）
+ */
+function toPageInfo(pixelWidth: number, pixelHeight: number, dpi?: number): ImagePageInfo {
+  const ratio = dpi ? POINTS_PER_INCH / dpi : DEFAULT_LONG_SIDE / Math.max(pixelWidth, pixelHeight);
+  return {
+    width: pixelWidth * ratio,
+    height: pixelHeight * ratio,
+    pixelWidth,
+    pixelHeight,
+  };
+}
+
+/**
+ * TIFFの解像度タグからDPIを取得
+ */
+function getTiffDpi(ifd: UTIF.IFD): number | undefined {
+  const resolution = (ifd.t282 as number[] | undefined)?.[0];
+  const unit = (ifd.t296 as number[] | undefined)?.[0] ?? 2; // 2: インチ、3: センチ
+  if (!resolution || unit === 1) return undefined;
+  const dpi = unit === 3 ? resolution * 2.54 : resolution;
+  // 明らかにおかしい値は使わない
+  return dpi >= 50 ? dpi : undefined;
+}
+
+/**
+ * 画像ファイルを読み込む
+ */
+export async function loadImageDocument(file: File): Promise<ImageDocument> {
+  // 入力検証
+  if (file.size === 0) {
+    throw new Error('ファイルが空です');
+  }
+  if (file.size > 50 * 1024 * 1024) {
+    throw new Error('ファイルサイズが50MBを超えています');
+  }
+  if (!isImageFile(file)) {
+    throw new Error('対応していない画像形式です');
+  }
+
+  if (isTiffFile(file)) {
+    const buffer = await file.arrayBuffer();
+    let ifds: UTIF.IFD[];
+    try {
+      // 縮小版（サムネイル）のIFDは除く
+      ifds = UTIF.decode(buffer).filter(
+        (ifd) => ifd.t256 && ifd.t257 && !(((ifd.t254 as number[] | undefined)?.[0] ?? 0) & 1)
+      );
+    } catch (error) {
+      throw new Error(`TIFFの読み込みに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    }
+    if (ifds.length === 0) {
+      throw new Error('TIFFにページがありません');
+    }
+
+    return {
+      kind: 'image',
+      numPages: ifds.length,
+      pages: ifds.map((ifd) =>
+        toPageInfo((ifd.t256 as number[])[0], (ifd.t257 as number[])[0], getTiffDpi(ifd))
+      ),
+      file,
+      tiff: { buffer, ifds },
+    };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('画像の読み込みに失敗しました');
+  }
+  const page = toPageInfo(bitmap.width, bitmap.height);
+  bitmap.close();
+
+  return { kind: 'image', numPages: 1, pages: [page], file };
+}
+
+/**
+ * TIFFのページをキャンバスにデコード
+ */
+function decodeTiffPage(tiff: NonNullable<ImageDocument['tiff']>, pageNumber: number): HTMLCanvasElement {
+  const ifd = tiff.ifds[pageNumber - 1];
+  UTIF.decodeImage(tiff.buffer, ifd);
+  const rgba = UTIF.toRGBA8(ifd);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = ifd.width;
+  canvas.height = ifd.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  const imageData = ctx.createImageData(ifd.width, ifd.height);
+  imageData.data.set(rgba);
+  ctx.putImageData(imageData, 0, 0);
+
+  // デコード結果はキャンバスに移したので手放す（次に描画するときにデコードし直す）
+  ifd.data = new Uint8Array(0);
+  return canvas;
+}
+
+/**
+ * 画像ファイルのページを画像（PNGのBlob）としてレンダリング
+ * renderPageToImageと同じく、scaleはページサイズ（pt）に対する倍率
+ * @param enhancement 画像補正設定（オプション）
+ * @param options 回転・傾き補正・見開きの分割
+ */
+export async function renderImagePage(
+  imageDocument: ImageDocument,
+  pageNumber: number,
+  scale: number = 2,
+  enhancement?: ImageEnhancement,
+  options: PageRenderOptions = {}
+): Promise<Blob> {
+  const { userRotation = 0, deskewAngle, slice, signal } = options;
+  signal?.throwIfAborted();
+  const page = imageDocument.pages[pageNumber - 1];
+  if (!page) throw new Error('ページが見つかりません');
+
+  let source: Blob | HTMLCanvasElement = imageDocument.tiff
+    ? decodeTiffPage(imageDocument.tiff, pageNumber)
+    : imageDocument.file;
+  let pointsPerPixel = page.width / page.pixelWidth;
+
+  // 分割したページは、分割前に見開きに加えていた回転を先に加えてから切り出す
+  if (slice && slice.rotation % 360 !== 0) {
+    const rotated = await processImage(source, undefined, { type: 'image/png', rotation: slice.rotation }, signal);
+    source = rotated.blob;
+    pointsPerPixel = (slice.rotation % 180 === 0 ? page.width : page.height) / rotated.width;
+  }
+
+  const processed = await processImage(
+    source,
+    enhancement,
+    {
+      scale: pointsPerPixel * scale,
+      type: 'image/png',
+      background: 'white', // 透明部分を白に
+      rotation: userRotation,
+      deskewAngle,
+      sourceSlice: slice,
+    },
+    signal
+  );
+  return processed.blob;
+}
+
+/**
+ * 画像ファイルのページを一覧表示用の縮小画像としてレンダリング
+ * @param width サムネイルの幅（px）
+ * @param options 回転・傾き補正・見開きの分割
+ */
+export async function renderImageThumbnail(
+  imageDocument: ImageDocument,
+  pageNumber: number,
+  width: number,
+  enhancement?: ImageEnhancement,
+  options: PageRenderOptions = {}
+): Promise<Blob> {
+  const page = imageDocument.pages[pageNumber - 1];
+  if (!page) throw new Error('ページが見つかりません');
+  // 90度・270度回転では元画像の高さが幅になる
+  const quarterTurned = (options.slice?.rotation ?? 0) % 180 !== 0;
+  const renderedWidth = quarterTurned
+    ? getRenderedPageWidth(page.height, page.width, options)
+    : getRenderedPageWidth(page.width, page.height, options);
+  return renderImagePage(imageDocument, pageNumber, width / renderedWidth, enhancement, options);
+}
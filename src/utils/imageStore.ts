@@ -0,0 +1,152 @@
+// =============================================================================
+// 画像ストア
+// ページ画像・スニペット画像はBlobとしてIndexedDBに置き、状態にはIDだけを持たせる
+// 表示用のオブジェクトURLは使用中のものと直近の一定数だけを保持する
+// =============================================================================
+
+import { generateId, canvasToBlob, blobToDataURL } from './helpers';
+import { saveImageBlob, getImageBlob } from './storageUtils';
+
+// 表示されていない画像のオブジェクトURLを保持しておく上限
+const MAX_IDLE_URLS = 48;
+
+interface CachedURL {
+  url: string;
+  refCount: number; // 表示中のコンポーネント数
+}
+
+// 挿入順を最近使った順として扱う
+const urlCache = new Map<string, CachedURL>();
+const loadingURLs = new Map<string, Promise<string>>();
+
+/**
+ * 使われていないオブジェクトURLを古い順に解放
+ */
+function evictIdleURLs(): void {
+  let idleCount = 0;
+  urlCache.forEach((entry) => {
+    if (entry.refCount === 0) idleCount++;
+  });
+
+  for (const [id, entry] of urlCache) {
+    if (idleCount <= MAX_IDLE_URLS) break;
+    if (entry.refCount > 0) continue;
+    URL.revokeObjectURL(entry.url);
+    urlCache.delete(id);
+    idleCount--;
+  }
+}
+
+/**
+ * 画像を保存してIDを返す
+ */
+export async function saveImage(blob: Blob): Promise<string> {
+  const id = generateId();
+  await saveImageBlob(id, blob);
+  return id;
+}
+
+/**
+ * キャンバスの内容を画像として保存してIDを返す
+ */
+export async function saveCanvasImage(
+  canvas: HTMLCanvasElement,
+  type: string = 'image/png',
+  quality?: number
+): Promise<string> {
+  return saveImage(await canvasToBlob(canvas, type, quality));
+}
+
+/**
+ * 画像のBlobを取得
+ */
+export async function readImageBlob(imageId: string): Promise<Blob> {
+  const blob = await getImageBlob(imageId);
+  if (!blob) {
+    throw new Error('画像が見つかりません');
+  }
+  return blob;
+}
+
+/**
+ * 画像をBase64データURLとして取得（OCR・印刷ウィンドウ用）
+ */
+export async function readImageDataURL(imageId: string): Promise<string> {
+  return blobToDataURL(await readImageBlob(imageId));
+}
+
+/**
+ * 表示用のオブジェクトURLを取得（使い終わったらreleaseImageURLを呼ぶ）
+ */
+export async function acquireImageURL(imageId: string): Promise<string> {
+  const cached = urlCache.get(imageId);
+  if (cached) {
+    cached.refCount++;
+    // 最近使ったものとして末尾に移動
+    urlCache.delete(imageId);
+    urlCache.set(imageId, cached);
+    return cached.url;
+  }
+
+  let loading = loadingURLs.get(imageId);
+  if (!loading) {
+    loading = readImageBlob(imageId).then((blob) => {
+      const url = URL.createObjectURL(blob);
+      urlCache.set(imageId, { url, refCount: 0 });
+      return url;
+    });
+    loadingURLs.set(imageId, loading);
+    loading.then(
+      () => loadingURLs.delete(imageId),
+      () => loadingURLs.delete(imageId)
+    );
+  }
+
+  const url = await loading;
+  const entry = urlCache.get(imageId);
+  if (entry) entry.refCount++;
+  return url;
+}
+
+/**
+ * オブジェクトURLの使用を終える
+ */
+export function releaseImageURL(imageId: string): void {
+  const entry = urlCache.get(imageId);
+  if (!entry) return;
+  entry.refCount = Math.max(0, entry.refCount - 1);
+  if (entry.refCount === 0) {
+    evictIdleURLs();
+  }
+}
+
+/**
+ * 画像を読み込んだImage要素を取得（キャンバス描画用）
+ */
+export async function loadImageElement(imageId: string): Promise<HTMLImageElement> {
+  const url = await acquireImageURL(imageId);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
+      img.src = url;
+    });
+  } finally {
+    releaseImageURL(imageId);
+  }
+}
+
+/**
+ * 画像のピクセルデータを取得（余白の検出などの解析用）
+ */
+export async function loadImageData(imageId: string): Promise<ImageData> {
+  const img = await loadImageElement(imageId);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
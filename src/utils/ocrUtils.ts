@@ -5,6 +5,7 @@
 // =============================================================================
 
 import Tesseract from 'tesseract.js';
+import { TESSERACT_WORKER_URL, TESSERACT_CORE_URL, TESSERACT_LANG_URL } from './offlineAssets';
 
 export interface OCRResult {
   text: string;
@@ -41,7 +42,11 @@ async function getWorker(): Promise<Tesseract.Worker> {
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
       // 修正: 'jpn_vert' から 'jpn' に変更して、縦書き・横書き両方に対応
+      // ワーカー・OCRエンジン・学習データはアプリから配信する（NF-002: オフラインで動作）
       worker = await Tesseract.createWorker('jpn', 1, {
+        workerPath: TESSERACT_WORKER_URL,
+        corePath: TESSERACT_CORE_URL,
+        langPath: TESSERACT_LANG_URL,
         logger: (m) => {
           if (m.status === 'recognizing text' && progressCallback) {
             progressCallback(Math.round(m.progress * 100));
@@ -73,13 +78,13 @@ async function getWorker(): Promise<Tesseract.Worker> {
  * P1-003: 縦書きOCR対応
  */
 export async function runOCR(
-  imageData: string,
+  imageData: string | Blob,
   onProgress?: (progress: number) => void
 ): Promise<OCRResult> {
   if (!imageData) {
     throw new Error('画像データが指定されていません');
   }
-  if (!imageData.startsWith('data:image/')) {
+  if (typeof imageData === 'string' ? !imageData.startsWith('data:image/') : !imageData.type.startsWith('image/')) {
     throw new Error('無効な画像データ形式です');
   }
 
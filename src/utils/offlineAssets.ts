@@ -0,0 +1,56 @@
+// =============================================================================
+// オフライン用の配信ファイル
+// NF-002: ローカル処理 - PDF.js・Tesseract.jsが実行時に読み込むファイルをCDNではなくアプリから配信する
+// 配信はvite.config.tsのofflineAssetsプラグインで行う（パスはそちらと合わせる）
+// =============================================================================
+
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+/**
+ * アプリの配信元からの絶対URL
+ * Tesseract.jsはBlobのワーカーから読み込むため、相対パスは使えない
+ */
+function assetURL(path: string): string {
+  return new URL(`${import.meta.env.BASE_URL}${path}`, window.location.href).href;
+}
+
+// PDF.js
+export const PDFJS_WORKER_URL = pdfWorkerUrl;
+export const PDFJS_CMAP_URL = assetURL('pdfjs/cmaps/');
+export const PDFJS_STANDARD_FONT_URL = assetURL('pdfjs/standard_fonts/');
+
+// Tesseract.js
+export const TESSERACT_WORKER_URL = assetURL('tesseract/worker.min.js');
+export const TESSERACT_CORE_URL = assetURL('tesseract/core');
+export const TESSERACT_LANG_URL = assetURL('tesseract/lang');
+
+// 起動時に確認するファイル（ディレクトリは代表的なファイルで確認する）
+const REQUIRED_ASSETS: Array<{ name: string; url: string }> = [
+  { name: 'PDF.jsワーカー', url: PDFJS_WORKER_URL },
+  { name: 'PDF.js文字コード表（日本語）', url: `${PDFJS_CMAP_URL}UniJIS-UCS2-H.bcmap` },
+  { name: 'PDF.js標準フォント', url: `${PDFJS_STANDARD_FONT_URL}FoxitSerif.pfb` },
+  { name: 'OCRワーカー', url: TESSERACT_WORKER_URL },
+  { name: 'OCRエンジン', url: `${TESSERACT_CORE_URL}/tesseract-core-lstm.wasm.js` },
+  { name: 'OCRエンジン（SIMD）', url: `${TESSERACT_CORE_URL}/tesseract-core-simd-lstm.wasm.js` },
+  { name: 'OCR日本語データ', url: `${TESSERACT_LANG_URL}/jpn.traineddata.gz` },
+];
+
+/**
+ * 配信ファイルがそろっているか確認
+ * @returns 見つからなかったファイルの名前
+ */
+export async function checkOfflineAssets(): Promise<string[]> {
+  const results = await Promise.all(
+    REQUIRED_ASSETS.map(async (asset) => {
+      try {
+        const response = await fetch(asset.url, { method: 'HEAD', cache: 'no-store' });
+        // 見つからないファイルにindex.htmlを返すサーバーもあるため、HTMLは見つからなかったとみなす
+        const isHTML = response.headers.get('Content-Type')?.startsWith('text/html') ?? false;
+        return response.ok && !isHTML ? null : asset.name;
+      } catch {
+        return asset.name;
+      }
+    })
+  );
+  return results.filter((name): name is string => name !== null);
+}
@@ -0,0 +1,204 @@
+// =============================================================================
+// ページのオンデマンドレンダリング管理
+// PDFドキュメント・画像ファイルを開いたまま保持し、表示・トリミング・OCRで必要になったページだけを描画する
+// 描画済みページが上限を超えたら、使われていないものから古い順に破棄する
+// =============================================================================
+
+import type * as pdfjsLib from 'pdfjs-dist';
+import type { PDFFile, PDFPage, PageRenderOptions } from '../types';
+import { loadPDF } from './pdfUtils';
+import { loadImageDocument, isImageDocument, type ImageDocument } from './imageSourceUtils';
+
+// 描画済みページ画像（トリミング用の高解像度画像）を保持する上限
+// サムネイルは小さいため上限を設けない
+export const MAX_RENDERED_PAGES = 40;
+
+// ページ画像の種類（トリミング用の高解像度画像・一覧表示用のサムネイル）
+export type PageRendition = 'page' | 'thumbnail';
+
+// ページの取り出し元（PDFドキュメントまたは画像ファイル）
+export type SourceDocument = pdfjsLib.PDFDocumentProxy | ImageDocument;
+
+// 開いているドキュメント（ファイルID → ドキュメント）
+const documents = new Map<string, Promise<SourceDocument>>();
+
+// パスワード保護されたPDFのパスワード（開き直すときに使う、保存はしない）
+const passwords = new Map<string, string>();
+
+// 使用中のページ画像（表示中・トリミング中・OCR中）の参照数
+const retainCounts = new Map<string, number>();
+
+// ページを最後に使った日時
+const lastUsed = new Map<string, number>();
+
+// 描画中・描画待ちのページ
+const pendingRenders = new Map<string, Promise<string | undefined>>();
+
+// 描画は1ページずつ順番に行う
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+function pageKey(fileId: string, pageNumber: number): string {
+  return `${fileId}:${pageNumber}`;
+}
+
+function renditionKey(fileId: string, pageNumber: number, rendition: PageRendition): string {
+  return `${rendition}:${pageKey(fileId, pageNumber)}`;
+}
+
+/**
+ * ページ画像の描画内容を決める設定（元のページ・回転・傾き補正・見開きの分割・ファイルの補正・色消し）
+ * 設定が変わったページは描画し直す
+ */
+export function getRenderVariant(file: PDFFile, page: PDFPage): string {
+  const slice = page.slice ? `${page.slice.start}-${page.slice.end}@${page.slice.rotation}` : 'full';
+  const enhancement = file.enhancement ? JSON.stringify(file.enhancement) : 'default';
+  const dropout = page.colorDropout ? JSON.stringify(page.colorDropout) : 'file';
+  return `${page.sourcePageNumber ?? page.pageNumber}:${slice}:${page.userRotation ?? 0}:${page.deskewAngle ?? 'auto'}:${enhancement}:${dropout}`;
+}
+
+/**
+ * ページの描画設定（renderPageToImage・renderImagePage）
+ */
+export function getRenderOptions(page: PDFPage): PageRenderOptions {
+  return { userRotation: page.userRotation, deskewAngle: page.deskewAngle, slice: page.slice };
+}
+
+/**
+ * 読み込み済みのドキュメントを登録
+ * @param password パスワード保護されたPDFを開いたパスワード
+ */
+export function registerDocument(fileId: string, source: SourceDocument, password?: string): void {
+  documents.set(fileId, Promise.resolve(source));
+  if (password !== undefined) passwords.set(fileId, password);
+}
+
+/**
+ * ドキュメントを取得（リロード後などで閉じている場合は開き直す）
+ */
+export function openDocument(file: PDFFile): Promise<SourceDocument> {
+  let sourceDocument = documents.get(file.id);
+  if (!sourceDocument) {
+    sourceDocument =
+      file.sourceType === 'image'
+        ? loadImageDocument(file.file)
+        : loadPDF(file.file, passwords.get(file.id)).then((data) => data.pdf);
+    documents.set(file.id, sourceDocument);
+    sourceDocument.catch(() => documents.delete(file.id));
+  }
+  return sourceDocument;
+}
+
+/**
+ * ドキュメントを閉じる
+ */
+export function closeDocument(fileId: string): void {
+  const sourceDocument = documents.get(fileId);
+  documents.delete(fileId);
+  passwords.delete(fileId);
+  sourceDocument
+    ?.then((source) => {
+      if (!isImageDocument(source)) return source.destroy();
+    })
+    .catch(() => undefined);
+
+  const prefix = `${fileId}:`;
+  for (const key of Array.from(lastUsed.keys())) {
+    if (key.startsWith(prefix)) lastUsed.delete(key);
+  }
+}
+
+/**
+ * 開いているすべてのドキュメントを閉じる（プロジェクト切り替え時）
+ */
+export function closeAllDocuments(): void {
+  Array.from(documents.keys()).forEach(closeDocument);
+}
+
+/**
+ * ページを最近使ったものとして記録
+ */
+export function touchPage(fileId: string, pageNumber: number): void {
+  lastUsed.set(pageKey(fileId, pageNumber), Date.now());
+}
+
+/**
+ * ページ画像を使用中にする（使用中のページ画像は破棄しない）
+ */
+export function retainPage(fileId: string, pageNumber: number, rendition: PageRendition = 'page'): void {
+  const key = renditionKey(fileId, pageNumber, rendition);
+  retainCounts.set(key, (retainCounts.get(key) ?? 0) + 1);
+  if (rendition === 'page') touchPage(fileId, pageNumber);
+}
+
+/**
+ * ページ画像の使用を終える
+ */
+export function releasePage(fileId: string, pageNumber: number, rendition: PageRendition = 'page'): void {
+  const key = renditionKey(fileId, pageNumber, rendition);
+  const count = (retainCounts.get(key) ?? 0) - 1;
+  if (count > 0) {
+    retainCounts.set(key, count);
+  } else {
+    retainCounts.delete(key);
+  }
+  if (rendition === 'page') touchPage(fileId, pageNumber);
+}
+
+function isPageRetained(fileId: string, pageNumber: number, rendition: PageRendition): boolean {
+  return retainCounts.has(renditionKey(fileId, pageNumber, rendition));
+}
+
+/**
+ * ページの描画を予約（同じページ・同じ描画設定の描画は1回にまとめる）
+ * 順番が来た時点で使われなくなっていたページは描画しない
+ * @param variant 描画設定（getRenderVariant）。描画中に設定が変わった場合は別に描画する
+ */
+export function scheduleRender(
+  fileId: string,
+  pageNumber: number,
+  rendition: PageRendition,
+  render: () => Promise<string | undefined>,
+  variant: string = ''
+): Promise<string | undefined> {
+  const key = `${renditionKey(fileId, pageNumber, rendition)}@${variant}`;
+  const pending = pendingRenders.get(key);
+  if (pending) return pending;
+
+  const task = renderQueue.then(() => (isPageRetained(fileId, pageNumber, rendition) ? render() : undefined));
+  renderQueue = task.catch(() => undefined);
+  pendingRenders.set(key, task);
+  task.then(
+    () => pendingRenders.delete(key),
+    () => pendingRenders.delete(key)
+  );
+  return task;
+}
+
+/**
+ * 上限を超えた描画済みページのうち、使われていないものを古い順に選ぶ
+ */
+export function selectPagesToEvict(files: PDFFile[]): Array<{ fileId: string; pageNumber: number }> {
+  const candidates: Array<{ fileId: string; pageNumber: number; lastUsed: number }> = [];
+  let renderedCount = 0;
+
+  for (const file of files) {
+    for (const page of file.pages) {
+      if (!page.imageId) continue;
+      renderedCount++;
+      if (isPageRetained(file.id, page.pageNumber, 'page')) continue;
+      candidates.push({
+        fileId: file.id,
+        pageNumber: page.pageNumber,
+        lastUsed: lastUsed.get(pageKey(file.id, page.pageNumber)) ?? 0,
+      });
+    }
+  }
+
+  const excess = renderedCount - MAX_RENDERED_PAGES;
+  if (excess <= 0) return [];
+
+  return candidates
+    .sort((a, b) => a.lastUsed - b.lastUsed)
+    .slice(0, excess)
+    .map(({ fileId, pageNumber }) => ({ fileId, pageNumber }));
+}
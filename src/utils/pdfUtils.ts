@@ -6,219 +6,42 @@
 // =============================================================================
 
 import * as pdfjsLib from 'pdfjs-dist';
-import type { ImageEnhancement } from '../types';
+import type { ImageEnhancement, PageRenderOptions } from '../types';
+import { canvasToBlob, createAbortError, getRenderedPageWidth } from './helpers';
+import { processImage } from './imageProcessing';
+import { PDFJS_WORKER_URL, PDFJS_CMAP_URL, PDFJS_STANDARD_FONT_URL } from './offlineAssets';
 
-// PDF.jsのワーカー設定（jsdelivrはCORS対応）
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+// PDF.jsのワーカー設定（アプリから配信、NF-002）
+pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
 
-/**
- * オートレベル補正（ヒストグラムストレッチ）
- * 白を白に、黒を黒に調整
- */
-function applyAutoLevels(imageData: ImageData): void {
-  const data = imageData.data;
-  let minVal = 255;
-  let maxVal = 0;
-
-  // 最小・最大輝度を検出
-  for (let i = 0; i < data.length; i += 4) {
-    const gray = (data[i] + data[i + 1] + data[i + 2]) / 3;
-    if (gray < minVal) minVal = gray;
-    if (gray > maxVal) maxVal = gray;
-  }
-
-  // 範囲が狭すぎる場合はスキップ
-  if (maxVal - minVal < 10) return;
-
-  // ヒストグラムストレッチ
-  const range = maxVal - minVal;
-  for (let i = 0; i < data.length; i += 4) {
-    data[i] = Math.min(255, Math.max(0, ((data[i] - minVal) / range) * 255));
-    data[i + 1] = Math.min(255, Math.max(0, ((data[i + 1] - minVal) / range) * 255));
-    data[i + 2] = Math.min(255, Math.max(0, ((data[i + 2] - minVal) / range) * 255));
-  }
-}
-
-/**
- * アンシャープマスク（エッジ強調）
- * 文字のエッジをシャープにする
- */
-function applyUnsharpMask(imageData: ImageData, amount: number = 0.5): void {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-  const original = new Uint8ClampedArray(data);
-
-  // 3x3カーネルによるボケ検出と強調
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      for (let c = 0; c < 3; c++) {
-        // 周囲の平均を計算
-        const blur = (
-          original[((y - 1) * width + (x - 1)) * 4 + c] +
-          original[((y - 1) * width + x) * 4 + c] +
-          original[((y - 1) * width + (x + 1)) * 4 + c] +
-          original[(y * width + (x - 1)) * 4 + c] +
-          original[(y * width + x) * 4 + c] +
-          original[(y * width + (x + 1)) * 4 + c] +
-          original[((y + 1) * width + (x - 1)) * 4 + c] +
-          original[((y + 1) * width + x) * 4 + c] +
-          original[((y + 1) * width + (x + 1)) * 4 + c]
-        ) / 9;
-
-        // 差分を強調
-        const diff = original[idx + c] - blur;
-        data[idx + c] = Math.min(255, Math.max(0, original[idx + c] + diff * amount));
-      }
-    }
-  }
+export interface PDFPageInfo {
+  width: number;    // /Rotateを反映したページサイズ（pt）
+  height: number;
+  rotation: number; // /Rotate（0/90/180/270）
 }
 
-/**
- * グレースケール変換
- */
-function applyGrayscale(imageData: ImageData): void {
-  const data = imageData.data;
-  for (let i = 0; i < data.length; i += 4) {
-    const gray = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
-    data[i] = gray;
-    data[i + 1] = gray;
-    data[i + 2] = gray;
-  }
+export interface PDFData {
+  pdf: pdfjsLib.PDFDocumentProxy;
+  numPages: number;
+  pages: PDFPageInfo[];
 }
 
 /**
- * ガンマ補正（文字を濃くする）
- * gamma < 1.0: 暗い部分（文字）をより濃く、白い背景はほぼそのまま
- * gamma > 1.0: 暗い部分を薄く
+ * PDFを開くのにパスワードが必要なことを表すエラー
  */
-function applyGammaCorrection(imageData: ImageData, gamma: number): void {
-  if (gamma === 1.0) return;
-
-  const data = imageData.data;
-  // ガンマ補正用のルックアップテーブルを作成（高速化）
-  const gammaLUT = new Uint8Array(256);
-  const inverseGamma = 1.0 / gamma;
-  for (let i = 0; i < 256; i++) {
-    gammaLUT[i] = Math.min(255, Math.max(0, Math.round(255 * Math.pow(i / 255, inverseGamma))));
-  }
-
-  // ルックアップテーブルを使って変換
-  for (let i = 0; i < data.length; i += 4) {
-    data[i] = gammaLUT[data[i]];
-    data[i + 1] = gammaLUT[data[i + 1]];
-    data[i + 2] = gammaLUT[data[i + 2]];
+export class PDFPasswordError extends Error {
+  constructor(public readonly incorrectPassword: boolean) {
+    super(incorrectPassword ? 'パスワードが違います' : 'パスワードで保護されています');
+    this.name = 'PDFPasswordError';
   }
 }
 
-/**
- * 画像補正を適用
- * コントラスト・明るさ・シャープ化・オートレベル・アンシャープマスク・グレースケール
- */
-export function applyImageEnhancement(
-  canvas: HTMLCanvasElement,
-  enhancement: ImageEnhancement
-): HTMLCanvasElement {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return canvas;
-
-  // フィルターが必要ない場合はそのまま返す
-  const needsProcessing =
-    enhancement.contrast !== 1.0 ||
-    enhancement.brightness !== 1.0 ||
-    (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0) ||
-    enhancement.sharpness ||
-    enhancement.autoLevels ||
-    enhancement.unsharpMask ||
-    enhancement.grayscale;
-
-  if (!needsProcessing) {
-    return canvas;
-  }
-
-  // 新しいキャンバスを作成
-  const enhancedCanvas = document.createElement('canvas');
-  enhancedCanvas.width = canvas.width;
-  enhancedCanvas.height = canvas.height;
-  const enhancedCtx = enhancedCanvas.getContext('2d');
-  if (!enhancedCtx) return canvas;
-
-  // 背景を白で塗りつぶし（透明背景対策）
-  enhancedCtx.fillStyle = 'white';
-  enhancedCtx.fillRect(0, 0, enhancedCanvas.width, enhancedCanvas.height);
-
-  // シャープ化: imageSmoothingEnabledをOFFに
-  if (enhancement.sharpness) {
-    enhancedCtx.imageSmoothingEnabled = false;
-  }
-
-  // コントラスト・明るさフィルターを適用
-  const filters: string[] = [];
-  if (enhancement.contrast !== 1.0) {
-    filters.push(`contrast(${enhancement.contrast})`);
-  }
-  if (enhancement.brightness !== 1.0) {
-    filters.push(`brightness(${enhancement.brightness})`);
-  }
-  if (filters.length > 0) {
-    enhancedCtx.filter = filters.join(' ');
-  }
-
-  // 元の画像を描画
-  enhancedCtx.drawImage(canvas, 0, 0);
-
-  // フィルターをリセット（ピクセル操作のため）
-  enhancedCtx.filter = 'none';
-
-  // ピクセル単位の処理が必要な場合
-  const needsPixelProcessing =
-    enhancement.autoLevels ||
-    enhancement.unsharpMask ||
-    enhancement.grayscale ||
-    (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0);
-
-  if (needsPixelProcessing) {
-    const imageData = enhancedCtx.getImageData(0, 0, enhancedCanvas.width, enhancedCanvas.height);
-
-    // グレースケール変換（最初に実行）
-    if (enhancement.grayscale) {
-      applyGrayscale(imageData);
-    }
-
-    // オートレベル補正
-    if (enhancement.autoLevels) {
-      applyAutoLevels(imageData);
-    }
-
-    // ガンマ補正（文字を濃くする）
-    if (enhancement.textDarkness !== undefined && enhancement.textDarkness !== 1.0) {
-      applyGammaCorrection(imageData, enhancement.textDarkness);
-    }
-
-    // アンシャープマスク（最後に実行）
-    if (enhancement.unsharpMask) {
-      applyUnsharpMask(imageData, 0.7); // 強度0.7
-    }
-
-    enhancedCtx.putImageData(imageData, 0, 0);
-  }
-
-  return enhancedCanvas;
-}
-
-export interface PDFData {
-  pdf: pdfjsLib.PDFDocumentProxy;
-  numPages: number;
-  width: number;
-  height: number;
-}
-
 /**
  * PDFファイルを読み込む
  * P1-001: PDF読み込み（単体）
+ * @param password 開くためのパスワード（パスワード保護されたPDFのみ）
  */
-export async function loadPDF(file: File): Promise<PDFData> {
+export async function loadPDF(file: File, password?: string): Promise<PDFData> {
   // 入力検証
   if (!file) {
     throw new Error('ファイルが指定されていません');
@@ -239,18 +62,22 @@ export async function loadPDF(file: File): Promise<PDFData> {
   try {
     pdf = await pdfjsLib.getDocument({
       data: arrayBuffer,
-      // 日本語フォント（CIDフォント）を正しくレンダリングするためのCMap設定
-      // jsdelivrはCORSヘッダーを正しく設定している
-      cMapUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/cmaps/`,
+      password,
+      // 日本語フォント（CIDフォント）を正しくレンダリングするためのCMap設定（アプリから配信）
+      cMapUrl: PDFJS_CMAP_URL,
       cMapPacked: true,
-      // 標準フォントのフォールバック
-      standardFontDataUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/standard_fonts/`,
+      // 標準フォントのフォールバック（アプリから配信）
+      standardFontDataUrl: PDFJS_STANDARD_FONT_URL,
       // フォントが埋め込まれていないPDF対策
       disableFontFace: false,
       // システムフォントを使用（埋め込みフォントがない場合のフォールバック）
       useSystemFonts: true,
     }).promise;
   } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      const code = (error as Error & { code?: number }).code;
+      throw new PDFPasswordError(code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD);
+    }
     throw new Error(`PDFの読み込みに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
   }
 
@@ -258,34 +85,54 @@ export async function loadPDF(file: File): Promise<PDFData> {
     throw new Error('PDFにページがありません');
   }
 
-  // 最初のページからサイズを取得
-  const firstPage = await pdf.getPage(1);
-  const viewport = firstPage.getViewport({ scale: 1 });
+  // ページごとのサイズと回転を取得（サイズの混在したPDF対策）
+  const pages: PDFPageInfo[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
+    pages.push({ width: viewport.width, height: viewport.height, rotation: page.rotate });
+  }
 
   return {
     pdf,
     numPages: pdf.numPages,
-    width: viewport.width,
-    height: viewport.height,
+    pages,
   };
 }
 
 /**
- * PDFページを画像としてレンダリング
+ * 回転角度を0〜359度に正規化
+ */
+export function normalizeRotation(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * PDFページを画像（PNGのBlob）としてレンダリング
  * スキャンPDF・デジタルPDF両対応
+ * ラスタライズはメインスレッドのキャンバスで行う（PDFの解析はPDF.jsのワーカー、補正とエンコードは画像処理ワーカー）
  * @param pdf PDFドキュメント
  * @param pageNumber ページ番号
  * @param scale 解像度スケール（2〜4、デフォルト2）
  * @param enhancement 画像補正設定（オプション）
+ * @param options 回転・傾き補正・見開きの分割
  */
 export async function renderPageToImage(
   pdf: pdfjsLib.PDFDocumentProxy,
   pageNumber: number,
   scale: number = 2,
-  enhancement?: ImageEnhancement
-): Promise<string> {
+  enhancement?: ImageEnhancement,
+  options: PageRenderOptions = {}
+): Promise<Blob> {
+  const { userRotation = 0, deskewAngle, slice, signal } = options;
+  signal?.throwIfAborted();
   const page = await pdf.getPage(pageNumber);
-  const viewport = page.getViewport({ scale });
+  // rotationを指定するとページの/Rotateは置き換えられるため、足し合わせて渡す
+  // 分割したページは見開き全体を描画して切り出し、ページ自身の回転は切り出した後に加える
+  const viewport = page.getViewport({
+    scale,
+    rotation: normalizeRotation(page.rotate + (slice ? slice.rotation : userRotation)),
+  });
 
   const canvas = document.createElement('canvas');
   const context = canvas.getContext('2d');
@@ -298,19 +145,60 @@ export async function renderPageToImage(
   context.fillStyle = 'white';
   context.fillRect(0, 0, canvas.width, canvas.height);
 
-  await page.render({
+  // 描画はPDF.jsに任せ、補正とエンコードは画像処理ワーカーで行う
+  const renderTask = page.render({
     canvasContext: context,
     viewport,
     intent: 'print',  // 印刷品質でレンダリング（文字がシャープに）
-  }).promise;
-
-  // 画像補正を適用
-  let finalCanvas = canvas;
-  if (enhancement) {
-    finalCanvas = applyImageEnhancement(canvas, enhancement);
+  });
+  const cancelRender = () => renderTask.cancel();
+  signal?.addEventListener('abort', cancelRender);
+  try {
+    await renderTask.promise;
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancelRender);
   }
 
-  return finalCanvas.toDataURL('image/png');
+  const processed = await processImage(
+    canvas,
+    enhancement,
+    {
+      type: 'image/png',
+      deskewAngle,
+      sourceSlice: slice,
+      rotation: slice ? userRotation : 0,
+    },
+    signal
+  );
+  return processed.blob;
+}
+
+// サムネイルの幅（px）
+export const THUMBNAIL_WIDTH = 160;
+
+/**
+ * PDFページを一覧表示用の縮小画像としてレンダリング
+ * @param width サムネイルの幅（px）
+ * @param options 回転・傾き補正・見開きの分割
+ */
+export async function renderPageThumbnail(
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  width: number = THUMBNAIL_WIDTH,
+  enhancement?: ImageEnhancement,
+  options: PageRenderOptions = {}
+): Promise<Blob> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({
+    scale: 1,
+    rotation: normalizeRotation(page.rotate + (options.slice?.rotation ?? 0)),
+  });
+  // ユーザーの回転・分割を加える前の向きのサイズから出力の幅を求める
+  const scale = width / getRenderedPageWidth(viewport.width, viewport.height, options);
+  return renderPageToImage(pdf, pageNumber, scale, enhancement, options);
 }
 
 /**
@@ -357,7 +245,7 @@ export async function cropPageArea(
   pageNumber: number,
   cropArea: { x: number; y: number; width: number; height: number },
   scale: number = 2
-): Promise<string> {
+): Promise<Blob> {
   const page = await pdf.getPage(pageNumber);
   const viewport = page.getViewport({ scale });
 
@@ -408,7 +296,7 @@ export async function cropPageArea(
     scaledCrop.height
   );
 
-  return cropCanvas.toDataURL('image/png');
+  return canvasToBlob(cropCanvas, 'image/png');
 }
 
 /**
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readProjectBundle, PROJECT_FORMAT, PROJECT_SCHEMA_VERSION } from './projectUtils';
+import { saveImageBlob } from './storageUtils';
+
+// 画像ストア（IndexedDB）には書き込まず、保存した画像を記録する
+vi.mock('./storageUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./storageUtils')>()),
+  saveImageBlob: vi.fn(async () => {}),
+}));
+
+const PAGE_IMAGE = 'data:image/png;base64,AAEC';
+const SNIPPET_IMAGE = 'data:image/jpeg;base64,AwQF';
+
+const settings = { writingDirection: 'vertical' };
+
+const page = (pageNumber: number) => ({ pageNumber, width: 595, height: 842, ocrStatus: 'completed', ocrProgress: 100 });
+
+function bundleFile(bundle: Record<string, unknown>): File {
+  const json = JSON.stringify({ format: PROJECT_FORMAT, savedAt: '2024-01-01T00:00:00.000Z', settings, ...bundle });
+  return new File([json], 'test.kokugo');
+}
+
+// v1: ページ・スニペットにBase64画像を直接持っていた
+const v1Bundle = {
+  schemaVersion: 1,
+  files: [
+    {
+      id: 'file-1',
+      name: 'test.pdf',
+      type: 'application/pdf',
+      data: btoa('%PDF-1.4'),
+      pageCount: 2,
+      pages: [{ ...page(1), imageData: PAGE_IMAGE }, page(2)],
+      createdAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  snippets: [
+    {
+      id: 'snippet-1',
+      sourceFileId: 'file-1',
+      sourcePageNumber: 1,
+      cropArea: { x: 10, y: 20, width: 100, height: 50 },
+      cropZoom: 1,
+      imageData: SNIPPET_IMAGE,
+      createdAt: '2024-01-02T00:00:00.000Z',
+    },
+  ],
+  layoutPages: [
+    {
+      id: 'layout-1',
+      paperSize: 'A4',
+      orientation: 'portrait',
+      snippets: [{ snippetId: 'snippet-1', position: { x: 0, y: 0 }, size: { width: 100, height: 50 }, rotation: 0 }],
+    },
+  ],
+};
+
+beforeEach(() => {
+  vi.mocked(saveImageBlob).mockClear();
+});
+
+describe('readProjectBundle', () => {
+  it('v1のプロジェクトの画像を画像ストアに移して読み込む', async () => {
+    const { workspace } = await readProjectBundle(bundleFile(v1Bundle));
+
+    expect(saveImageBlob).toHaveBeenCalledTimes(2);
+    const saved = new Map(vi.mocked(saveImageBlob).mock.calls.map(([id, blob]) => [id, blob]));
+
+    const [file] = workspace.files;
+    expect(file.name).toBe('test.pdf');
+    expect(file.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(await file.file.text()).toBe('%PDF-1.4');
+    expect(saved.get(file.pages[0].imageId!)?.type).toBe('image/png');
+    // 埋め込まれていないページ画像は開いたときに描画し直す
+    expect(file.pages[1].imageId).toBeUndefined();
+    expect(file.pages[0]).not.toHaveProperty('imageData');
+
+    const [snippet] = workspace.snippets;
+    expect(saved.get(snippet.imageId)?.type).toBe('image/jpeg');
+    expect(snippet.createdAt).toEqual(new Date('2024-01-02T00:00:00.000Z'));
+    expect(snippet).not.toHaveProperty('imageData');
+
+    const [layoutPage] = workspace.layoutPages;
+    expect(layoutPage.textElements).toEqual([]);
+    expect(layoutPage.shapeElements).toEqual([]);
+    expect(workspace.settings).toEqual(settings);
+  });
+
+  it('ファイル・スニペット・レイアウトのIDを振り直し、参照も合わせる', async () => {
+    const { workspace } = await readProjectBundle(bundleFile(v1Bundle));
+    const [file] = workspace.files;
+    const [snippet] = workspace.snippets;
+    const [layoutPage] = workspace.layoutPages;
+
+    expect(file.id).not.toBe('file-1');
+    expect(snippet.id).not.toBe('snippet-1');
+    expect(layoutPage.id).not.toBe('layout-1');
+    expect(snippet.sourceFileId).toBe(file.id);
+    expect(layoutPage.snippets[0].snippetId).toBe(snippet.id);
+    expect(workspace.activeFileId).toBe(file.id);
+    expect(workspace.activeLayoutPageId).toBe(layoutPage.id);
+  });
+
+  it('同じプロジェクトを2回読み込んでもIDが重ならない', async () => {
+    const v2Bundle = {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      files: v1Bundle.files.map((f) => ({ ...f, pages: [{ ...page(1), imageId: 'page-image' }] })),
+      snippets: v1Bundle.snippets.map(({ imageData: _, ...s }) => ({ ...s, imageId: 'snippet-image' })),
+      layoutPages: v1Bundle.layoutPages,
+      images: { 'page-image': PAGE_IMAGE, 'snippet-image': SNIPPET_IMAGE },
+    };
+    const { workspace: first } = await readProjectBundle(bundleFile(v2Bundle));
+    const { workspace: second } = await readProjectBundle(bundleFile(v2Bundle));
+
+    const ids = (workspace: typeof first) => [
+      workspace.files[0].id,
+      workspace.files[0].pages[0].imageId,
+      workspace.snippets[0].id,
+      workspace.snippets[0].imageId,
+      workspace.layoutPages[0].id,
+    ];
+    expect(ids(first).every(Boolean)).toBe(true);
+    expect(ids(first).filter((id) => ids(second).includes(id))).toEqual([]);
+    expect(first.files[0].pages[0].imageId).not.toBe('page-image');
+  });
+
+  it('画像が含まれていないスニペットは配置ごと読み込まない', async () => {
+    const { workspace, skippedSnippetCount } = await readProjectBundle(
+      bundleFile({
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        files: v1Bundle.files,
+        snippets: v1Bundle.snippets.map(({ imageData: _, ...s }) => ({ ...s, imageId: 'missing-image' })),
+        layoutPages: v1Bundle.layoutPages,
+        images: {},
+      })
+    );
+    expect(skippedSnippetCount).toBe(1);
+    expect(workspace.snippets).toEqual([]);
+    expect(workspace.layoutPages[0].snippets).toEqual([]);
+  });
+
+  it('新しいバージョンのプロジェクトは読み込まない', async () => {
+    await expect(readProjectBundle(bundleFile({ schemaVersion: PROJECT_SCHEMA_VERSION + 1 }))).rejects.toThrow(
+      '新しいバージョンのツールで保存されたプロジェクトです'
+    );
+    expect(saveImageBlob).not.toHaveBeenCalled();
+  });
+
+  it('プロジェクトファイルでなければエラー', async () => {
+    await expect(readProjectBundle(new File(['{'], 'test.kokugo'))).rejects.toThrow(
+      'プロジェクトファイルの形式が正しくありません'
+    );
+    await expect(readProjectBundle(new File([JSON.stringify({ format: 'other' })], 'test.kokugo'))).rejects.toThrow(
+      '国語PDF編集ツールのプロジェクトファイルではありません'
+    );
+  });
+});
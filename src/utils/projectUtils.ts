@@ -0,0 +1,233 @@
+// =============================================================================
+// プロジェクトファイル（.kokugo）ユーティリティ
+// 元PDF・スニペット・レイアウト・設定を1ファイルにまとめて受け渡す
+// =============================================================================
+
+import type { PDFFile, PDFPage, Snippet, LayoutPage, AppSettings, WorkspaceState, SourceType, ImageEnhancement } from '../types';
+import { generateId, dataURLToBlob } from './helpers';
+import { readImageDataURL } from './imageStore';
+import { saveImageBlob, remapWorkspaceIds } from './storageUtils';
+
+export const PROJECT_FILE_EXTENSION = '.kokugo';
+export const PROJECT_FORMAT = 'kokugo-project';
+// スキーマを変更したら番号を上げ、migrateProjectBundleに変換処理を追加する
+export const PROJECT_SCHEMA_VERSION = 2;
+
+export interface ProjectBundleFile {
+  id: string;
+  name: string;
+  type: string;
+  data: string; // Base64 encoded file
+  pageCount: number;
+  pages: PDFPage[];
+  createdAt: string;
+  sourceType?: SourceType;
+  enhancementPresetId?: string;
+  enhancement?: ImageEnhancement;
+}
+
+export interface ProjectBundleSnippet extends Omit<Snippet, 'createdAt'> {
+  createdAt: string;
+}
+
+export interface ProjectBundle {
+  format: typeof PROJECT_FORMAT;
+  schemaVersion: number;
+  savedAt: string;
+  settings: AppSettings;
+  files: ProjectBundleFile[];
+  snippets: ProjectBundleSnippet[];
+  layoutPages: LayoutPage[];
+  images: Record<string, string>; // 画像ID → Base64データURL（v2以降）
+}
+
+/**
+ * ArrayBufferをBase64文字列に変換
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64文字列をArrayBufferに変換
+ */
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+}
+
+/**
+ * 作業状態からプロジェクトファイルを作成
+ */
+export async function createProjectBundle(state: WorkspaceState): Promise<Blob> {
+  const files: ProjectBundleFile[] = [];
+  for (const f of state.files) {
+    // 読み込みに失敗したファイル・パスワードを入力していないファイルは含めない
+    if (f.status === 'error' || f.pageCount === 0) continue;
+    files.push({
+      id: f.id,
+      name: f.name,
+      type: f.file.type || 'application/pdf',
+      data: arrayBufferToBase64(await f.file.arrayBuffer()),
+      pageCount: f.pageCount,
+      pages: f.pages,
+      createdAt: f.createdAt.toISOString(),
+      sourceType: f.sourceType,
+      enhancementPresetId: f.enhancementPresetId,
+      enhancement: f.enhancement,
+    });
+  }
+
+  // ページ画像・スニペット画像を埋め込む
+  const imageIds = new Set<string>();
+  files.forEach((f) =>
+    f.pages.forEach((p) => {
+      if (p.imageId) imageIds.add(p.imageId);
+      if (p.thumbnailId) imageIds.add(p.thumbnailId);
+    })
+  );
+  state.snippets.forEach((s) => imageIds.add(s.imageId));
+  const images: Record<string, string> = {};
+  for (const imageId of imageIds) {
+    images[imageId] = await readImageDataURL(imageId);
+  }
+
+  const bundle: ProjectBundle = {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    settings: state.settings,
+    files,
+    snippets: state.snippets.map((s) => ({ ...s, createdAt: s.createdAt.toISOString() })),
+    layoutPages: state.layoutPages,
+    images,
+  };
+
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+}
+
+/**
+ * v1 → v2: ページ・スニペットに直接持っていたBase64画像を画像テーブルに分離
+ */
+function migrateV1toV2(raw: Record<string, unknown>): Record<string, unknown> {
+  const images: Record<string, string> = {};
+  const toImageId = (dataURL: unknown): string | undefined => {
+    if (typeof dataURL !== 'string') return undefined;
+    const id = generateId();
+    images[id] = dataURL;
+    return id;
+  };
+
+  type V1Record = Record<string, unknown> & { imageData?: unknown };
+  const files = ((raw.files ?? []) as Array<V1Record & { pages?: V1Record[] }>).map((f) => ({
+    ...f,
+    pages: (f.pages ?? []).map(({ imageData, ...p }) => ({ ...p, imageId: toImageId(imageData) })),
+  }));
+  const snippets = ((raw.snippets ?? []) as V1Record[]).map(({ imageData, ...s }) => ({
+    ...s,
+    imageId: toImageId(imageData),
+  }));
+
+  return { ...raw, files, snippets, images };
+}
+
+/**
+ * 古いスキーマのプロジェクトを現在のスキーマに変換
+ */
+function migrateProjectBundle(raw: Record<string, unknown>): ProjectBundle {
+  const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error('新しいバージョンのツールで保存されたプロジェクトです。ツールを更新してください');
+  }
+
+  if (version < 2) {
+    raw = migrateV1toV2(raw);
+  }
+
+  return { ...raw, schemaVersion: PROJECT_SCHEMA_VERSION } as unknown as ProjectBundle;
+}
+
+// プロジェクトファイルの読み込み結果
+export interface ProjectBundleReadResult {
+  workspace: WorkspaceState;
+  skippedSnippetCount: number; // 画像が含まれておらず読み込めなかったスニペットの数
+}
+
+/**
+ * プロジェクトファイルを読み込んで作業状態に変換
+ */
+export async function readProjectBundle(file: File): Promise<ProjectBundleReadResult> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error('プロジェクトファイルの形式が正しくありません');
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw as { format?: unknown }).format !== PROJECT_FORMAT) {
+    throw new Error('国語PDF編集ツールのプロジェクトファイルではありません');
+  }
+
+  const bundle = migrateProjectBundle(raw as Record<string, unknown>);
+
+  // 画像を画像ストアに戻す（同じファイルを何度読み込んでも上書きしないよう、IDを振り直す）
+  const imageIds = new Map<string, string>();
+  for (const [imageId, dataURL] of Object.entries(bundle.images ?? {})) {
+    const newImageId = generateId();
+    await saveImageBlob(newImageId, dataURLToBlob(dataURL));
+    imageIds.set(imageId, newImageId);
+  }
+  // 埋め込まれていないページ画像は開いたときに描画し直す
+  const toImageId = (imageId: string | undefined) => (imageId ? imageIds.get(imageId) : undefined);
+
+  const files: PDFFile[] = (bundle.files ?? []).map((f) => ({
+    id: f.id,
+    name: f.name,
+    file: new File([base64ToArrayBuffer(f.data)], f.name, { type: f.type }),
+    pageCount: f.pageCount,
+    pages: f.pages.map((p) => ({ ...p, imageId: toImageId(p.imageId), thumbnailId: toImageId(p.thumbnailId) })),
+    status: 'completed',
+    createdAt: new Date(f.createdAt),
+    sourceType: f.sourceType,
+    enhancementPresetId: f.enhancementPresetId,
+    enhancement: f.enhancement,
+  }));
+
+  // 画像が含まれていないスニペットは表示できないため、レイアウトの配置ごと読み込まない
+  const bundleSnippets = bundle.snippets ?? [];
+  const snippets: Snippet[] = bundleSnippets.flatMap((s) => {
+    const imageId = imageIds.get(s.imageId);
+    return imageId ? [{ ...s, imageId, createdAt: new Date(s.createdAt) }] : [];
+  });
+  const snippetIds = new Set(snippets.map((s) => s.id));
+
+  const layoutPages: LayoutPage[] = (bundle.layoutPages ?? []).map((p) => ({
+    ...p,
+    snippets: p.snippets.filter((placed) => snippetIds.has(placed.snippetId)),
+    textElements: p.textElements ?? [],
+    shapeElements: p.shapeElements ?? [],
+  }));
+
+  // ファイル・スニペット・レイアウトのIDも振り直す
+  const workspace = remapWorkspaceIds({
+    files,
+    activeFileId: files[0]?.id ?? null,
+    activePageNumber: 1,
+    snippets,
+    layoutPages,
+    activeLayoutPageId: layoutPages[0]?.id ?? null,
+    settings: bundle.settings,
+  });
+  return { workspace, skippedSnippetCount: bundleSnippets.length - snippets.length };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { findContentBounds, detectRegions } from './regionDetection';
+
+/**
+ * 白い画像に黒い矩形を描いたImageData
+ */
+function createImageData(width: number, height: number, inks: { x: number; y: number; width: number; height: number }[]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const ink of inks) {
+    for (let y = ink.y; y < ink.y + ink.height; y++) {
+      for (let x = ink.x; x < ink.x + ink.width; x++) {
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+      }
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+describe('findContentBounds', () => {
+  it('文字の範囲＋余白に縮める', () => {
+    const image = createImageData(200, 200, [{ x: 50, y: 60, width: 40, height: 30 }]);
+    expect(findContentBounds(image, { x: 0, y: 0, width: 200, height: 200 }, 5)).toEqual({
+      x: 45,
+      y: 55,
+      width: 50,
+      height: 40,
+    });
+  });
+
+  it('離れた文字もすべて含める', () => {
+    const image = createImageData(200, 200, [
+      { x: 20, y: 20, width: 10, height: 10 },
+      { x: 150, y: 160, width: 10, height: 10 },
+    ]);
+    expect(findContentBounds(image, { x: 0, y: 0, width: 200, height: 200 }, 0)).toEqual({
+      x: 20,
+      y: 20,
+      width: 140,
+      height: 150,
+    });
+  });
+
+  it('範囲を広げない', () => {
+    const image = createImageData(200, 200, [{ x: 50, y: 50, width: 100, height: 100 }]);
+    expect(findContentBounds(image, { x: 60, y: 60, width: 50, height: 50 }, 8)).toEqual({
+      x: 60,
+      y: 60,
+      width: 50,
+      height: 50,
+    });
+  });
+
+  it('文字がなければ元の範囲のまま', () => {
+    const image = createImageData(100, 100, []);
+    const area = { x: 10, y: 10, width: 50, height: 50 };
+    expect(findContentBounds(image, area, 8)).toBe(area);
+  });
+
+  it('画像の外の範囲はそのまま返す', () => {
+    const image = createImageData(100, 100, [{ x: 10, y: 10, width: 10, height: 10 }]);
+    const area = { x: 200, y: 200, width: 50, height: 50 };
+    expect(findContentBounds(image, area, 8)).toBe(area);
+  });
+});
+
+describe('detectRegions', () => {
+  it('余白で分かれた塊を上から順に返す', () => {
+    const image = createImageData(400, 400, [
+      { x: 40, y: 250, width: 300, height: 80 },
+      { x: 40, y: 40, width: 300, height: 80 },
+    ]);
+    const regions = detectRegions(image, 'normal');
+    expect(regions).toHaveLength(2);
+    expect(regions[0].y).toBeLessThan(regions[1].y);
+    expect(regions.every((r) => r.source === 'projection')).toBe(true);
+    // 塊を余白付きで囲む
+    expect(regions[0].x).toBeLessThanOrEqual(40);
+    expect(regions[0].y + regions[0].height).toBeGreaterThanOrEqual(120);
+  });
+});
@@ -0,0 +1,218 @@
+// =============================================================================
+// トリミング範囲の自動検出
+// 余白の投影（XYカット）でページを大問・選択肢・設問などの塊に分け、切り出し候補にする
+// OCRのブロックがあれば候補に加える
+// 選択範囲の余白を詰める（文字の範囲＋指定の余白に縮める）
+// DOMに依存しないため、ImageDataを受け取る
+// =============================================================================
+
+import type { CropArea, OCRBlock } from '../types';
+
+export type RegionDetail = 'coarse' | 'normal' | 'fine';
+
+export interface RegionProposal extends CropArea {
+  id: string;
+  source: 'projection' | 'ocr'; // 余白の投影で見つけた塊か、OCRのブロックか
+}
+
+// 塊を分ける余白の最小幅（ページの短辺に対する割合）
+const DETAIL_GAP_RATIO: Record<RegionDetail, number> = {
+  coarse: 0.03,
+  normal: 0.015,
+  fine: 0.008,
+};
+
+// 余白の最小幅の下限（px）
+const MIN_GAP = 6;
+// 文字とみなす輝度（これより暗い画素）
+const REGION_INK_THRESHOLD = 160;
+// 余白とみなす行・列の文字の画素数の割合（スキャンのゴミを無視する）
+const BLANK_LINE_RATIO = 0.002;
+// OCRのブロックと重なりがこれ以上の候補があれば、OCRのブロックは加えない
+const DUPLICATE_IOU = 0.5;
+
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number; // 右端（含まない）
+  y1: number; // 下端（含まない）
+}
+
+/**
+ * 文字の画素のマスクを作る
+ */
+function createInkMask(imageData: ImageData): Uint8Array {
+  const { data, width, height } = imageData;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0, p = 0; p < mask.length; i += 4, p++) {
+    mask[p] = (data[i] + data[i + 1] + data[i + 2]) / 3 < REGION_INK_THRESHOLD ? 1 : 0;
+  }
+  return mask;
+}
+
+/**
+ * 範囲内の行（vertical=false）または列（vertical=true）ごとの文字の画素数
+ */
+function project(mask: Uint8Array, width: number, box: Box, vertical: boolean): Uint32Array {
+  const counts = new Uint32Array(vertical ? box.x1 - box.x0 : box.y1 - box.y0);
+  for (let y = box.y0; y < box.y1; y++) {
+    const row = y * width;
+    for (let x = box.x0; x < box.x1; x++) {
+      if (mask[row + x]) counts[vertical ? x - box.x0 : y - box.y0]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * 投影から、文字のある区間（余白がminGap以上続くところで区切る）を求める
+ */
+function findSegments(counts: Uint32Array, blankLimit: number, minGap: number): Array<[number, number]> {
+  const segments: Array<[number, number]> = [];
+  let start = -1;
+  let lastInk = -1;
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] <= blankLimit) continue;
+    if (start < 0) {
+      start = i;
+    } else if (i - lastInk - 1 >= minGap) {
+      segments.push([start, lastInk + 1]);
+      start = i;
+    }
+    lastInk = i;
+  }
+  if (start >= 0) segments.push([start, lastInk + 1]);
+  return segments;
+}
+
+/**
+ * XYカット：余白で横に分け、分けられなければ縦に分け、それ以上分けられない塊を集める
+ */
+function cutRegions(mask: Uint8Array, width: number, box: Box, minGap: number, results: Box[]): void {
+  const rows = project(mask, width, box, false);
+  const rowSegments = findSegments(rows, Math.max(1, (box.x1 - box.x0) * BLANK_LINE_RATIO), minGap);
+  if (rowSegments.length === 0) return;
+
+  if (rowSegments.length > 1) {
+    rowSegments.forEach(([y0, y1]) =>
+      cutRegions(mask, width, { x0: box.x0, y0: box.y0 + y0, x1: box.x1, y1: box.y0 + y1 }, minGap, results)
+    );
+    return;
+  }
+
+  // 上下の余白を除いた範囲で列を調べる
+  const trimmed = { ...box, y0: box.y0 + rowSegments[0][0], y1: box.y0 + rowSegments[0][1] };
+  const columns = project(mask, width, trimmed, true);
+  const columnSegments = findSegments(columns, Math.max(1, (trimmed.y1 - trimmed.y0) * BLANK_LINE_RATIO), minGap);
+  if (columnSegments.length === 0) return;
+
+  if (columnSegments.length > 1) {
+    columnSegments.forEach(([x0, x1]) =>
+      cutRegions(mask, width, { x0: trimmed.x0 + x0, y0: trimmed.y0, x1: trimmed.x0 + x1, y1: trimmed.y1 }, minGap, results)
+    );
+    return;
+  }
+
+  results.push({ ...trimmed, x0: trimmed.x0 + columnSegments[0][0], x1: trimmed.x0 + columnSegments[0][1] });
+}
+
+/**
+ * 2つの範囲の重なり（IoU）
+ */
+function intersectionOverUnion(a: CropArea, b: CropArea): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/**
+ * ページ画像から切り出し候補を検出
+ * @param imageData ページ画像
+ * @param detail 分ける細かさ（余白の幅の目安）
+ * @param ocrBlocks ページのOCRブロック（ページ画像と同じ座標）
+ * @returns 上から順（同じ高さなら左から）に並べた候補
+ */
+export function detectRegions(imageData: ImageData, detail: RegionDetail, ocrBlocks: OCRBlock[] = []): RegionProposal[] {
+  const { width, height } = imageData;
+  const minGap = Math.max(MIN_GAP, Math.round(Math.min(width, height) * DETAIL_GAP_RATIO[detail]));
+  const padding = Math.round(minGap / 2);
+  // 余白の幅より小さい塊はゴミとして捨てる
+  const minSize = minGap;
+
+  const boxes: Box[] = [];
+  cutRegions(createInkMask(imageData), width, { x0: 0, y0: 0, x1: width, y1: height }, minGap, boxes);
+
+  // 余白を少し付けてページ内に収める
+  const toArea = (box: Box): CropArea => {
+    const x = Math.max(0, box.x0 - padding);
+    const y = Math.max(0, box.y0 - padding);
+    return {
+      x,
+      y,
+      width: Math.min(width, box.x1 + padding) - x,
+      height: Math.min(height, box.y1 + padding) - y,
+    };
+  };
+
+  const proposals: RegionProposal[] = boxes
+    .filter((box) => box.x1 - box.x0 >= minSize || box.y1 - box.y0 >= minSize)
+    .map((box, index) => ({ ...toArea(box), id: `projection-${index}`, source: 'projection' }));
+
+  ocrBlocks.forEach((block, index) => {
+    const area = toArea({
+      x0: Math.round(block.bbox.x0),
+      y0: Math.round(block.bbox.y0),
+      x1: Math.round(block.bbox.x1),
+      y1: Math.round(block.bbox.y1),
+    });
+    if (area.width < minSize || area.height < minSize) return;
+    if (proposals.some((p) => intersectionOverUnion(p, area) >= DUPLICATE_IOU)) return;
+    proposals.push({ ...area, id: `ocr-${index}`, source: 'ocr' });
+  });
+
+  return proposals.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+// 余白を詰めるときの既定の余白（px）
+export const DEFAULT_TRIM_PADDING = 8;
+
+/**
+ * 選択範囲を文字のある範囲に詰める
+ * 範囲を広げることはなく、文字がなければ元の範囲のまま返す
+ * @param imageData ページ画像
+ * @param area 詰める範囲（ページ画像の座標）
+ * @param padding 文字の周りに残す余白（px）
+ */
+export function findContentBounds(imageData: ImageData, area: CropArea, padding: number): CropArea {
+  const { data, width, height } = imageData;
+  const box: Box = {
+    x0: Math.max(0, Math.round(area.x)),
+    y0: Math.max(0, Math.round(area.y)),
+    x1: Math.min(width, Math.round(area.x + area.width)),
+    y1: Math.min(height, Math.round(area.y + area.height)),
+  };
+  if (box.x1 <= box.x0 || box.y1 <= box.y0) return area;
+
+  // 範囲内だけのマスクを作って行・列に投影する
+  const boxWidth = box.x1 - box.x0;
+  const boxHeight = box.y1 - box.y0;
+  const mask = new Uint8Array(boxWidth * boxHeight);
+  for (let y = 0; y < boxHeight; y++) {
+    for (let x = 0; x < boxWidth; x++) {
+      const i = ((box.y0 + y) * width + box.x0 + x) * 4;
+      mask[y * boxWidth + x] = (data[i] + data[i + 1] + data[i + 2]) / 3 < REGION_INK_THRESHOLD ? 1 : 0;
+    }
+  }
+  const local: Box = { x0: 0, y0: 0, x1: boxWidth, y1: boxHeight };
+  const rows = findSegments(project(mask, boxWidth, local, false), Math.max(1, boxWidth * BLANK_LINE_RATIO), Infinity);
+  const columns = findSegments(project(mask, boxWidth, local, true), Math.max(1, boxHeight * BLANK_LINE_RATIO), Infinity);
+  if (rows.length === 0 || columns.length === 0) return area;
+
+  const x0 = Math.max(box.x0, box.x0 + columns[0][0] - padding);
+  const y0 = Math.max(box.y0, box.y0 + rows[0][0] - padding);
+  const x1 = Math.min(box.x1, box.x0 + columns[0][1] + padding);
+  const y1 = Math.min(box.y1, box.y0 + rows[0][1] + padding);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { isSpreadPage, findGutter, splitSpreadPage, mapAreaToHalf } from './spreadUtils';
+import type { PDFPage } from '../types';
+
+const spread: PDFPage = {
+  pageNumber: 3,
+  width: 1200,
+  height: 800,
+  userRotation: 90,
+  deskewAngle: 0.5,
+  ocrStatus: 'completed',
+  ocrProgress: 100,
+  textContent: '見開き全体のOCR結果',
+};
+
+/**
+ * 左右のページに横線（文字の行）を引き、指定の位置に余白ののどを空けた画像
+ */
+function createSpreadImage(width: number, height: number, gutterFrom: number, gutterTo: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 10; y < height - 10; y += 6) {
+    for (let x = 10; x < width - 10; x++) {
+      if (x >= gutterFrom && x < gutterTo) continue;
+      for (let t = 0; t < 2; t++) {
+        const i = ((y + t) * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+      }
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+describe('isSpreadPage', () => {
+  it('横長で分割していないページだけを見開きとみなす', () => {
+    expect(isSpreadPage(spread)).toBe(true);
+    expect(isSpreadPage({ ...spread, width: 800, height: 1200 })).toBe(false);
+    expect(isSpreadPage({ ...spread, slice: { start: 0, end: 0.5, rotation: 0 } })).toBe(false);
+  });
+});
+
+describe('findGutter', () => {
+  it('余白ののどの中央で分ける', () => {
+    expect(findGutter(createSpreadImage(600, 200, 300, 340))).toBeCloseTo(320 / 600, 2);
+  });
+
+  it('のどが見つからなければ中央', () => {
+    expect(findGutter(createSpreadImage(600, 200, 0, 0))).toBe(0.5);
+  });
+});
+
+describe('splitSpreadPage', () => {
+  it('縦書きは右ページが先', () => {
+    const halves = splitSpreadPage(spread, 0.4, 'vertical');
+    expect(halves.map((h) => h.side)).toEqual(['right', 'left']);
+    expect(halves[0].page.slice).toEqual({ start: 0.4, end: 1, rotation: 90 });
+    expect(halves[0].page.width).toBeCloseTo(720);
+    expect(halves[1].page.slice).toEqual({ start: 0, end: 0.4, rotation: 90 });
+    expect(halves[1].page.width).toBeCloseTo(480);
+  });
+
+  it('横書きは左ページが先', () => {
+    expect(splitSpreadPage(spread, 0.5, 'horizontal').map((h) => h.side)).toEqual(['left', 'right']);
+  });
+
+  it('元のページ番号を残してOCR結果は破棄する', () => {
+    for (const { page } of splitSpreadPage(spread, 0.5, 'vertical')) {
+      expect(page.sourcePageNumber).toBe(3);
+      expect(page.height).toBe(800);
+      expect(page.deskewAngle).toBe(0.5);
+      expect(page.ocrStatus).toBe('pending');
+      expect(page.textContent).toBeUndefined();
+    }
+  });
+});
+
+describe('mapAreaToHalf', () => {
+  it('左ページの範囲はそのまま', () => {
+    expect(mapAreaToHalf({ x: 10, y: 20, width: 100, height: 50 }, 500, 1000)).toEqual({
+      side: 'left',
+      area: { x: 10, y: 20, width: 100, height: 50 },
+      clipped: false,
+      shiftX: 0,
+    });
+  });
+
+  it('右ページの範囲はのどからの位置にする', () => {
+    expect(mapAreaToHalf({ x: 600, y: 20, width: 100, height: 50 }, 500, 1000)).toEqual({
+      side: 'right',
+      area: { x: 100, y: 20, width: 100, height: 50 },
+      clipped: false,
+      shiftX: 0,
+    });
+  });
+
+  it('のどをまたぐ範囲は中心が入る側のページの中に縮める', () => {
+    expect(mapAreaToHalf({ x: 420, y: 20, width: 100, height: 50 }, 500, 1000)).toEqual({
+      side: 'left',
+      area: { x: 420, y: 20, width: 80, height: 50 },
+      clipped: true,
+      shiftX: 0,
+    });
+    // 左端を縮めた分だけ、形・マスクの原点が右に動く
+    expect(mapAreaToHalf({ x: 450, y: 20, width: 200, height: 50 }, 500, 1000)).toEqual({
+      side: 'right',
+      area: { x: 0, y: 20, width: 150, height: 50 },
+      clipped: true,
+      shiftX: 50,
+    });
+  });
+
+  it('ページの外にはみ出した範囲も縮める', () => {
+    expect(mapAreaToHalf({ x: 900, y: 20, width: 200, height: 50 }, 500, 1000).area).toEqual({
+      x: 400,
+      y: 20,
+      width: 100,
+      height: 50,
+    });
+  });
+});
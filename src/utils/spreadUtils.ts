@@ -0,0 +1,171 @@
+// =============================================================================
+// 見開きページの分割
+// 1枚に2ページ分が写った横長のスキャンを、のど（綴じ目）で左右の2ページに分ける
+// 縦書きの本は右ページが先、横書きの本は左ページが先
+// =============================================================================
+
+import type { PDFPage, CropArea } from '../types';
+
+// 見開きとみなす縦横比（幅 / 高さ）
+const SPREAD_ASPECT_RATIO = 1.15;
+
+// のどを探す範囲（ページの幅に対する割合、中央付近）
+const GUTTER_SEARCH_START = 0.35;
+const GUTTER_SEARCH_END = 0.65;
+
+// のどの検出に使う画像の幅（px）
+export const GUTTER_DETECTION_WIDTH = 600;
+
+/**
+ * 見開きとして分割できるページか（横長で、まだ分割していない）
+ */
+export function isSpreadPage(page: PDFPage): boolean {
+  return !page.slice && page.width > page.height * SPREAD_ASPECT_RATIO;
+}
+
+/**
+ * 見開きののどの位置を検出
+ * 文字のある列は縦方向の濃淡の変化が大きく、のど（余白や綴じ目の影）は変化が小さいことを使う
+ * @returns のどの位置（幅に対する割合）。見つからない場合は中央（0.5）
+ */
+export function findGutter(imageData: ImageData): number {
+  const { data, width, height } = imageData;
+  const gray = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  // 列ごとの縦方向の濃淡の変化量
+  const activity = new Float64Array(width);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 1; y < height; y++) {
+      sum += Math.abs(gray(x, y) - gray(x, y - 1));
+    }
+    activity[x] = sum;
+  }
+
+  // 文字の隙間に反応しないよう、周囲の列と平均する
+  const radius = Math.max(2, Math.round(width * 0.01));
+  const smoothed = (x: number) => {
+    let sum = 0;
+    let count = 0;
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (x + dx < 0 || x + dx >= width) continue;
+      sum += activity[x + dx];
+      count++;
+    }
+    return sum / count;
+  };
+
+  // 中央から外側へ探し、同じ値なら中央に近い方を選ぶ
+  const center = Math.round(width / 2);
+  const range = Math.round(width * (GUTTER_SEARCH_END - GUTTER_SEARCH_START) / 2);
+  let best = center;
+  let bestActivity = smoothed(center);
+  for (let d = 1; d <= range; d++) {
+    for (const x of [center - d, center + d]) {
+      const value = smoothed(x);
+      if (value < bestActivity) {
+        best = x;
+        bestActivity = value;
+      }
+    }
+  }
+
+  // ページ全体と比べて変化が十分小さくなければ、のどとはみなさない
+  const sorted = Array.from(activity).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (median > 0 && bestActivity > median * 0.5) return 0.5;
+
+  // 余白の幅があるのどは、変化の小さい範囲の中央で分ける
+  const threshold = bestActivity + median * 0.05;
+  let left = best;
+  let right = best;
+  while (left > 0 && smoothed(left - 1) <= threshold) left--;
+  while (right < width - 1 && smoothed(right + 1) <= threshold) right++;
+
+  return (left + right) / 2 / width;
+}
+
+/**
+ * 画像からのどの位置を検出
+ */
+export async function detectGutter(image: Blob): Promise<number> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    ctx.drawImage(bitmap, 0, 0);
+    return findGutter(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  } finally {
+    bitmap.close();
+  }
+}
+
+// 分割後のページ（元のページ内の位置）
+export interface SpreadHalf {
+  page: PDFPage;
+  side: 'left' | 'right';
+}
+
+/**
+ * 見開きのページを左右の2ページに分ける（ページ番号は呼び出し側で振り直す）
+ * OCR結果はページ全体のものなので破棄し、分割後のページで読み取り直す
+ * @param gutter のどの位置（幅に対する割合）
+ * @param writingDirection 縦書きは右ページが先、横書きは左ページが先
+ */
+export function splitSpreadPage(
+  page: PDFPage,
+  gutter: number,
+  writingDirection: 'vertical' | 'horizontal'
+): SpreadHalf[] {
+  const half = (side: 'left' | 'right'): SpreadHalf => {
+    const start = side === 'left' ? 0 : gutter;
+    const end = side === 'left' ? gutter : 1;
+    return {
+      side,
+      page: {
+        pageNumber: page.pageNumber,
+        width: page.width * (end - start),
+        height: page.height,
+        rotation: page.rotation,
+        deskewAngle: page.deskewAngle,
+        colorDropout: page.colorDropout,
+        sourcePageNumber: page.sourcePageNumber ?? page.pageNumber,
+        slice: { start, end, rotation: page.userRotation ?? 0 },
+        ocrStatus: 'pending',
+        ocrProgress: 0,
+      },
+    };
+  };
+  return writingDirection === 'vertical' ? [half('right'), half('left')] : [half('left'), half('right')];
+}
+
+/**
+ * 見開きのページ画像上の範囲が、分割後のどちらのページに入るかと、そのページ上での位置
+ * のどをまたぐ範囲は、中心が入る側のページの中に縮める
+ * @param gutterX のどの位置（ページ画像上のpx）
+ * @param pageWidth 見開きのページ画像の幅（px）
+ * @returns shiftX は範囲の左端が右に動いた量（範囲の左上を原点とする形・マスクの座標の補正に使う）
+ */
+export function mapAreaToHalf(
+  area: CropArea,
+  gutterX: number,
+  pageWidth: number
+): { side: 'left' | 'right'; area: CropArea; clipped: boolean; shiftX: number } {
+  const side = area.x + area.width / 2 < gutterX ? 'left' : 'right';
+  const start = side === 'left' ? 0 : gutterX;
+  const end = side === 'left' ? gutterX : pageWidth;
+  const left = Math.max(start, area.x);
+  const right = Math.min(end, area.x + area.width);
+  return {
+    side,
+    area: { ...area, x: left - start, width: right - left },
+    clipped: left !== area.x || right !== area.x + area.width,
+    shiftX: left - area.x,
+  };
+}
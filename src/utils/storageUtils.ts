@@ -3,39 +3,71 @@
 // NF-005: データ保持 - IndexedDB使用、30日間保持
 // =============================================================================
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { PDFFile, PDFPage, Snippet, LayoutPage, ProjectInfo, RecoverableSession, WorkspaceState } from '../types';
+import { generateId, debounce, dataURLToBlob } from './helpers';
+
+// 保存時のメタ情報（所属プロジェクト・並び順・最終保存日時）
+interface StoredMeta {
+  projectId: string;
+  order: number;    // 配列内の並び順
+  savedAt: number;  // 最終保存日時
+}
+
+export type StoredSnippet = Omit<Snippet, 'createdAt'> & StoredMeta & { createdAt: number };
+export type StoredLayout = LayoutPage & StoredMeta;
+export type StoredFile = Omit<PDFFile, 'createdAt'> & StoredMeta & { createdAt: number };
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ページ画像・スニペット画像（状態にはIDだけを持たせる）
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+// 自動保存セッションの記録（正常終了の判定用）
+interface StoredSession {
+  projectId: string;
+  savedAt: number;
+  closedCleanly: boolean;
+  sessionId?: string; // 保存したタブのセッションID（正常終了の印と照らし合わせる）
+}
+
+// ファイル・スニペット・レイアウト以外の作業状態
+type WorkspaceMeta = Omit<WorkspaceState, 'files' | 'snippets' | 'layoutPages'>;
 
 interface KokugoPDFDB extends DBSchema {
-  snippets: {
+  projects: {
     key: string;
-    value: {
-      id: string;
-      sourceFileId: string;
-      sourcePageNumber: number;
-      cropArea: {
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-      };
-      imageData: string;
-      createdAt: number;
-    };
+    value: StoredProject;
     indexes: { 'by-date': number };
   };
+  files: {
+    key: string;
+    value: StoredFile;
+    indexes: { 'by-date': number; 'by-project': string };
+  };
+  snippets: {
+    key: string;
+    value: StoredSnippet;
+    indexes: { 'by-date': number; 'by-project': string };
+  };
   layouts: {
     key: string;
-    value: {
-      id: string;
-      paperSize: string;
-      snippets: Array<{
-        snippetId: string;
-        position: { x: number; y: number };
-        size: { width: number; height: number };
-        rotation: number;
-      }>;
-      createdAt: number;
-    };
+    value: StoredLayout;
+    indexes: { 'by-date': number; 'by-project': string };
+  };
+  images: {
+    key: string;
+    value: StoredImage;
     indexes: { 'by-date': number };
   };
   settings: {
@@ -44,12 +76,117 @@ interface KokugoPDFDB extends DBSchema {
   };
 }
 
+type RecordStoreName = 'files' | 'snippets' | 'layouts';
+type UpgradeTransaction = IDBPTransaction<KokugoPDFDB, StoreNames<KokugoPDFDB>[], 'versionchange'>;
+
 const DB_NAME = 'kokugo-pdf-db';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const RETENTION_DAYS = 30;
+const RECORD_STORES: RecordStoreName[] = ['files', 'snippets', 'layouts'];
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+const SESSION_KEY = 'session';
+// 正常に閉じたセッションのID（閉じる時はIndexedDBへの書き込みが終わらないため、localStorageに同期的に書く）
+const CLEAN_EXIT_KEY = 'kokugo-clean-exit';
+const AUTOSAVE_DELAY = 1000; // 変更が落ち着いてから保存するまでの待ち時間（ms）
+export const AUTOSAVE_INTERVAL = 30 * 1000; // 編集が続いていても保存する間隔（ms）
+const DEFAULT_PROJECT_ID = 'default';
+export const DEFAULT_PROJECT_NAME = '新しいプロジェクト';
 
 let dbInstance: IDBPDatabase<KokugoPDFDB> | null = null;
 
+// 現在開いているプロジェクト
+let activeProjectId: string | null = null;
+
+// 最後に保存したオブジェクト（参照が同じものは書き込みを省略する）
+const savedRecords = {
+  files: new Map<string, PDFFile>(),
+  snippets: new Map<string, Snippet>(),
+  layouts: new Map<string, LayoutPage>(),
+};
+let savedMeta: WorkspaceMeta | null = null;
+
+// 書き込みを直列化（前の保存が終わってから次を書き込む）
+let writeQueue: Promise<void> = Promise.resolve();
+
+// このセッションの開始日時（これ以降に作られた画像は未保存でも削除しない）
+const sessionStartedAt = Date.now();
+
+// このタブのセッションID・このタブでセッションを保存したか
+const sessionId = generateId();
+let sessionSaved = false;
+
+// 自動保存待ちの作業状態
+let pendingState: WorkspaceState | null = null;
+
+// 起動時に見つかった、正常に終了しなかったセッション
+let recoverableSession: RecoverableSession | null = null;
+
+/**
+ * プロジェクトごとの作業状態メタ情報のキー
+ */
+function workspaceKey(projectId: string): string {
+  return `workspace:${projectId}`;
+}
+
+/**
+ * v2（プロジェクト導入前）のデータを既定プロジェクトに移行
+ */
+async function migrateToDefaultProject(transaction: UpgradeTransaction): Promise<void> {
+  for (const storeName of RECORD_STORES) {
+    let cursor = await transaction.objectStore(storeName).openCursor();
+    while (cursor) {
+      await cursor.update({ ...cursor.value, projectId: DEFAULT_PROJECT_ID });
+      cursor = await cursor.continue();
+    }
+  }
+
+  const settingsStore = transaction.objectStore('settings');
+  const meta = await settingsStore.get('workspace');
+  if (meta) {
+    const now = Date.now();
+    await settingsStore.put(meta, workspaceKey(DEFAULT_PROJECT_ID));
+    await settingsStore.delete('workspace');
+    await settingsStore.put(DEFAULT_PROJECT_ID, ACTIVE_PROJECT_KEY);
+    await transaction.objectStore('projects').put({
+      id: DEFAULT_PROJECT_ID,
+      name: DEFAULT_PROJECT_NAME,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * v3以前のBase64画像をBlobとして画像ストアに移し、IDに置き換える
+ */
+async function migrateImagesToStore(transaction: UpgradeTransaction): Promise<void> {
+  const imageStore = transaction.objectStore('images');
+  const storeImage = async (dataURL: string): Promise<string> => {
+    const id = generateId();
+    await imageStore.put({ id, blob: dataURLToBlob(dataURL), createdAt: Date.now() });
+    return id;
+  };
+
+  let fileCursor = await transaction.objectStore('files').openCursor();
+  while (fileCursor) {
+    const pages = [];
+    for (const { imageData, ...page } of fileCursor.value.pages as Array<PDFPage & { imageData?: string }>) {
+      pages.push(imageData ? { ...page, imageId: await storeImage(imageData) } : page);
+    }
+    await fileCursor.update({ ...fileCursor.value, pages });
+    fileCursor = await fileCursor.continue();
+  }
+
+  let snippetCursor = await transaction.objectStore('snippets').openCursor();
+  while (snippetCursor) {
+    const { imageData, ...snippet } = snippetCursor.value as StoredSnippet & { imageData?: string };
+    if (imageData) {
+      await snippetCursor.update({ ...snippet, imageId: await storeImage(imageData) });
+    }
+    snippetCursor = await snippetCursor.continue();
+  }
+}
+
 /**
  * データベースを取得（初期化）
  */
@@ -57,23 +194,45 @@ async function getDB(): Promise<IDBPDatabase<KokugoPDFDB>> {
   if (dbInstance) return dbInstance;
 
   dbInstance = await openDB<KokugoPDFDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // スニペットストア
-      if (!db.objectStoreNames.contains('snippets')) {
-        const snippetStore = db.createObjectStore('snippets', { keyPath: 'id' });
-        snippetStore.createIndex('by-date', 'createdAt');
+    async upgrade(db, oldVersion, _newVersion, transaction) {
+      // v1のスニペット・レイアウトはテキスト要素等を持たないため作り直す
+      if (oldVersion < 2) {
+        if (db.objectStoreNames.contains('snippets')) db.deleteObjectStore('snippets');
+        if (db.objectStoreNames.contains('layouts')) db.deleteObjectStore('layouts');
       }
 
-      // レイアウトストア
-      if (!db.objectStoreNames.contains('layouts')) {
-        const layoutStore = db.createObjectStore('layouts', { keyPath: 'id' });
-        layoutStore.createIndex('by-date', 'createdAt');
+      // プロジェクトストア
+      if (!db.objectStoreNames.contains('projects')) {
+        const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
+        projectStore.createIndex('by-date', 'updatedAt');
+      }
+
+      // ファイル（元PDFとページ画像）・スニペット・レイアウトストア
+      for (const storeName of RECORD_STORES) {
+        const store = db.objectStoreNames.contains(storeName)
+          ? transaction.objectStore(storeName)
+          : db.createObjectStore(storeName, { keyPath: 'id' });
+        if (!store.indexNames.contains('by-date')) store.createIndex('by-date', 'savedAt');
+        if (!store.indexNames.contains('by-project')) store.createIndex('by-project', 'projectId');
+      }
+
+      // 画像ストア
+      if (!db.objectStoreNames.contains('images')) {
+        const imageStore = db.createObjectStore('images', { keyPath: 'id' });
+        imageStore.createIndex('by-date', 'createdAt');
       }
 
       // 設定ストア
       if (!db.objectStoreNames.contains('settings')) {
         db.createObjectStore('settings');
       }
+
+      if (oldVersion === 2) {
+        await migrateToDefaultProject(transaction);
+      }
+      if (oldVersion > 0 && oldVersion < 4) {
+        await migrateImagesToStore(transaction);
+      }
     },
   });
 
@@ -81,27 +240,23 @@ async function getDB(): Promise<IDBPDatabase<KokugoPDFDB>> {
 }
 
 /**
- * スニペットを保存
+ * スニペットを保存（現在のプロジェクトに追加）
  */
-export async function saveSnippet(snippet: {
-  id: string;
-  sourceFileId: string;
-  sourcePageNumber: number;
-  cropArea: { x: number; y: number; width: number; height: number };
-  imageData: string;
-  createdAt: Date;
-}): Promise<void> {
+export async function saveSnippet(snippet: Snippet, order: number = 0): Promise<void> {
   const db = await getDB();
   await db.put('snippets', {
     ...snippet,
     createdAt: snippet.createdAt.getTime(),
+    projectId: activeProjectId ?? DEFAULT_PROJECT_ID,
+    order,
+    savedAt: Date.now(),
   });
 }
 
 /**
  * スニペットを取得
  */
-export async function getSnippet(id: string): Promise<KokugoPDFDB['snippets']['value'] | undefined> {
+export async function getSnippet(id: string): Promise<StoredSnippet | undefined> {
   const db = await getDB();
   return db.get('snippets', id);
 }
@@ -109,7 +264,7 @@ export async function getSnippet(id: string): Promise<KokugoPDFDB['snippets']['v
 /**
  * 全スニペットを取得
  */
-export async function getAllSnippets(): Promise<KokugoPDFDB['snippets']['value'][]> {
+export async function getAllSnippets(): Promise<StoredSnippet[]> {
   const db = await getDB();
   return db.getAll('snippets');
 }
@@ -123,17 +278,22 @@ export async function deleteSnippet(id: string): Promise<void> {
 }
 
 /**
- * レイアウトを保存
+ * レイアウトを保存（現在のプロジェクトに追加）
  */
-export async function saveLayout(layout: KokugoPDFDB['layouts']['value']): Promise<void> {
+export async function saveLayout(layout: LayoutPage, order: number = 0): Promise<void> {
   const db = await getDB();
-  await db.put('layouts', layout);
+  await db.put('layouts', {
+    ...layout,
+    projectId: activeProjectId ?? DEFAULT_PROJECT_ID,
+    order,
+    savedAt: Date.now(),
+  });
 }
 
 /**
  * 全レイアウトを取得
  */
-export async function getAllLayouts(): Promise<KokugoPDFDB['layouts']['value'][]> {
+export async function getAllLayouts(): Promise<StoredLayout[]> {
   const db = await getDB();
   return db.getAll('layouts');
 }
@@ -162,29 +322,119 @@ export async function getSetting<T>(key: string): Promise<T | undefined> {
   return db.get('settings', key) as Promise<T | undefined>;
 }
 
+// =============================================================================
+// 画像ストア
+// =============================================================================
+
+/**
+ * 画像を保存
+ */
+export async function saveImageBlob(id: string, blob: Blob): Promise<void> {
+  const db = await getDB();
+  await db.put('images', { id, blob, createdAt: Date.now() });
+}
+
+/**
+ * 画像を取得
+ */
+export async function getImageBlob(id: string): Promise<Blob | undefined> {
+  const db = await getDB();
+  const image = await db.get('images', id);
+  return image?.blob;
+}
+
 /**
- * 古いデータを削除（30日以上前）
+ * 保存されているいずれかのプロジェクトから参照されている画像ID
+ */
+async function collectReferencedImageIds(): Promise<Set<string>> {
+  const db = await getDB();
+  const referenced = new Set<string>();
+  for (const file of await db.getAll('files')) {
+    for (const page of file.pages) {
+      if (page.imageId) referenced.add(page.imageId);
+      if (page.thumbnailId) referenced.add(page.thumbnailId);
+    }
+  }
+  for (const snippet of await db.getAll('snippets')) {
+    referenced.add(snippet.imageId);
+  }
+  return referenced;
+}
+
+/**
+ * どのプロジェクトからも参照されていない画像を削除
+ * このセッションで作られた画像は自動保存前の可能性があるため残す
+ */
+async function deleteUnreferencedImages(): Promise<void> {
+  const db = await getDB();
+  const referenced = await collectReferencedImageIds();
+
+  const range = IDBKeyRange.upperBound(sessionStartedAt, true);
+  const imageIds = await db.getAllKeysFromIndex('images', 'by-date', range);
+  const tx = db.transaction('images', 'readwrite');
+  for (const id of imageIds) {
+    if (!referenced.has(id)) tx.store.delete(id);
+  }
+  await tx.done;
+}
+
+/**
+ * 指定した画像のうち、どのプロジェクトからも参照されていないものを削除（破棄したページ画像の削除用）
+ * 保存待ちの作業状態を書き込んでから参照を調べる
+ */
+export async function deleteImagesIfUnreferenced(imageIds: string[]): Promise<void> {
+  if (imageIds.length === 0) return;
+  await flushAutosave();
+  const referenced = await collectReferencedImageIds();
+  const db = await getDB();
+  const tx = db.transaction('images', 'readwrite');
+  for (const id of imageIds) {
+    if (!referenced.has(id)) tx.store.delete(id);
+  }
+  await tx.done;
+}
+
+/**
+ * 古いプロジェクトを削除（30日以上更新されていないもの。開いているプロジェクト・復元を確認中のプロジェクトは除く）
+ * 削除はプロジェクト単位で行い、開いている作業状態のレコードは古くても削除しない
+ * どのプロジェクトにも属さないレコード・参照されなくなった画像もあわせて削除する
  * NF-005: 30日間保持
  */
 export async function cleanupOldData(): Promise<void> {
   const db = await getDB();
   const cutoffDate = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const range = IDBKeyRange.upperBound(cutoffDate, true);
 
-  // 古いスニペットを削除
-  const snippets = await db.getAllFromIndex('snippets', 'by-date');
-  for (const snippet of snippets) {
-    if (snippet.createdAt < cutoffDate) {
-      await db.delete('snippets', snippet.id);
-    }
+  const lastProjectId = await getSetting<string>(ACTIVE_PROJECT_KEY);
+  const session = await getSetting<StoredSession>(SESSION_KEY);
+  const liveProjectIds = new Set([activeProjectId, lastProjectId, session?.projectId]);
+  const projectIds = await db.getAllKeysFromIndex('projects', 'by-date', range);
+  for (const projectId of projectIds) {
+    if (liveProjectIds.has(projectId)) continue;
+    await deleteStoredProject(projectId);
   }
 
-  // 古いレイアウトを削除
-  const layouts = await db.getAllFromIndex('layouts', 'by-date');
-  for (const layout of layouts) {
-    if (layout.createdAt < cutoffDate) {
-      await db.delete('layouts', layout.id);
+  await writeQueue;
+  await deleteOrphanRecords();
+  await deleteUnreferencedImages();
+}
+
+/**
+ * 存在しないプロジェクトに属するレコードを削除（プロジェクトの削除が途中で止まった場合など）
+ */
+async function deleteOrphanRecords(): Promise<void> {
+  const db = await getDB();
+  const projectIds = new Set(await db.getAllKeys('projects'));
+  const tx = db.transaction(RECORD_STORES, 'readwrite');
+  for (const storeName of RECORD_STORES) {
+    const store = tx.objectStore(storeName);
+    for (const record of await store.getAll()) {
+      if (!projectIds.has(record.projectId) && record.projectId !== activeProjectId) {
+        await store.delete(record.id);
+      }
     }
   }
+  await tx.done;
 }
 
 /**
@@ -192,8 +442,452 @@ export async function cleanupOldData(): Promise<void> {
  */
 export async function clearDatabase(): Promise<void> {
   const db = await getDB();
+  await db.clear('projects');
+  await db.clear('files');
   await db.clear('snippets');
   await db.clear('layouts');
+  await db.clear('images');
+  await db.clear('settings');
+  activeProjectId = null;
+  savedRecords.files.clear();
+  savedRecords.snippets.clear();
+  savedRecords.layouts.clear();
+  savedMeta = null;
+  pendingState = null;
+}
+
+// =============================================================================
+// プロジェクト管理
+// =============================================================================
+
+function toProjectInfo(project: StoredProject): ProjectInfo {
+  return {
+    ...project,
+    createdAt: new Date(project.createdAt),
+    updatedAt: new Date(project.updatedAt),
+  };
+}
+
+/**
+ * プロジェクト一覧を取得（更新日時の新しい順）
+ */
+export async function listProjects(): Promise<ProjectInfo[]> {
+  const db = await getDB();
+  const projects = await db.getAll('projects');
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt).map(toProjectInfo);
+}
+
+/**
+ * プロジェクトを作成
+ */
+export async function createStoredProject(name: string): Promise<ProjectInfo> {
+  const db = await getDB();
+  const now = Date.now();
+  const project: StoredProject = { id: generateId(), name, createdAt: now, updatedAt: now };
+  await db.put('projects', project);
+  return toProjectInfo(project);
+}
+
+/**
+ * プロジェクト名を変更
+ */
+export async function renameStoredProject(projectId: string, name: string): Promise<void> {
+  const db = await getDB();
+  const project = await db.get('projects', projectId);
+  if (!project) return;
+  await db.put('projects', { ...project, name, updatedAt: Date.now() });
+}
+
+/**
+ * プロジェクトとその作業データを削除
+ */
+export async function deleteStoredProject(projectId: string): Promise<void> {
+  await writeQueue;
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'files', 'snippets', 'layouts', 'settings'], 'readwrite');
+  for (const storeName of RECORD_STORES) {
+    const store = tx.objectStore(storeName);
+    const keys = await store.index('by-project').getAllKeys(projectId);
+    for (const key of keys) {
+      await store.delete(key);
+    }
+  }
+  await tx.objectStore('settings').delete(workspaceKey(projectId));
+  await tx.objectStore('projects').delete(projectId);
+  await tx.done;
+}
+
+/**
+ * ID を振り直した作業状態を作成（複製・プロジェクトファイルの読み込み用）
+ * ストアはすべてのプロジェクトで共有のため、同じIDのままではほかのプロジェクトのデータを上書きしてしまう
+ */
+export function remapWorkspaceIds(workspace: WorkspaceState): WorkspaceState {
+  const fileIds = new Map(workspace.files.map((f) => [f.id, generateId()]));
+  const snippetIds = new Map(workspace.snippets.map((s) => [s.id, generateId()]));
+  const layoutIds = new Map(workspace.layoutPages.map((p) => [p.id, generateId()]));
+
+  return {
+    ...workspace,
+    files: workspace.files.map((f) => ({ ...f, id: fileIds.get(f.id) ?? f.id })),
+    snippets: workspace.snippets.map((s) => ({
+      ...s,
+      id: snippetIds.get(s.id) ?? s.id,
+      sourceFileId: fileIds.get(s.sourceFileId) ?? s.sourceFileId,
+    })),
+    layoutPages: workspace.layoutPages.map((p) => ({
+      ...p,
+      id: layoutIds.get(p.id) ?? p.id,
+      snippets: p.snippets.map((placed) => ({
+        ...placed,
+        snippetId: snippetIds.get(placed.snippetId) ?? placed.snippetId,
+      })),
+    })),
+    activeFileId: workspace.activeFileId ? fileIds.get(workspace.activeFileId) ?? null : null,
+    activeLayoutPageId: workspace.activeLayoutPageId
+      ? layoutIds.get(workspace.activeLayoutPageId) ?? null
+      : null,
+  };
+}
+
+/**
+ * プロジェクトを複製
+ */
+export async function duplicateStoredProject(projectId: string, name: string): Promise<ProjectInfo> {
+  await writeQueue;
+  const workspace = await loadWorkspace(projectId);
+  const project = await createStoredProject(name);
+  if (!workspace) return project;
+
+  const copy = remapWorkspaceIds(workspace);
+  const savedAt = Date.now();
+  const db = await getDB();
+  const tx = db.transaction(['files', 'snippets', 'layouts', 'settings'], 'readwrite');
+  copy.files.forEach((f, order) => {
+    tx.objectStore('files').put({ ...f, createdAt: f.createdAt.getTime(), projectId: project.id, order, savedAt });
+  });
+  copy.snippets.forEach((s, order) => {
+    tx.objectStore('snippets').put({ ...s, createdAt: s.createdAt.getTime(), projectId: project.id, order, savedAt });
+  });
+  copy.layoutPages.forEach((l, order) => {
+    tx.objectStore('layouts').put({ ...l, projectId: project.id, order, savedAt });
+  });
+  const meta: WorkspaceMeta = {
+    activeFileId: copy.activeFileId,
+    activePageNumber: copy.activePageNumber,
+    activeLayoutPageId: copy.activeLayoutPageId,
+    settings: copy.settings,
+  };
+  tx.objectStore('settings').put(meta, workspaceKey(project.id));
+  await tx.done;
+
+  return project;
+}
+
+/**
+ * 現在開いているプロジェクトIDを取得
+ */
+export function getActiveProjectId(): string | null {
+  return activeProjectId;
+}
+
+/**
+ * 保存待ちの書き込みが終わるまで待つ
+ */
+export function flushWorkspace(): Promise<void> {
+  return flushAutosave();
+}
+
+// =============================================================================
+// 作業状態の保存・復元
+// =============================================================================
+
+/**
+ * 変更のあったレコードだけを差分として抽出
+ */
+function diffRecords<T extends { id: string }>(
+  cache: Map<string, T>,
+  items: T[]
+): { changed: Array<{ item: T; order: number }>; removed: string[] } {
+  const changed: Array<{ item: T; order: number }> = [];
+  const currentIds = new Set<string>();
+
+  items.forEach((item, order) => {
+    currentIds.add(item.id);
+    if (cache.get(item.id) !== item) {
+      changed.push({ item, order });
+    }
+  });
+
+  // 並び順が変わった場合は全件を書き直す
+  const cachedIds = Array.from(cache.keys());
+  const orderChanged =
+    cachedIds.length !== items.length || cachedIds.some((id, i) => items[i]?.id !== id);
+  if (orderChanged) {
+    changed.length = 0;
+    items.forEach((item, order) => changed.push({ item, order }));
+  }
+
+  const removed = cachedIds.filter((id) => !currentIds.has(id));
+
+  cache.clear();
+  items.forEach((item) => cache.set(item.id, item));
+
+  return { changed, removed };
+}
+
+/**
+ * 作業状態を現在のプロジェクトに保存（差分のみ書き込み）
+ */
+export function saveWorkspace(state: WorkspaceState): Promise<void> {
+  const projectId = activeProjectId;
+  if (!projectId) return writeQueue;
+
+  const savedAt = Date.now();
+  const files = diffRecords(savedRecords.files, state.files);
+  const snippets = diffRecords(savedRecords.snippets, state.snippets);
+  const layouts = diffRecords(savedRecords.layouts, state.layoutPages);
+  const meta: WorkspaceMeta = {
+    activeFileId: state.activeFileId,
+    activePageNumber: state.activePageNumber,
+    activeLayoutPageId: state.activeLayoutPageId,
+    settings: state.settings,
+  };
+
+  // UI状態だけの変更では書き込まない（最終更新日時を動かさないため）
+  const metaChanged =
+    !savedMeta ||
+    savedMeta.activeFileId !== meta.activeFileId ||
+    savedMeta.activePageNumber !== meta.activePageNumber ||
+    savedMeta.activeLayoutPageId !== meta.activeLayoutPageId ||
+    (savedMeta.settings !== meta.settings && JSON.stringify(savedMeta.settings) !== JSON.stringify(meta.settings));
+  const recordsChanged = [files, snippets, layouts].some((d) => d.changed.length > 0 || d.removed.length > 0);
+  if (!metaChanged && !recordsChanged) return writeQueue;
+  savedMeta = meta;
+
+  // 閉じた後に（ページのキャッシュから戻って）保存した場合は、正常終了の印を取り消す
+  if (localStorage.getItem(CLEAN_EXIT_KEY) === sessionId) {
+    localStorage.removeItem(CLEAN_EXIT_KEY);
+  }
+  sessionSaved = true;
+
+  writeQueue = writeQueue
+    .then(async () => {
+      const db = await getDB();
+      const tx = db.transaction(['projects', 'files', 'snippets', 'layouts', 'settings'], 'readwrite');
+
+      for (const { item, order } of files.changed) {
+        tx.objectStore('files').put({ ...item, createdAt: item.createdAt.getTime(), projectId, order, savedAt });
+      }
+      for (const id of files.removed) tx.objectStore('files').delete(id);
+
+      for (const { item, order } of snippets.changed) {
+        tx.objectStore('snippets').put({ ...item, createdAt: item.createdAt.getTime(), projectId, order, savedAt });
+      }
+      for (const id of snippets.removed) tx.objectStore('snippets').delete(id);
+
+      for (const { item, order } of layouts.changed) {
+        tx.objectStore('layouts').put({ ...item, projectId, order, savedAt });
+      }
+      for (const id of layouts.removed) tx.objectStore('layouts').delete(id);
+
+      tx.objectStore('settings').put(meta, workspaceKey(projectId));
+      const session: StoredSession = { projectId, savedAt, closedCleanly: false, sessionId };
+      tx.objectStore('settings').put(session, SESSION_KEY);
+
+      // プロジェクトの最終更新日時を更新
+      const project = await tx.objectStore('projects').get(projectId);
+      if (project) {
+        tx.objectStore('projects').put({ ...project, updatedAt: savedAt });
+      }
+      await tx.done;
+    })
+    .catch((error) => {
+      console.error('作業状態の保存に失敗しました:', error);
+    });
+
+  return writeQueue;
+}
+
+// 変更が続く間は保存を遅らせる
+const scheduleAutosave = debounce(() => {
+  flushAutosave();
+}, AUTOSAVE_DELAY);
+
+/**
+ * 自動保存待ちの作業状態をすぐに保存
+ */
+export function flushAutosave(): Promise<void> {
+  if (!pendingState) return writeQueue;
+  const state = pendingState;
+  pendingState = null;
+  return saveWorkspace(state);
+}
+
+/**
+ * ページを閉じる時に、セッションを正常終了として記録（次回起動時に復元を確認しない）
+ * 閉じる時は非同期の書き込みが終わらないため、印はlocalStorageに同期的に書く
+ * このタブで保存していなければ、前のセッションの記録のままにする
+ */
+export function markSessionClosed(): void {
+  flushAutosave();
+  if (sessionSaved) {
+    localStorage.setItem(CLEAN_EXIT_KEY, sessionId);
+  }
+}
+
+/**
+ * セッションを正常終了として記録（復元の確認後に呼ぶ）
+ */
+export function markSessionClean(): Promise<void> {
+  flushAutosave();
+  writeQueue = writeQueue
+    .then(async () => {
+      const session = await getSetting<StoredSession>(SESSION_KEY);
+      if (session && !session.closedCleanly) {
+        await saveSetting(SESSION_KEY, { ...session, closedCleanly: true });
+      }
+    })
+    .catch((error) => {
+      console.error('セッションの終了を記録できませんでした:', error);
+    });
+  return writeQueue;
+}
+
+/**
+ * 起動時に見つかった、正常に終了しなかったセッションを取得
+ */
+export function getRecoverableSession(): RecoverableSession | null {
+  return recoverableSession;
+}
+
+/**
+ * プロジェクトの作業状態をIndexedDBから読み込む
+ * 保存データがない場合はnullを返す
+ */
+export async function loadWorkspace(projectId: string): Promise<WorkspaceState | null> {
+  const db = await getDB();
+  const meta = (await db.get('settings', workspaceKey(projectId))) as WorkspaceMeta | undefined;
+  if (!meta) return null;
+
+  const byOrder = (a: StoredMeta, b: StoredMeta) => a.order - b.order;
+  const storedFiles = (await db.getAllFromIndex('files', 'by-project', projectId)).sort(byOrder);
+  const storedSnippets = (await db.getAllFromIndex('snippets', 'by-project', projectId)).sort(byOrder);
+  const storedLayouts = (await db.getAllFromIndex('layouts', 'by-project', projectId)).sort(byOrder);
+
+  const files: PDFFile[] = storedFiles.map(({ projectId: _p, order: _o, savedAt: _s, ...f }) => ({
+    ...f,
+    createdAt: new Date(f.createdAt),
+    // 処理途中で閉じられたOCRは未処理に戻す
+    pages: f.pages.map((p) =>
+      p.ocrStatus === 'processing' ? { ...p, ocrStatus: 'pending' as const, ocrProgress: 0 } : p
+    ),
+  }));
+  const snippets: Snippet[] = storedSnippets.map(({ projectId: _p, order: _o, savedAt: _s, ...s }) => ({
+    ...s,
+    createdAt: new Date(s.createdAt),
+  }));
+  const layoutPages: LayoutPage[] = storedLayouts.map(({ projectId: _p, order: _o, savedAt: _s, ...l }) => ({
+    ...l,
+    textElements: l.textElements ?? [],
+    shapeElements: l.shapeElements ?? [],
+  }));
+
+  return { ...meta, files, snippets, layoutPages };
+}
+
+/**
+ * プロジェクトを開いた状態にする
+ * 読み込んだ作業状態を保存済みとして記録し、以降の保存先をこのプロジェクトにする
+ * （ストアへの反映と同期的に呼ぶこと）
+ */
+export function activateProject(projectId: string, workspace: WorkspaceState | null): void {
+  activeProjectId = projectId;
+  pendingState = null;
+  savedRecords.files = new Map((workspace?.files ?? []).map((f) => [f.id, f]));
+  savedRecords.snippets = new Map((workspace?.snippets ?? []).map((s) => [s.id, s]));
+  savedRecords.layouts = new Map((workspace?.layoutPages ?? []).map((l) => [l.id, l]));
+  savedMeta = workspace
+    ? {
+        activeFileId: workspace.activeFileId,
+        activePageNumber: workspace.activePageNumber,
+        activeLayoutPageId: workspace.activeLayoutPageId,
+        settings: workspace.settings,
+      }
+    : null;
+
+  writeQueue = writeQueue
+    .then(() => saveSetting(ACTIVE_PROJECT_KEY, projectId))
+    .catch((error) => {
+      console.error('プロジェクトの切り替えを保存できませんでした:', error);
+    });
+}
+
+/**
+ * 前回開いていたプロジェクトを取得（なければ作成）
+ */
+async function resolveStartupProject(): Promise<string> {
+  const db = await getDB();
+  const lastProjectId = await getSetting<string>(ACTIVE_PROJECT_KEY);
+  if (lastProjectId && (await db.get('projects', lastProjectId))) {
+    return lastProjectId;
+  }
+
+  const projects = await listProjects();
+  if (projects.length > 0) return projects[0].id;
+
+  const project = await createStoredProject(DEFAULT_PROJECT_NAME);
+  return project.id;
+}
+
+/**
+ * zustand persist用のIndexedDBストレージ
+ * NF-005: データ保持 - リロード後も前回のプロジェクトを復元
+ * 旧バージョン（localStorage保存）の設定は初回読み込み時に引き継ぐ
+ */
+export function createWorkspaceStorage(): PersistStorage<WorkspaceState> {
+  // 復元が終わるまでは書き込まない（初期状態で上書きしないため）
+  let hydrated = false;
+
+  return {
+    getItem: async (name) => {
+      try {
+        // 前回正常に終了しなかった場合は、復元するかをユーザーに確認してから開く
+        const session = await getSetting<StoredSession>(SESSION_KEY);
+        const closedCleanly =
+          session?.closedCleanly || (!!session?.sessionId && localStorage.getItem(CLEAN_EXIT_KEY) === session.sessionId);
+        if (session && !closedCleanly && (await (await getDB()).get('projects', session.projectId))) {
+          recoverableSession = { projectId: session.projectId, savedAt: new Date(session.savedAt) };
+          return null;
+        }
+
+        const projectId = await resolveStartupProject();
+        const state = await loadWorkspace(projectId);
+        activateProject(projectId, state);
+        if (state) return { state, version: 0 };
+
+        const legacy = localStorage.getItem(name);
+        if (legacy) {
+          return JSON.parse(legacy) as StorageValue<WorkspaceState>;
+        }
+        return null;
+      } catch (error) {
+        console.error('作業状態の復元に失敗しました:', error);
+        return null;
+      } finally {
+        hydrated = true;
+      }
+    },
+    setItem: (_name, value) => {
+      if (!hydrated) return;
+      // 変更のたびには書き込まず、まとめて自動保存する
+      pendingState = value.state;
+      scheduleAutosave();
+    },
+    removeItem: async (name) => {
+      localStorage.removeItem(name);
+      await clearDatabase();
+    },
+  };
 }
 
 /**
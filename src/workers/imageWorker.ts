@@ -0,0 +1,43 @@
+// =============================================================================
+// 画像処理ワーカー
+// OffscreenCanvasで画像補正・拡大縮小・エンコードを行う（呼び出しはutils/imageProcessing）
+// =============================================================================
+
+import { drawProcessedImage } from '../utils/imagePipeline';
+import type { ImageJobRequest, ImageJobResponse, ProcessedImage } from '../utils/imageProcessing';
+
+// tsconfigにWebWorkerのlibを含めていないため、使う機能だけを型付けする
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImageJobRequest>) => void) | null;
+  postMessage: (message: ImageJobResponse) => void;
+};
+
+async function processBitmap({ bitmap, enhancement, options }: ImageJobRequest): Promise<ProcessedImage> {
+  const canvas = drawProcessedImage(bitmap, enhancement, options, (width, height) => {
+    const offscreen = new OffscreenCanvas(width, height);
+    const ctx = offscreen.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas context not available');
+    return { canvas: offscreen, ctx };
+  });
+
+  return {
+    blob: await canvas.convertToBlob({ type: options.type ?? 'image/png', quality: options.quality }),
+    width: canvas.width,
+    height: canvas.height,
+    sourceWidth: bitmap.width,
+    sourceHeight: bitmap.height,
+  };
+}
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+  processBitmap(request)
+    .then((result) => workerScope.postMessage({ id: request.id, ...result }))
+    .catch((error) => {
+      workerScope.postMessage({
+        id: request.id,
+        error: error instanceof Error ? error.message : '画像処理に失敗しました',
+      });
+    })
+    .finally(() => request.bitmap.close());
+};
@@ -1,8 +1,69 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createReadStream, readFileSync, readdirSync, statSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const nodeModules = join(dirname(fileURLToPath(import.meta.url)), 'node_modules')
+
+// オフラインで使うためにアプリと一緒に配信するファイル（配信先のパス → node_modules内のパス）
+// 配信先のパスは src/utils/offlineAssets.ts と合わせる
+const OFFLINE_ASSETS: Record<string, string> = {
+  // PDF.js: 日本語フォント（CIDフォント）の文字コード表・埋め込まれていない標準フォント
+  'pdfjs/cmaps': 'pdfjs-dist/cmaps',
+  'pdfjs/standard_fonts': 'pdfjs-dist/standard_fonts',
+  // Tesseract.js: ワーカー・OCRエンジン（SIMD対応・非対応）・日本語の学習データ
+  'tesseract/worker.min.js': 'tesseract.js/dist/worker.min.js',
+  'tesseract/core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract/core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'tesseract/lang/jpn.traineddata.gz': '@tesseract.js-data/jpn/4.0.0_best_int/jpn.traineddata.gz',
+}
+
+/**
+ * 配信するファイルの一覧（配信先のパス → ファイルのパス）
+ */
+function listOfflineAssets(): Map<string, string> {
+  const files = new Map<string, string>()
+  const add = (target: string, source: string) => {
+    if (statSync(source).isDirectory()) {
+      readdirSync(source).forEach((name) => add(`${target}/${name}`, join(source, name)))
+    } else {
+      files.set(target, source)
+    }
+  }
+  Object.entries(OFFLINE_ASSETS).forEach(([target, source]) => add(target, join(nodeModules, source)))
+  return files
+}
+
+/**
+ * CDNを使わずに動くよう、PDF.js・Tesseract.jsの実行時に読み込むファイルを配信する
+ * 開発サーバーではnode_modulesから直接返し、ビルドでは出力先にコピーする
+ */
+function offlineAssets(): Plugin {
+  return {
+    name: 'offline-assets',
+    configureServer(server) {
+      const files = listOfflineAssets()
+      server.middlewares.use((req, res, next) => {
+        const path = decodeURIComponent((req.url ?? '').split('?')[0]).slice(server.config.base.length)
+        const file = files.get(path)
+        if (!file) return next()
+        res.setHeader('Content-Length', statSync(file).size)
+        res.setHeader('Content-Type', file.endsWith('.js') ? 'text/javascript' : 'application/octet-stream')
+        if (req.method === 'HEAD') return res.end()
+        createReadStream(file).pipe(res)
+      })
+    },
+    generateBundle() {
+      listOfflineAssets().forEach((file, fileName) => {
+        this.emitFile({ type: 'asset', fileName, source: readFileSync(file) })
+      })
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), offlineAssets()],
   optimizeDeps: {
     exclude: ['pdfjs-dist']
   },